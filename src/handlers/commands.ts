@@ -0,0 +1,555 @@
+import type { Context } from "probot";
+import {
+  loadEffectiveConfig,
+  loadConfigForPR,
+} from "../services/config-loader.js";
+import {
+  auditTrail,
+  inDisplayOrder,
+  parseChecklist,
+  skipRule,
+} from "../services/checklist.js";
+import {
+  blockPR,
+  approvePR,
+  resolveGate,
+} from "../services/review-manager.js";
+import { findUnauthorizedChecks } from "../services/approvals.js";
+import { findSkill, resolveSkills } from "../skills/index.js";
+import { findBotComment, queueReanalysis } from "./pull-request.js";
+import { overridePR } from "./override.js";
+import type { ChecklistItemState } from "../schemas/analysis-result.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Command parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+const COMMAND_PREFIX = "/checklist";
+
+const USAGE =
+  "Available commands:\n" +
+  "- `/checklist reanalyze` — re-run the analysis against the current PR head\n" +
+  "- `/checklist skip <rule-id> <reason>` — check off every item for a rule, recording why\n" +
+  "- `/checklist override <reason>` — emergency merge with unchecked items (configured teams only)\n" +
+  "- `/checklist explain <item>` — explain an item (by number or label)\n" +
+  "- `/checklist status` — show checklist progress\n" +
+  "- `/checklist audit` — export who checked or skipped each item and when";
+
+export type ChecklistCommand =
+  | { name: "reanalyze" }
+  | { name: "status" }
+  | { name: "audit" }
+  | { name: "skip"; ruleId: string; reason: string }
+  | { name: "override"; reason: string }
+  | { name: "explain"; item: string }
+  | { name: "help"; error?: string };
+
+/**
+ * Parse a `/checklist <command> [args]` line from a comment body.
+ * Only the first line is considered so a command can be followed by free text.
+ * Returns null when the comment is not addressed to the bot.
+ */
+export function parseCommand(body: string): ChecklistCommand | null {
+  const firstLine = body.trim().split("\n")[0].trim();
+  const [prefix, name = "", ...args] = firstLine.split(/\s+/);
+
+  if (prefix !== COMMAND_PREFIX) {
+    return null;
+  }
+
+  switch (name.toLowerCase()) {
+    case "reanalyze":
+      return { name: "reanalyze" };
+    case "status":
+      return { name: "status" };
+    case "audit":
+      return { name: "audit" };
+    case "skip": {
+      const [ruleId, ...reason] = args;
+      if (!ruleId || reason.length === 0) {
+        return { name: "help", error: "`skip` needs a rule id and a reason." };
+      }
+      return { name: "skip", ruleId, reason: reason.join(" ") };
+    }
+    case "override":
+      if (args.length === 0) {
+        return {
+          name: "help",
+          error: "`override` needs a reason, e.g. the incident it fixes.",
+        };
+      }
+      return { name: "override", reason: args.join(" ") };
+    case "explain":
+      if (args.length === 0) {
+        return {
+          name: "help",
+          error: "`explain` needs an item number or label.",
+        };
+      }
+      return { name: "explain", item: args.join(" ") };
+    case "":
+    case "help":
+      return { name: "help" };
+    default:
+      return { name: "help", error: `Unknown command \`${name}\`.` };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Reply on the PR, quoting the command so the answer reads as part of the thread. */
+async function reply(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  body: string
+): Promise<void> {
+  const { comment, sender } = context.payload;
+  const quoted = comment.body.trim().split("\n")[0];
+
+  await context.octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body: `> ${quoted}\n\n@${sender.login} ${body}`,
+  });
+}
+
+/** Resolve an explain target — a 1-based item number or a case-insensitive label match. */
+function findItem(
+  items: ChecklistItemState[],
+  target: string
+): ChecklistItemState | undefined {
+  // Numbers count down the comment, which lists items by priority
+  const index = Number(target);
+  if (Number.isInteger(index) && index >= 1) {
+    return inDisplayOrder(items)[index - 1];
+  }
+
+  const needle = target.toLowerCase();
+  return items.find((i) => i.item.check.toLowerCase().includes(needle));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Command handlers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch the PR and its effective config, then queue a re-analysis — refused for PRs the
+ * pull_request events would skip (drafts, ignored authors, other branches, skip labels).
+ */
+async function runReanalyze(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<void> {
+  const { data: pr } = await context.octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: prNumber,
+  });
+
+  const { config } = await loadEffectiveConfig(context, owner, repo, pr);
+  const skipped = await queueReanalysis(context, owner, repo, pr, config);
+  if (skipped) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `Not re-analyzing this PR: ${skipped}.`
+    );
+    return;
+  }
+
+  const shortSha = pr.head.sha.slice(0, 7);
+  await reply(
+    context,
+    owner,
+    repo,
+    prNumber,
+    `Re-analyzing at \`${shortSha}\` — the checklist will update shortly.`
+  );
+}
+
+/**
+ * Check off a rule's items with an attributed skip note, then re-evaluate the gate.
+ * A skip signs the items off, so it is refused unless the sender may check them.
+ */
+async function runSkip(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  ruleId: string,
+  reason: string
+): Promise<void> {
+  const botComment = await findBotComment(context, owner, repo, prNumber);
+  if (!botComment) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      "There is no deploy checklist on this PR yet."
+    );
+    return;
+  }
+
+  const sender = context.payload.sender.login;
+  const { body, skipped } = skipRule(
+    botComment.body ?? "",
+    ruleId,
+    sender,
+    reason
+  );
+
+  if (skipped === 0) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `No checklist items found for rule \`${ruleId}\`.`
+    );
+    return;
+  }
+
+  // Same approver policies as ticking the boxes by hand (see handleIssueCommentEdited)
+  const { config, author } = await loadConfigForPR(
+    context,
+    owner,
+    repo,
+    prNumber
+  );
+  const skippedItems = parseChecklist(body)?.items ?? [];
+  const unauthorized = await findUnauthorizedChecks(
+    context,
+    config,
+    skippedItems,
+    skippedItems.filter((i) => i.item.rule_id === ruleId).map((i) => i.id),
+    sender,
+    author
+  );
+  if (unauthorized.size > 0) {
+    const reasons = [...new Set(unauthorized.values())].join("; ");
+    context.log.info(
+      `Refused skip of ${ruleId} by @${sender} on PR #${prNumber}: ${reasons}`
+    );
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `Rule \`${ruleId}\` was not skipped: ${reasons}.`
+    );
+    return;
+  }
+
+  await context.octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    comment_id: botComment.id,
+    body,
+  });
+
+  await reply(
+    context,
+    owner,
+    repo,
+    prNumber,
+    `Skipped ${skipped} item(s) for rule \`${ruleId}\`.`
+  );
+
+  const state = parseChecklist(body);
+  if (!state) return;
+
+  // An overridden PR is already approved — skipping items doesn't change that
+  if (state.override) return;
+
+  const gate = await resolveGate(context, owner, repo, prNumber, state.items);
+  if (state.allComplete) {
+    await approvePR(context, owner, repo, prNumber, undefined, gate);
+  } else {
+    const remaining = state.items.filter((i) => !i.checked).length;
+    await blockPR(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `Deploy checklist has ${remaining} unchecked item(s). Please address all items before merging.`,
+      gate
+    );
+  }
+}
+
+/** Break-glass override by a configured team member, with the reason on the record. */
+async function runOverride(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  reason: string
+): Promise<void> {
+  const { config, headSha } = await loadConfigForPR(
+    context,
+    owner,
+    repo,
+    prNumber
+  );
+  const outcome = await overridePR(
+    context,
+    owner,
+    repo,
+    prNumber,
+    config,
+    headSha,
+    { by: context.payload.sender.login, reason, source: "command" }
+  );
+
+  if (!outcome.overridden) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `the deploy checklist was not overridden: ${outcome.denied}.`
+    );
+    return;
+  }
+
+  const followUp = outcome.followUpIssue
+    ? ` The ${outcome.unchecked} unchecked item(s) are tracked in #${outcome.followUpIssue}.`
+    : "";
+  await reply(
+    context,
+    owner,
+    repo,
+    prNumber,
+    `Deploy checklist overridden and the PR approved.${followUp}`
+  );
+}
+
+/** Describe a single item: what it asks, why, and which skill or rule produced it. */
+async function runExplain(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  target: string
+): Promise<void> {
+  const botComment = await findBotComment(context, owner, repo, prNumber);
+  const state = botComment ? parseChecklist(botComment.body ?? "") : null;
+  const found = state ? findItem(state.items, target) : undefined;
+
+  if (!found) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      `No checklist item matches \`${target}\`.`
+    );
+    return;
+  }
+
+  const { item } = found;
+  const lines = [
+    `**${item.check}**`,
+    "",
+    item.description,
+    "",
+    `_Why:_ ${item.reasoning}`,
+  ];
+
+  // Custom skills live in the config, so resolve against it rather than the built-ins alone
+  const { config } = await loadConfigForPR(context, owner, repo, prNumber);
+  const skill = findSkill(item.rule_id, resolveSkills(config));
+  if (skill) {
+    const origin = skill.custom
+      ? `\`${skill.id}\` skill defined in this repo's config`
+      : `built-in \`${skill.id}\` skill`;
+    lines.push(
+      "",
+      `Raised by the ${origin} (${skill.name}), which checks:`,
+      ...skill.checks.map((check) => `- ${check}`)
+    );
+  } else {
+    lines.push(
+      "",
+      `Raised by the custom rule \`${item.rule_id}\` in this repo's config.`
+    );
+  }
+
+  await reply(context, owner, repo, prNumber, lines.join("\n"));
+}
+
+/** Summarize checklist progress and list what's still open. */
+async function runStatus(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<void> {
+  const botComment = await findBotComment(context, owner, repo, prNumber);
+  const state = botComment ? parseChecklist(botComment.body ?? "") : null;
+
+  if (!state || state.items.length === 0) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      "There are no open deploy checklist items on this PR."
+    );
+    return;
+  }
+
+  const checked = state.items.filter((i) => i.checked).length;
+  const total = state.items.length;
+  const shortSha = state.sha.slice(0, 7);
+  const lines = [
+    `Deploy checklist: **${checked}/${total}** items checked (analyzed at \`${shortSha}\`).`,
+  ];
+
+  // Numbered by position in the comment, so each can be passed to `/checklist explain`
+  const unchecked = inDisplayOrder(state.items)
+    .map((entry, index) => ({ ...entry, number: index + 1 }))
+    .filter((i) => !i.checked);
+  if (unchecked.length > 0) {
+    lines.push("", "Still open:");
+    for (const { item, number } of unchecked) {
+      lines.push(`- **${number}.** ${item.check} (\`${item.rule_id}\`)`);
+    }
+  }
+
+  await reply(context, owner, repo, prNumber, lines.join("\n"));
+}
+
+/** Export the checklist audit trail as a readable table plus machine-readable JSON. */
+async function runAudit(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<void> {
+  const botComment = await findBotComment(context, owner, repo, prNumber);
+  const state = botComment ? parseChecklist(botComment.body ?? "") : null;
+  const records = state ? auditTrail(state) : [];
+
+  if (records.length === 0) {
+    await reply(
+      context,
+      owner,
+      repo,
+      prNumber,
+      "No checklist activity has been recorded on this PR yet."
+    );
+    return;
+  }
+
+  const lines = [
+    `Checklist audit trail (${records.length} event(s)):`,
+    "",
+    "| When | Who | Action | Item | Rule | Reason |",
+    "|---|---|---|---|---|---|",
+    ...records.map(
+      (r) =>
+        `| ${r.at} | @${r.by} | ${r.action} | ${r.check} | \`${r.rule_id}\` | ${r.reason ?? ""} |`
+    ),
+    "",
+    "<details><summary>JSON export</summary>",
+    "",
+    "```json",
+    JSON.stringify(records, null, 2),
+    "```",
+    "</details>",
+  ];
+
+  await reply(context, owner, repo, prNumber, lines.join("\n"));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Handle issue_comment.created events.
+ * Parses `/checklist ...` commands on PRs and replies in the conversation.
+ */
+export async function handleIssueCommentCreated(
+  context: Context<"issue_comment.created">
+): Promise<void> {
+  const { comment, issue, sender } = context.payload;
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+
+  // Never react to bots — including our own replies, which quote the command
+  if (sender.type === "Bot") {
+    return;
+  }
+
+  // issue_comment fires for both issues and PRs — skip regular issues
+  if (!("pull_request" in issue) || !issue.pull_request) {
+    return;
+  }
+
+  const command = parseCommand(comment.body);
+  if (!command) {
+    return;
+  }
+
+  const prNumber = issue.number;
+  context.log.info(
+    `Processing /checklist ${command.name} on ${owner}/${repo}#${prNumber}`
+  );
+
+  try {
+    switch (command.name) {
+      case "reanalyze":
+        await runReanalyze(context, owner, repo, prNumber);
+        break;
+      case "skip":
+        await runSkip(
+          context,
+          owner,
+          repo,
+          prNumber,
+          command.ruleId,
+          command.reason
+        );
+        break;
+      case "override":
+        await runOverride(context, owner, repo, prNumber, command.reason);
+        break;
+      case "explain":
+        await runExplain(context, owner, repo, prNumber, command.item);
+        break;
+      case "status":
+        await runStatus(context, owner, repo, prNumber);
+        break;
+      case "audit":
+        await runAudit(context, owner, repo, prNumber);
+        break;
+      case "help":
+        await reply(
+          context,
+          owner,
+          repo,
+          prNumber,
+          command.error ? `${command.error}\n\n${USAGE}` : USAGE
+        );
+        break;
+    }
+  } catch (error: unknown) {
+    context.log.error(
+      `Error handling /checklist ${command.name}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
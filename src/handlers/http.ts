@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { counter, renderMetrics } from "../utils/metrics.js";
+
+const webhookEvents = counter(
+  "deploy_checklist_webhook_events_total",
+  "Webhook events received, by event name and action",
+  ["event", "action"]
+);
+
+const startedAt = Date.now();
+let lastWebhookAt: number | null = null;
+
+/** Count a received webhook and note when it arrived, for /healthz. */
+export function recordWebhookEvent(event: string, action?: string): void {
+  webhookEvents.inc({ event, action: action ?? "" });
+  lastWebhookAt = Date.now();
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <METRICS_TOKEN>`. Hashing both sides
+ * gives timingSafeEqual equal lengths without leaking the token's length.
+ */
+function hasMetricsToken(
+  req: Pick<IncomingMessage, "headers">,
+  token: string
+): boolean {
+  const header = req.headers.authorization ?? "";
+  const presented = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+/**
+ * Probot server handler for `GET /metrics` (Prometheus text format) and `GET /healthz`.
+ * Returns false for anything else so the request falls through to Probot's own handlers.
+ * Metrics name repos and their LLM spend, so /metrics needs METRICS_TOKEN as a bearer
+ * token — and is off while METRICS_TOKEN is unset.
+ */
+export function handleHttpRequest(
+  req: Pick<IncomingMessage, "method" | "url" | "headers">,
+  res: ServerResponse
+): boolean {
+  if (req.method !== "GET") return false;
+  const path = req.url?.split("?")[0] ?? "";
+
+  if (path === "/metrics") {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) {
+      res
+        .writeHead(404, { "content-type": "text/plain" })
+        .end("Metrics are disabled — set METRICS_TOKEN to enable them\n");
+      return true;
+    }
+    if (!hasMetricsToken(req, token)) {
+      res
+        .writeHead(401, {
+          "content-type": "text/plain",
+          "www-authenticate": 'Bearer realm="metrics"',
+        })
+        .end("Unauthorized\n");
+      return true;
+    }
+    res
+      .writeHead(200, { "content-type": "text/plain; version=0.0.4" })
+      .end(renderMetrics());
+    return true;
+  }
+
+  if (path === "/healthz") {
+    // last_webhook_at lets a probe tell "up but receiving nothing" from healthy
+    const body = {
+      status: "ok",
+      uptime_seconds: Math.floor((Date.now() - startedAt) / 1000),
+      last_webhook_at:
+        lastWebhookAt !== null ? new Date(lastWebhookAt).toISOString() : null,
+    };
+    res
+      .writeHead(200, { "content-type": "application/json" })
+      .end(JSON.stringify(body));
+    return true;
+  }
+
+  return false;
+}
@@ -1,16 +1,26 @@
 import type { Context } from "probot";
-import { BOT_MARKER, isComplete, parseChecklist } from "../services/checklist.js";
+import {
+  BOT_MARKER,
+  parseChecklist,
+  recordToggles,
+  renderChecklist,
+  revertChecks,
+} from "../services/checklist.js";
 import { blockPR, approvePR } from "../services/review-manager.js";
+import { loadConfigForPR } from "../services/config-loader.js";
+import { findUnauthorizedChecks } from "../services/approvals.js";
 
 /**
  * Handle issue_comment.edited events.
  * GitHub fires this when someone checks/unchecks a checkbox in a comment.
- * We parse the checklist state and approve or re-block the PR accordingly.
+ * We record who toggled which items (diffing against `changes.body.from`),
+ * revert checks made by someone outside the rule's approvers, then approve
+ * or re-block the PR based on the resulting state.
  */
 export async function handleIssueCommentEdited(
   context: Context<"issue_comment.edited">
 ): Promise<void> {
-  const { comment, issue } = context.payload;
+  const { comment, issue, sender } = context.payload;
   const owner = context.payload.repository.owner.login;
   const repo = context.payload.repository.name;
 
@@ -26,11 +36,18 @@ export async function handleIssueCommentEdited(
 
   const prNumber = issue.number;
 
+  // The bot's own rewrites (re-analysis, skips, audit stamps) gate the PR when
+  // they're written — re-evaluating here would post duplicate reviews
+  if (sender.type === "Bot") {
+    context.log.info(`Ignoring bot edit of checklist on PR #${prNumber}`);
+    return;
+  }
+
   context.log.info(
     `Processing checklist edit on ${owner}/${repo}#${prNumber}`
   );
 
-  const state = parseChecklist(comment.body ?? "");
+  let state = parseChecklist(comment.body ?? "");
   if (!state) {
     context.log.warn(
       `Could not parse checklist from comment on PR #${prNumber}`
@@ -38,15 +55,94 @@ export async function handleIssueCommentEdited(
     return;
   }
 
+  // Gate mode, head SHA and approver policies come from the current PR, not the comment
+  const { config, headSha, author } = await loadConfigForPR(
+    context,
+    owner,
+    repo,
+    prNumber
+  );
+
+  // Attribute toggled items to the editor and stamp the comment with the audit trail.
+  // Anything but checkboxes edited in the comment is put back as the bot last wrote it
+  const previousBody = context.payload.changes.body?.from;
+  if (previousBody !== undefined) {
+    const recorded = recordToggles(
+      previousBody,
+      comment.body,
+      sender.login,
+      comment.updated_at
+    );
+    if (recorded) state = recorded.state;
+    if (recorded?.restored) {
+      context.log.warn(
+        `@${sender.login} edited more than checkboxes in the checklist on PR #${prNumber} — restoring it`
+      );
+    }
+    if (recorded && (recorded.toggled.length > 0 || recorded.restored)) {
+      context.log.info(
+        `Recorded ${recorded.toggled.length} checklist toggle(s) by @${sender.login} on PR #${prNumber}`
+      );
+
+      const unauthorized = await findUnauthorizedChecks(
+        context,
+        config,
+        state.items,
+        recorded.toggled,
+        sender.login,
+        author
+      );
+      if (unauthorized.size > 0) {
+        state = revertChecks(
+          state,
+          unauthorized,
+          sender.login,
+          comment.updated_at
+        );
+      }
+
+      await context.octokit.rest.issues.updateComment({
+        owner,
+        repo,
+        comment_id: comment.id,
+        body: renderChecklist(state),
+      });
+
+      if (unauthorized.size > 0) {
+        context.log.info(
+          `Reverted ${unauthorized.size} unauthorized check(s) by @${sender.login} on PR #${prNumber}`
+        );
+        const reverted = state.items
+          .filter((i) => unauthorized.has(i.id))
+          .map((i) => `- **${i.item.check}** — ${unauthorized.get(i.id)}`);
+        await context.octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number: prNumber,
+          body:
+            `@${sender.login} the following checklist item(s) were un-checked because ` +
+            `you are not an authorized approver:\n\n${reverted.join("\n")}`,
+        });
+      }
+    }
+  }
+
   const checkedCount = state.items.filter((i) => i.checked).length;
   const totalCount = state.items.length;
   context.log.info(
     `Checklist status: ${checkedCount}/${totalCount} items checked`
   );
 
-  if (state.allComplete) {
+  const gate = { mode: config.settings.gate_mode, headSha, items: state.items };
+
+  if (state.override) {
+    // A break-glass override keeps the PR approved until the next analysis, whatever is ticked
+    context.log.info(
+      `Checklist on PR #${prNumber} was overridden by @${state.override.by} — not re-gating`
+    );
+  } else if (state.allComplete) {
     context.log.info(`All items checked on PR #${prNumber} — approving`);
-    await approvePR(context, owner, repo, prNumber);
+    await approvePR(context, owner, repo, prNumber, undefined, gate);
   } else {
     context.log.info(
       `${totalCount - checkedCount} unchecked items on PR #${prNumber} — blocking`
@@ -56,7 +152,8 @@ export async function handleIssueCommentEdited(
       owner,
       repo,
       prNumber,
-      `Deploy checklist has ${totalCount - checkedCount} unchecked item(s). Please address all items before merging.`
+      `Deploy checklist has ${totalCount - checkedCount} unchecked item(s). Please address all items before merging.`,
+      gate
     );
   }
 }
@@ -0,0 +1,215 @@
+import type { Context } from "probot";
+import { loadEffectiveConfig } from "../services/config-loader.js";
+import {
+  parseChecklist,
+  recordOverride,
+  renderChecklist,
+} from "../services/checklist.js";
+import { approvePR } from "../services/review-manager.js";
+import { checkOverrideAuthorization } from "../services/approvals.js";
+import { getJobQueue, prJobKey } from "../services/job-queue.js";
+import { counter } from "../utils/metrics.js";
+import { findBotComment, rejectLabel } from "./pull-request.js";
+import type { DeployChecklistConfig } from "../schemas/config.js";
+import type { ChecklistItemState } from "../schemas/analysis-result.js";
+
+const overrides = counter(
+  "deploy_checklist_overrides_total",
+  "Break-glass overrides, by how they were requested and whether they were allowed",
+  ["source", "outcome"]
+);
+
+/** The justification line the override label needs in the PR description. */
+const OVERRIDE_REASON_REGEX = /^\s*Override reason:[ \t]*(\S.*)$/im;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Who asked for the override and why. `source` is only used for metrics. */
+export interface OverrideRequest {
+  by: string;
+  reason: string;
+  source: "command" | "label";
+}
+
+/** The override happened (`followUpIssue` is unset when nothing was unchecked) or was refused. */
+export type OverrideOutcome =
+  | { overridden: true; unchecked: number; followUpIssue?: number }
+  | { overridden: false; denied: string };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The `Override reason: …` line from a PR description, if there is one. */
+function overrideReason(body: string | null): string | undefined {
+  return body?.match(OVERRIDE_REASON_REGEX)?.[1].trim();
+}
+
+/** Open an issue listing the items merged unchecked so they're addressed after the deploy. */
+async function openFollowUpIssue(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  request: OverrideRequest,
+  unchecked: ChecklistItemState[],
+  at: string
+): Promise<number> {
+  const date = at.slice(0, 10);
+  const body = [
+    `The deploy checklist of #${prNumber} was overridden by @${request.by} on ${date}:`,
+    "",
+    `> ${request.reason}`,
+    "",
+    "These items were still unchecked. Address them now that the change is deployed:",
+    "",
+    ...unchecked.map(
+      ({ item }) =>
+        `- [ ] **${item.check}** (\`${item.rule_id}\`) — ${item.description}`
+    ),
+  ];
+
+  const { data: issue } = await context.octokit.rest.issues.create({
+    owner,
+    repo,
+    title: `Deploy checklist follow-up for #${prNumber}`,
+    body: body.join("\n"),
+  });
+  return issue.number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Break-glass override: approve the PR without finishing its checklist.
+ * Only `settings.override_approvers` may do it, and only with a reason. Queued analysis
+ * is cancelled, unchecked items are moved to a follow-up issue, and the checklist comment
+ * is stamped with who overrode it and why (every unchecked item also gets an "overridden"
+ * audit event).
+ * The override covers the current head — the next analysis gates the PR again.
+ */
+export async function overridePR(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  config: DeployChecklistConfig,
+  headSha: string,
+  request: OverrideRequest
+): Promise<OverrideOutcome> {
+  const denied = await checkOverrideAuthorization(context, config, request.by);
+  if (denied) {
+    overrides.inc({ source: request.source, outcome: "denied" });
+    context.log.info(
+      `Refused override of ${owner}/${repo}#${prNumber} by @${request.by}: ${denied}`
+    );
+    return { overridden: false, denied };
+  }
+
+  if (!request.reason) {
+    overrides.inc({ source: request.source, outcome: "missing_reason" });
+    return { overridden: false, denied: "an override needs a justification" };
+  }
+
+  await getJobQueue().cancel(prJobKey(owner, repo, prNumber));
+
+  const at = new Date().toISOString();
+  const botComment = await findBotComment(context, owner, repo, prNumber);
+  const state = botComment ? parseChecklist(botComment.body ?? "") : null;
+  const unchecked = state?.items.filter((i) => !i.checked) ?? [];
+
+  const followUpIssue =
+    unchecked.length > 0
+      ? await openFollowUpIssue(
+          context,
+          owner,
+          repo,
+          prNumber,
+          request,
+          unchecked,
+          at
+        )
+      : undefined;
+
+  let items: ChecklistItemState[] = [];
+  if (botComment && state) {
+    const stamped = recordOverride(
+      state,
+      request.by,
+      request.reason,
+      followUpIssue,
+      at
+    );
+    await context.octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: botComment.id,
+      body: renderChecklist(stamped),
+    });
+    items = stamped.items;
+  }
+
+  const followUp = followUpIssue ? ` Unchecked items: #${followUpIssue}.` : "";
+  await approvePR(
+    context,
+    owner,
+    repo,
+    prNumber,
+    `Deploy checklist overridden by @${request.by}: ${request.reason}.${followUp}`,
+    { mode: config.settings.gate_mode, headSha, items }
+  );
+
+  overrides.inc({ source: request.source, outcome: "overridden" });
+  context.log.info(
+    `@${request.by} overrode the deploy checklist on ${owner}/${repo}#${prNumber} with ${unchecked.length} unchecked item(s)`
+  );
+  return { overridden: true, unchecked: unchecked.length, followUpIssue };
+}
+
+/**
+ * Handle pull_request.labeled for `settings.labels.override` (default `hotfix`).
+ * The justification is the `Override reason: …` line of the PR description. A refused
+ * label is removed with an explanation and the PR analyzed. Until `override_approvers` is
+ * set the label is left alone — it may mean something else in that repo.
+ */
+export async function handleOverrideLabel(
+  context: Context<"pull_request.labeled">
+): Promise<void> {
+  const { pull_request: pr, label, sender } = context.payload;
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+
+  // Config comes from the base branch unless the base config opts into config_source: head
+  const { config } = await loadEffectiveConfig(context, owner, repo, pr);
+  const name = config.settings.labels.override;
+  if (!name || label?.name !== name) {
+    return;
+  }
+  if (config.settings.override_approvers.length === 0) {
+    context.log.info(
+      `Ignoring ${name} label on ${owner}/${repo}#${pr.number} — settings.override_approvers is empty`
+    );
+    return;
+  }
+
+  const reason = overrideReason(pr.body);
+  const outcome = await overridePR(
+    context,
+    owner,
+    repo,
+    pr.number,
+    config,
+    pr.head.sha,
+    { by: sender?.login ?? "unknown", reason: reason ?? "", source: "label" }
+  );
+  if (outcome.overridden) return;
+
+  const denied = reason
+    ? outcome.denied
+    : `${outcome.denied} — add an \`Override reason: …\` line to the PR description, then the label again`;
+  await rejectLabel(context, owner, repo, pr, config, name, denied);
+}
@@ -1,41 +1,119 @@
-import type { Context } from "probot";
-import { loadConfig } from "../services/config-loader.js";
+import { Context, type Probot } from "probot";
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  isConfigPath,
+  loadConfigChange,
+} from "../services/config-loader.js";
+import {
+  formatConfigPreview,
+  withConfigChangeItem,
+  CONFIG_PREVIEW_MARKER,
+  type ConfigChange,
+} from "../services/config-diff.js";
 import {
   fetchPRDiff,
+  fetchCompareDiff,
   analyzeDiff,
+  analyzeIncrement,
   extractFilesFromDiff,
+  isBudgetSpent,
 } from "../services/diff-analyzer.js";
 import {
   generateChecklist,
   parseChecklist,
   mergeChecklist,
+  applyChecklistUpdate,
+  mergeConcurrentEdits,
   BOT_MARKER,
 } from "../services/checklist.js";
 import {
   blockPR,
   approvePR,
   postErrorComment,
+  type GateTarget,
 } from "../services/review-manager.js";
-import { debouncePR, debounceKey } from "../utils/debounce.js";
-import type { PRMetadata, AnalysisResult } from "../schemas/analysis-result.js";
+import { checkOverrideAuthorization } from "../services/approvals.js";
+import { AnalysisError } from "../services/analysis-errors.js";
+import { getJobQueue, prJobKey, type Job } from "../services/job-queue.js";
+import { counter } from "../utils/metrics.js";
+import { parseDiffFiles } from "../utils/diff-truncation.js";
+import type {
+  PRMetadata,
+  AnalysisResult,
+  ChecklistItemState,
+  ChecklistState,
+} from "../schemas/analysis-result.js";
 import type { DeployChecklistConfig } from "../schemas/config.js";
 
-type PR = Context<"pull_request">["payload"]["pull_request"];
+/**
+ * The pull request fields the analysis flow needs. Satisfied by both the
+ * pull_request webhook payload and a pulls.get response, so comment-driven
+ * commands can reuse the same flow.
+ */
+export interface PullRequestRef {
+  number: number;
+  title: string;
+  body: string | null;
+  draft?: boolean;
+  user: { login: string } | null;
+  head: { sha: string };
+  base: { ref: string };
+  labels?: { name: string }[];
+}
 
 const DEFAULT_DEBOUNCE_MS = 5000;
 
-/** Fetch diff, build metadata, and run analysis. Returns null on failure. */
-async function fetchAndAnalyze(
-  context: Context<"pull_request">,
-  owner: string,
-  repo: string,
-  pr: PR,
-  config: DeployChecklistConfig
-): Promise<AnalysisResult | null> {
-  const diff = await fetchPRDiff(context, owner, repo, pr.number);
-  const filesChanged = extractFilesFromDiff(diff);
+// Re-fetch/merge rounds before writing the checklist regardless of further edits
+const MAX_COMMENT_UPDATE_ATTEMPTS = 3;
+
+/** Job type for a debounced analysis of a pull_request event. */
+export const ANALYZE_PR_JOB = "analyze-pr";
 
-  const prMeta: PRMetadata = {
+// stage: before_analysis (the job came due after a newer push) or before_posting
+// (the head moved while the analysis ran)
+const supersededRuns = counter(
+  "deploy_checklist_superseded_analyses_total",
+  "Analyses discarded because the PR head moved past the analyzed SHA",
+  ["stage"]
+);
+
+const commentConflicts = counter(
+  "deploy_checklist_comment_conflicts_total",
+  "Checklist comments edited by someone else between the bot's read and its write"
+);
+
+/**
+ * What an analysis job needs to run in a later process: the webhook delivery (to rebuild
+ * the Context) and the config the webhook was filtered with. `reanalyze` marks a
+ * `/checklist reanalyze` request, whose delivery is an issue comment carrying the PR.
+ */
+interface AnalysisJobData {
+  event: {
+    id: string;
+    name: "pull_request";
+    payload: Context<"pull_request">["payload"];
+  };
+  config: DeployChecklistConfig;
+  reanalyze?: boolean;
+}
+
+/** Gate target for the PR head — items carry their checked state for Check Run summaries. */
+function gateFor(
+  config: DeployChecklistConfig,
+  pr: PullRequestRef,
+  items: ChecklistItemState[]
+): GateTarget {
+  return { mode: config.settings.gate_mode, headSha: pr.head.sha, items };
+}
+
+/** Item states as rendered in a checklist body — the hidden state block keeps them lossless. */
+function itemStates(checklistBody: string): ChecklistItemState[] {
+  return parseChecklist(checklistBody)?.items ?? [];
+}
+
+function prMetadata(pr: PullRequestRef, filesChanged: string[]): PRMetadata {
+  return {
     title: pr.title,
     body: pr.body ?? "",
     baseBranch: pr.base.ref,
@@ -44,12 +122,252 @@ async function fetchAndAnalyze(
     isDraft: pr.draft ?? false,
     filesChanged,
   };
+}
 
-  return analyzeDiff(context, diff, config, prMeta, {
+/**
+ * When the PR edits the config file, work out how the effective config changes against
+ * the base branch. In `head` mode the PR already runs on its own config, so the base one
+ * is loaded to compare against.
+ */
+async function reviewConfigChange(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  filesChanged: string[]
+): Promise<ConfigChange | null> {
+  if (!filesChanged.some(isConfigPath)) return null;
+
+  const baseConfig =
+    config.settings.config_source === "head"
+      ? (await loadConfig(context, owner, repo, pr.base.ref)).config
+      : config;
+  return loadConfigChange(context, owner, repo, baseConfig, pr.head.sha);
+}
+
+/**
+ * Post (or refresh) the comment listing a PR's effective config changes — under
+ * `base_with_head_preview` and `head`. Under plain `base` the mandatory checklist item
+ * is the only listing.
+ */
+async function postConfigPreview(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  change: ConfigChange
+): Promise<void> {
+  if (config.settings.config_source === "base") return;
+
+  const body = formatConfigPreview(change, config.settings.config_source);
+  const existing = await findCommentWithMarker(
+    context,
+    owner,
+    repo,
+    pr.number,
+    CONFIG_PREVIEW_MARKER
+  );
+  if (existing) {
+    await context.octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body,
+    });
+  } else {
+    await context.octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: pr.number,
+      body,
+    });
+  }
+}
+
+/**
+ * Whether the PR head has moved past `pr.head.sha` — a newer push owns the checklist, so
+ * this run must not post. Logs the superseded run. A failed lookup counts as current.
+ */
+async function isSuperseded(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  stage: "before_analysis" | "before_posting"
+): Promise<boolean> {
+  let headSha: string;
+  try {
+    const { data } = await context.octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: pr.number,
+    });
+    headSha = data.head.sha;
+  } catch (error: unknown) {
+    context.log.warn(
+      `Could not check the head of ${owner}/${repo}#${pr.number}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return false;
+  }
+  if (headSha === pr.head.sha) return false;
+
+  supersededRuns.inc({ stage });
+  context.log.info(
+    `Discarding analysis of ${owner}/${repo}#${pr.number} at ${pr.head.sha.slice(0, 7)} ` +
+      `(${stage.replace("_", " ")}) — the head is now ${headSha.slice(0, 7)}`
+  );
+  return true;
+}
+
+/**
+ * Fetch diff, build metadata, and run analysis. Throws AnalysisError on failure.
+ * Config edits under base enforcement add a mandatory sign-off item to the result; the
+ * change itself is returned for the caller to post once it knows the run is current.
+ */
+async function fetchAndAnalyze(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig
+): Promise<{ result: AnalysisResult; configChange: ConfigChange | null }> {
+  const diff = await fetchPRDiff(context, owner, repo, pr.number);
+  const filesChanged = extractFilesFromDiff(diff);
+  const prMeta = prMetadata(pr, filesChanged);
+
+  const configChange = await reviewConfigChange(
+    context,
+    owner,
+    repo,
+    pr,
+    config,
+    filesChanged
+  );
+
+  const analysis = await analyzeDiff(context, diff, config, prMeta, {
     owner,
     repo,
     ref: pr.head.sha,
+    pullNumber: pr.number,
   });
+
+  // Usage is always recorded by the analyzer — the footer line is opt-in
+  const result = config.settings.usage_footer
+    ? analysis
+    : { ...analysis, usage: undefined };
+  return {
+    result:
+      configChange && config.settings.config_source !== "head"
+        ? withConfigChangeItem(result, configChange)
+        : result,
+    configChange,
+  };
+}
+
+/**
+ * Re-analyze only the commits pushed since the checklist's SHA and edit the existing
+ * checklist in place, so items don't reshuffle on every push. Returns the updated comment
+ * body, or null when the full PR must be re-analyzed instead: no usable SHA, a force-push
+ * or rebase, a config edit, a delta over max_diff_size, deterministic mode, or a spent
+ * budget with no fallback model.
+ */
+async function analyzeIncrementally(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  oldState: ChecklistState
+): Promise<string | null> {
+  const mode = config.settings.analysis_mode;
+  if (mode === "deterministic") return null;
+  if (oldState.version !== 2 || oldState.sha === pr.head.sha) return null;
+  const budget = config.settings.budget;
+  if (
+    budget &&
+    !budget.fallback_model &&
+    (await isBudgetSpent(context, config, owner, repo))
+  ) {
+    return null;
+  }
+
+  const delta = await fetchCompareDiff(
+    context,
+    owner,
+    repo,
+    oldState.sha,
+    pr.head.sha
+  );
+  if (delta === null) {
+    context.log.info(
+      `${oldState.sha.slice(0, 7)} is not an ancestor of ${pr.head.sha.slice(0, 7)} — full re-analysis`
+    );
+    return null;
+  }
+
+  // Merging the base branch in brings its commits into the compare diff — keep only
+  // files the PR changes, plus files existing items refer to (a revert can drop a file)
+  const diff = await fetchPRDiff(context, owner, repo, pr.number);
+  const filesChanged = extractFilesFromDiff(diff);
+  const relevant = new Set([
+    ...filesChanged,
+    ...oldState.items.flatMap((i) => i.item.files ?? []),
+  ]);
+  const prDelta = parseDiffFiles(delta)
+    .filter((f) => relevant.has(f.filename))
+    .map((f) => f.content)
+    .join("");
+
+  if (extractFilesFromDiff(prDelta).some(isConfigPath)) return null;
+  if (prDelta.length > config.settings.max_diff_size) return null;
+
+  // Nothing the PR touches changed (e.g. only a base-branch merge) — restamp the SHA
+  const update =
+    prDelta.length === 0
+      ? { items: [], retired_item_ids: [], summary: "", open_concerns: [] }
+      : await analyzeIncrement(
+          context,
+          prDelta,
+          config,
+          prMetadata(pr, filesChanged),
+          oldState.sha,
+          oldState.items,
+          { owner, repo, pullNumber: pr.number }
+        ).catch((error: unknown) => {
+          // Hybrid repos still want a gate — the full flow falls back to deterministic
+          if (mode === "hybrid") return null;
+          throw error;
+        });
+  if (!update) return null;
+
+  context.log.info(
+    `Incremental re-analysis ${oldState.sha.slice(0, 7)}..${pr.head.sha.slice(0, 7)}: ` +
+      `${update.items.length} item(s) added, ${update.retired_item_ids.length} retired`
+  );
+  return applyChecklistUpdate(
+    oldState,
+    config.settings.usage_footer ? update : { ...update, usage: undefined },
+    pr.head.sha
+  );
+}
+
+/**
+ * Whether a pull_request.edited event changed what the analysis sees: the base branch (a
+ * different diff), or the title or description the prompt includes — unless the analysis
+ * is deterministic and never reads them.
+ */
+function editChangesAnalysis(
+  payload: Context<"pull_request.edited">["payload"],
+  config: DeployChecklistConfig
+): boolean {
+  const { changes } = payload;
+  if (changes.base) return true;
+  return (
+    config.settings.analysis_mode !== "deterministic" &&
+    (changes.body !== undefined || changes.title !== undefined)
+  );
 }
 
 /** Main handler for pull_request webhook events. Applies filters then routes to sub-handler. */
@@ -65,12 +383,22 @@ export async function handlePullRequest(
     `Processing pull_request.${action} for ${owner}/${repo}#${pr.number}`
   );
 
-  // Load config from the PR's head commit (not base) so config changes in the PR take effect
-  const { config, warning } = await loadConfig(
+  // A closed PR needs nothing more — drop any analysis still waiting in the queue
+  if (action === "closed") {
+    if (await getJobQueue().cancel(prJobKey(owner, repo, pr.number))) {
+      context.log.info(
+        `Cancelled queued analysis of closed PR ${owner}/${repo}#${pr.number}`
+      );
+    }
+    return;
+  }
+
+  // Config comes from the base branch unless the base config opts into config_source: head
+  const { config, warning } = await loadEffectiveConfig(
     context,
     owner,
     repo,
-    pr.head.sha
+    pr
   );
 
   // Config parse failures return a warning string — post it so the author knows
@@ -83,40 +411,277 @@ export async function handlePullRequest(
     });
   }
 
-  // Apply filters — skip PRs that don't need analysis (drafts, ignored authors, non-target branches)
-  if (pr.draft && !config.settings.analyze_drafts) {
-    context.log.info(`Skipping draft PR #${pr.number}`);
+  // Adding the skip or override label is handled below (the override label by
+  // handleOverrideLabel), so it doesn't count as holding analysis off
+  const { labels } = config.settings;
+  const addedLabel =
+    context.payload.action === "labeled"
+      ? context.payload.label?.name
+      : undefined;
+  const skipped = await skipReason(context, owner, repo, pr, config, addedLabel);
+  if (skipped) {
+    context.log.info(`Skipping PR #${pr.number}: ${skipped}`);
+    if (
+      context.payload.action === "edited" &&
+      context.payload.changes.base &&
+      !targetsConfiguredBranch(pr, config)
+    ) {
+      await releaseRetargetedPR(context, owner, repo, pr, config);
+    }
     return;
   }
 
+  switch (action) {
+    case "opened":
+    case "reopened":
+    case "ready_for_review":
+    case "synchronize":
+      await queueAnalysis(context, owner, repo, pr, config);
+      break;
+    case "edited":
+      if (
+        context.payload.action === "edited" &&
+        editChangesAnalysis(context.payload, config)
+      ) {
+        await queueAnalysis(context, owner, repo, pr, config);
+      } else {
+        context.log.info(
+          `Ignoring pull_request.edited — no base, title or description change to analyze`
+        );
+      }
+      break;
+    case "labeled":
+      if (addedLabel === labels.skip) {
+        await skipByLabel(context, owner, repo, pr, config);
+      } else if (addedLabel === labels.reanalyze) {
+        await removeLabel(context, owner, repo, pr.number, labels.reanalyze);
+        await queueAnalysis(context, owner, repo, pr, config);
+      } else if (addedLabel === labels.override) {
+        // handleOverrideLabel (handlers/override.ts) checks who added it and overrides
+      } else {
+        context.log.info(`Ignoring label ${addedLabel} on PR #${pr.number}`);
+      }
+      break;
+    case "unlabeled":
+      // Taking the skip or override label off puts the checklist gate back. The bot itself
+      // only removes labels that never took effect
+      if (
+        context.payload.action === "unlabeled" &&
+        context.payload.sender?.type !== "Bot" &&
+        (context.payload.label?.name === labels.skip ||
+          context.payload.label?.name === labels.override)
+      ) {
+        await queueAnalysis(context, owner, repo, pr, config);
+      }
+      break;
+    default:
+      context.log.info(`Ignoring pull_request.${action} event`);
+  }
+}
+
+function targetsConfiguredBranch(
+  pr: PullRequestRef,
+  config: DeployChecklistConfig
+): boolean {
+  const { target_branches } = config.settings;
+  return target_branches.length === 0 || target_branches.includes(pr.base.ref);
+}
+
+/**
+ * Why the PR gets no analysis, or null if it should: drafts, ignored authors, branches
+ * outside target_branches, and a skip or override label in effect.
+ */
+async function skipReason(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  addedLabel?: string
+): Promise<string | null> {
+  if (pr.draft && !config.settings.analyze_drafts) {
+    return "it is a draft";
+  }
+
   const author = pr.user?.login ?? "";
   if (config.settings.ignore_authors.includes(author)) {
-    context.log.info(`Skipping PR from ignored author: ${author}`);
+    return `its author ${author} is ignored`;
+  }
+
+  if (!targetsConfiguredBranch(pr, config)) {
+    return `it targets \`${pr.base.ref}\`, which the deploy checklist does not cover`;
+  }
+
+  // While a skip or override label is in effect the bot stays out of the way
+  const held = await heldLabel(context, owner, repo, pr, config, addedLabel);
+  if (held) return `it is labeled \`${held}\``;
+  return null;
+}
+
+/**
+ * The label keeping analysis off the PR, if any: the skip label, or the override label once
+ * an override is stamped on the checklist. Until then (or if it is refused) the override
+ * label holds nothing, so a PR opened with it is still gated. `addedLabel` is never
+ * counted — the event adding it decides what it does.
+ */
+async function heldLabel(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  addedLabel: string | undefined
+): Promise<string | undefined> {
+  const { skip, override } = config.settings.labels;
+  const names = (pr.labels ?? [])
+    .map((l) => l.name)
+    .filter((name) => name !== addedLabel);
+
+  if (skip && names.includes(skip)) return skip;
+  if (!override || !names.includes(override)) return undefined;
+
+  const botComment = await findBotComment(context, owner, repo, pr.number);
+  const state = botComment ? parseChecklist(botComment.body ?? "") : null;
+  return state?.override ? override : undefined;
+}
+
+/**
+ * The skip label overrides the checklist: queued analysis is cancelled and the PR approved,
+ * naming who added the label. Only `settings.override_approvers` may add it — anyone else's
+ * label is taken back and the PR re-analyzed so the gate comes back.
+ */
+async function skipByLabel(
+  context: Context<"pull_request">,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig
+): Promise<void> {
+  const label = config.settings.labels.skip;
+  const sender = context.payload.sender?.login ?? "unknown";
+  const denied = await checkOverrideAuthorization(context, config, sender);
+  if (denied) {
+    context.log.info(
+      `Refused ${label} label on ${owner}/${repo}#${pr.number} by @${sender}: ${denied}`
+    );
+    await rejectLabel(context, owner, repo, pr, config, label, denied);
     return;
   }
 
-  if (config.settings.target_branches.length > 0) {
-    if (!config.settings.target_branches.includes(pr.base.ref)) {
-      context.log.info(
-        `Skipping PR targeting non-configured branch: ${pr.base.ref}`
-      );
-      return;
-    }
+  await getJobQueue().cancel(prJobKey(owner, repo, pr.number));
+  context.log.info(
+    `@${sender} skipped the deploy checklist on ${owner}/${repo}#${pr.number} with the ${label} label`
+  );
+  await approvePR(
+    context,
+    owner,
+    repo,
+    pr.number,
+    `Deploy checklist skipped — @${sender} added the \`${label}\` label.`,
+    gateFor(config, pr, [])
+  );
+}
+
+/**
+ * A PR retargeted away from the configured branches no longer needs the checklist: cancel
+ * queued analysis and, if the bot already gated the PR, release the gate.
+ */
+async function releaseRetargetedPR(
+  context: Context<"pull_request">,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig
+): Promise<void> {
+  await getJobQueue().cancel(prJobKey(owner, repo, pr.number));
+  if (!(await findBotComment(context, owner, repo, pr.number))) return;
+
+  await approvePR(
+    context,
+    owner,
+    repo,
+    pr.number,
+    `This PR now targets \`${pr.base.ref}\`, which the deploy checklist does not cover.`,
+    gateFor(config, pr, [])
+  );
+}
+
+/**
+ * Take back a label its sender may not use: remove it, tell them why and queue an analysis.
+ * The removal's own unlabeled event comes from the bot and is ignored, so the analysis is
+ * queued here.
+ */
+export async function rejectLabel(
+  context: Context<"pull_request">,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  name: string,
+  reason: string
+): Promise<void> {
+  const sender = context.payload.sender?.login ?? "unknown";
+  await removeLabel(context, owner, repo, pr.number, name);
+  await context.octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: pr.number,
+    body: `@${sender} the \`${name}\` label was removed: ${reason}.`,
+  });
+  await queueAnalysis(context, owner, repo, pr, config);
+}
+
+/** Remove a trigger label so it can be added again. A label already gone is not an error. */
+export async function removeLabel(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  name: string
+): Promise<void> {
+  try {
+    await context.octokit.rest.issues.removeLabel({
+      owner,
+      repo,
+      issue_number: prNumber,
+      name,
+    });
+  } catch (error: unknown) {
+    context.log.warn(
+      `Could not remove label ${name} from PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
+}
 
-  // Route: opened/reopened/ready_for_review = fresh analysis
-  //        synchronize (new commits pushed) = re-analysis with state preservation
-  switch (action) {
-    case "opened":
-    case "reopened":
-    case "ready_for_review":
-      await handleNewAnalysis(context, owner, repo, pr, config);
-      break;
+/**
+ * Route an analysis-triggering event to its sub-handler:
+ * opened/reopened/ready_for_review = fresh analysis,
+ * synchronize (new commits pushed) = incremental re-analysis with state preservation,
+ * edited/labeled/unlabeled = full re-analysis with state preservation (the diff or the
+ * description changed, or the reanalyze/skip label asked for it).
+ */
+async function runAnalysis(
+  context: Context<"pull_request">,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  options: { throwUnexpected?: boolean } = {}
+): Promise<void> {
+  switch (context.payload.action) {
     case "synchronize":
-      await handleReanalysis(context, owner, repo, pr, config);
+      await reanalyzePR(context, owner, repo, pr, config, {
+        ...options,
+        incremental: true,
+      });
+      break;
+    case "edited":
+    case "labeled":
+    case "unlabeled":
+      await reanalyzePR(context, owner, repo, pr, config, options);
       break;
     default:
-      context.log.info(`Ignoring pull_request.${action} event`);
+      await handleNewAnalysis(context, owner, repo, pr, config, options);
   }
 }
 
@@ -125,22 +690,21 @@ async function handleNewAnalysis(
   context: Context<"pull_request">,
   owner: string,
   repo: string,
-  pr: PR,
-  config: DeployChecklistConfig
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  options: { throwUnexpected?: boolean } = {}
 ): Promise<void> {
   try {
-    const result = await fetchAndAnalyze(context, owner, repo, pr, config);
-
-    // null result means all retries exhausted — post error but don't block the PR
-    if (!result) {
-      await postErrorComment(
-        context,
-        owner,
-        repo,
-        pr.number,
-        "Claude analysis failed after multiple retries."
-      );
-      return;
+    const { result, configChange } = await fetchAndAnalyze(
+      context,
+      owner,
+      repo,
+      pr,
+      config
+    );
+    if (await isSuperseded(context, owner, repo, pr, "before_posting")) return;
+    if (configChange) {
+      await postConfigPreview(context, owner, repo, pr, config, configChange);
     }
 
     // No checklist items needed — auto-approve (optionally post empty checklist for visibility)
@@ -161,7 +725,8 @@ async function handleNewAnalysis(
         owner,
         repo,
         pr.number,
-        "No deploy checklist items needed for this PR."
+        "No deploy checklist items needed for this PR.",
+        gateFor(config, pr, [])
       );
       return;
     }
@@ -179,12 +744,29 @@ async function handleNewAnalysis(
       owner,
       repo,
       pr.number,
-      `Deploy checklist has ${result.items.length} item(s) to address before merging.`
+      `Deploy checklist has ${result.items.length} item(s) to address before merging.`,
+      gateFor(config, pr, itemStates(checklistBody))
     );
   } catch (error: unknown) {
     context.log.error(
       `Error in handleNewAnalysis: ${error instanceof Error ? error.message : String(error)}`
     );
+    if (options.throwUnexpected && !(error instanceof AnalysisError)) {
+      throw error;
+    }
+    // Analysis failures (retries exhausted, bad response) are reported with their cause —
+    // post the error but don't block the PR
+    if (error instanceof AnalysisError) {
+      await postErrorComment(
+        context,
+        owner,
+        repo,
+        pr.number,
+        `Analysis failed after ${error.attempts} attempt(s).`,
+        error
+      );
+      return;
+    }
     await postErrorComment(
       context,
       owner,
@@ -196,15 +778,15 @@ async function handleNewAnalysis(
 }
 
 /**
- * Handle re-analysis when new commits are pushed (synchronize event).
- * Debounces rapid pushes (e.g. force-push + amend) so we only analyze once.
- * Preserves the user's checked items from the existing checklist comment.
+ * Queue the analysis as a job keyed by PR instead of running it inline. Events arriving
+ * within the debounce delay (opened then an immediate push, force-push + amend) coalesce
+ * into one run on the latest event, and the job survives restarts and is retried on failure.
  */
-async function handleReanalysis(
+async function queueAnalysis(
   context: Context<"pull_request">,
   owner: string,
   repo: string,
-  pr: PR,
+  pr: PullRequestRef,
   config: DeployChecklistConfig
 ): Promise<void> {
   const debounceMs = parseInt(
@@ -212,110 +794,254 @@ async function handleReanalysis(
     10
   );
 
-  const key = debounceKey(owner, repo, pr.number);
+  // GitHub App deliveries always carry the installation — without it the job couldn't authenticate
+  const installationId =
+    "installation" in context.payload
+      ? context.payload.installation?.id
+      : undefined;
+  if (installationId === undefined) {
+    context.log.warn(
+      `No installation on pull_request.${context.payload.action} for ${owner}/${repo}#${pr.number} — analyzing inline`
+    );
+    await runAnalysis(context, owner, repo, pr, config);
+    return;
+  }
 
-  // Wrap in debounce — if another push arrives within debounceMs,
-  // this callback is cancelled and replaced by the new one
-  debouncePR(key, debounceMs, async () => {
-    try {
-      // Find existing bot comment — we'll merge its check state into the new analysis
-      const existingComment = await findBotComment(
-        context,
-        owner,
-        repo,
-        pr.number
-      );
+  const data: AnalysisJobData = {
+    event: { id: context.id, name: "pull_request", payload: context.payload },
+    config,
+  };
+  await getJobQueue().enqueue({
+    key: prJobKey(owner, repo, pr.number),
+    type: ANALYZE_PR_JOB,
+    installationId,
+    data,
+    delayMs: debounceMs,
+  });
+}
 
-      const result = await fetchAndAnalyze(context, owner, repo, pr, config);
+/**
+ * Queue a full re-analysis asked for with `/checklist reanalyze`. It runs as the same job
+ * as pull_request events, so it coalesces with them, and only if those events would be
+ * analyzed. Returns why the PR is skipped, or null once the job is queued.
+ */
+export async function queueReanalysis(
+  context: Context<"issue_comment.created">,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig
+): Promise<string | null> {
+  const skipped = await skipReason(context, owner, repo, pr, config);
+  if (skipped) return skipped;
 
-      if (!result) {
-        await postErrorComment(
-          context,
-          owner,
-          repo,
-          pr.number,
-          "Re-analysis failed after new commits were pushed."
-        );
-        return;
-      }
+  const installationId = context.payload.installation?.id;
+  if (installationId === undefined) {
+    context.log.warn(
+      `No installation on issue_comment.created for ${owner}/${repo}#${pr.number} — re-analyzing inline`
+    );
+    await reanalyzePR(context, owner, repo, pr, config);
+    return null;
+  }
 
-      // No items after re-analysis — clear the old checklist and approve
-      if (result.items.length === 0) {
-        if (existingComment) {
-          await context.octokit.rest.issues.updateComment({
-            owner,
-            repo,
-            comment_id: existingComment.id,
-            body:
-              `## Deploy Checklist\n\n${BOT_MARKER}\n\n` +
-              `No deploy checklist items identified after re-analysis. ✅\n\n` +
-              `> ${result.summary}`,
-          });
-        }
-        await approvePR(
-          context,
-          owner,
-          repo,
-          pr.number,
-          "No deploy checklist items needed after re-analysis."
-        );
-        return;
-      }
+  // The job rebuilds a pull_request Context from the delivery, so the PR rides along
+  const payload = {
+    ...context.payload,
+    pull_request: pr,
+  } as unknown as Context<"pull_request">["payload"];
+  const data: AnalysisJobData = {
+    event: { id: context.id, name: "pull_request", payload },
+    config,
+    reanalyze: true,
+  };
+  await getJobQueue().enqueue({
+    key: prJobKey(owner, repo, pr.number),
+    type: ANALYZE_PR_JOB,
+    installationId,
+    data,
+  });
+  return null;
+}
 
-      // Merge old check state with new analysis — preserves user's checked items
-      // across re-analyses so they don't lose progress when pushing new commits
-      let checklistBody: string;
-      if (existingComment) {
-        const oldState = parseChecklist(existingComment.body ?? "");
-        if (oldState) {
-          // Matching items keep their checked state; new items start unchecked
-          checklistBody = mergeChecklist(oldState, result, pr.head.sha);
-        } else {
-          checklistBody = generateChecklist(result, pr.head.sha);
-        }
+/**
+ * Run a queued analysis, possibly in a later process than the one that queued it.
+ * A job whose SHA is no longer the PR head is dropped — the newer push has its own job.
+ * Unexpected errors are thrown so the queue retries them; on the final attempt they are
+ * reported on the PR instead, like analysis failures always are.
+ */
+export async function runAnalysisJob(
+  app: Probot,
+  job: Job,
+  run: { final: boolean }
+): Promise<void> {
+  const { event, config, reanalyze } = job.data as AnalysisJobData;
+  const octokit = await app.auth(job.installationId);
+  const context = new Context<"pull_request">(
+    event,
+    octokit,
+    app.log.child({ job: job.id })
+  );
+  const owner = event.payload.repository.owner.login;
+  const repo = event.payload.repository.name;
+  const pr = event.payload.pull_request;
+
+  if (await isSuperseded(context, owner, repo, pr, "before_analysis")) return;
+  if (reanalyze) {
+    await reanalyzePR(context, owner, repo, pr, config, {
+      throwUnexpected: !run.final,
+    });
+    return;
+  }
+  await runAnalysis(context, owner, repo, pr, config, {
+    throwUnexpected: !run.final,
+  });
+}
+
+/**
+ * Re-run analysis for a PR that may already have a checklist comment.
+ * Preserves the user's checked items from the existing checklist comment.
+ * Used by the synchronize flow (incremental: only the new commits are analyzed when
+ * possible) and by the `/checklist reanalyze` command (always the full PR).
+ * `throwUnexpected` rethrows errors other than AnalysisError instead of commenting.
+ */
+export async function reanalyzePR(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: PullRequestRef,
+  config: DeployChecklistConfig,
+  options: { incremental?: boolean; throwUnexpected?: boolean } = {}
+): Promise<void> {
+  try {
+    // Find existing bot comment — we'll merge its check state into the new analysis
+    const existingComment = await findBotComment(
+      context,
+      owner,
+      repo,
+      pr.number
+    );
+    const oldState = existingComment
+      ? parseChecklist(existingComment.body ?? "")
+      : null;
+
+    const incrementalBody =
+      options.incremental && oldState
+        ? await analyzeIncrementally(context, owner, repo, pr, config, oldState)
+        : null;
+
+    let checklistBody: string;
+    let itemCount: number;
+    let summary: string;
+    let configChange: ConfigChange | null = null;
+    if (incrementalBody) {
+      checklistBody = incrementalBody;
+      const state = parseChecklist(incrementalBody);
+      itemCount = state?.items.length ?? 0;
+      summary = state?.summary ?? "";
+    } else {
+      const analyzed = await fetchAndAnalyze(context, owner, repo, pr, config);
+      const { result } = analyzed;
+      configChange = analyzed.configChange;
+      // Matching items keep their checked state; new items start unchecked
+      checklistBody = oldState
+        ? mergeChecklist(oldState, result, pr.head.sha)
+        : generateChecklist(result, pr.head.sha);
+      itemCount = result.items.length;
+      summary = result.summary;
+    }
+
+    if (await isSuperseded(context, owner, repo, pr, "before_posting")) return;
+    if (configChange) {
+      await postConfigPreview(context, owner, repo, pr, config, configChange);
+    }
 
+    // No items after re-analysis — clear the old checklist and approve
+    if (itemCount === 0) {
+      if (existingComment) {
         await context.octokit.rest.issues.updateComment({
           owner,
           repo,
           comment_id: existingComment.id,
-          body: checklistBody,
-        });
-      } else {
-        checklistBody = generateChecklist(result, pr.head.sha);
-        await context.octokit.rest.issues.createComment({
-          owner,
-          repo,
-          issue_number: pr.number,
-          body: checklistBody,
+          body:
+            `## Deploy Checklist\n\n${BOT_MARKER}\n\n` +
+            `No deploy checklist items identified after re-analysis. ✅\n\n` +
+            `> ${summary}`,
         });
       }
+      await approvePR(
+        context,
+        owner,
+        repo,
+        pr.number,
+        "No deploy checklist items needed after re-analysis.",
+        gateFor(config, pr, [])
+      );
+      return;
+    }
 
-      // Block/approve based on checkbox state in the generated markdown
-      const hasUnchecked = checklistBody.includes("- [ ]");
-      if (hasUnchecked) {
-        await blockPR(
-          context,
-          owner,
-          repo,
-          pr.number,
-          `Deploy checklist updated — ${result.items.length} item(s) to address.`
-        );
-      } else {
-        await approvePR(context, owner, repo, pr.number);
-      }
-    } catch (error: unknown) {
-      context.log.error(
-        `Error in handleReanalysis: ${error instanceof Error ? error.message : String(error)}`
+    // The merged body preserves user's checked items across re-analyses so they don't
+    // lose progress when pushing new commits — including items ticked while the
+    // analysis ran, which updateBotComment merges in before writing
+    if (existingComment) {
+      checklistBody = await updateBotComment(
+        context,
+        owner,
+        repo,
+        existingComment,
+        checklistBody
       );
+    } else {
+      await context.octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: pr.number,
+        body: checklistBody,
+      });
+    }
+
+    // Block/approve based on checkbox state in the generated markdown
+    const gate = gateFor(config, pr, itemStates(checklistBody));
+    const hasUnchecked = checklistBody.includes("- [ ]");
+    if (hasUnchecked) {
+      await blockPR(
+        context,
+        owner,
+        repo,
+        pr.number,
+        `Deploy checklist updated — ${itemCount} item(s) to address.`,
+        gate
+      );
+    } else {
+      await approvePR(context, owner, repo, pr.number, undefined, gate);
+    }
+  } catch (error: unknown) {
+    context.log.error(
+      `Error in handleReanalysis: ${error instanceof Error ? error.message : String(error)}`
+    );
+    // Analysis errors were already retried by the analyzer; anything else (e.g. a GitHub
+    // 5xx) goes back to the job queue while it has attempts left
+    if (options.throwUnexpected && !(error instanceof AnalysisError)) {
+      throw error;
+    }
+    if (error instanceof AnalysisError) {
       await postErrorComment(
         context,
         owner,
         repo,
         pr.number,
-        "An unexpected error occurred during re-analysis."
+        `Re-analysis of this PR failed after ${error.attempts} attempt(s).`,
+        error
       );
+      return;
     }
-  });
+    await postErrorComment(
+      context,
+      owner,
+      repo,
+      pr.number,
+      "An unexpected error occurred during re-analysis."
+    );
+  }
 }
 
 /**
@@ -323,11 +1049,70 @@ async function handleReanalysis(
  * Searches by BOT_MARKER (hidden HTML comment) — there should only be one per PR.
  * Returns null if no bot comment exists yet (e.g. first analysis on a new PR).
  */
-async function findBotComment(
+export async function findBotComment(
   context: Context,
   owner: string,
   repo: string,
   prNumber: number
+): Promise<{ id: number; body: string | undefined } | null> {
+  return findCommentWithMarker(context, owner, repo, prNumber, BOT_MARKER);
+}
+
+/**
+ * Overwrite the bot comment without losing edits made since it was read.
+ * GitHub has no conditional PATCH for comments, so the comment is re-fetched right before
+ * the write; if it no longer matches `comment.body`, checkbox changes made meanwhile are
+ * merged into `nextBody` (mergeConcurrentEdits) and the comment is fetched again, until it
+ * holds still or MAX_COMMENT_UPDATE_ATTEMPTS is reached. Returns the body written.
+ */
+export async function updateBotComment(
+  context: Context,
+  owner: string,
+  repo: string,
+  comment: { id: number; body: string | undefined },
+  nextBody: string
+): Promise<string> {
+  let base = comment.body ?? "";
+  let body = nextBody;
+
+  for (let attempt = 1; attempt <= MAX_COMMENT_UPDATE_ATTEMPTS; attempt++) {
+    const { data } = await context.octokit.rest.issues.getComment({
+      owner,
+      repo,
+      comment_id: comment.id,
+    });
+    const current = data.body ?? "";
+    if (current === base) break;
+
+    commentConflicts.inc();
+    context.log.info(
+      `Checklist comment ${comment.id} changed during analysis — merging concurrent edits (attempt ${attempt})`
+    );
+    body = mergeConcurrentEdits(base, current, body);
+    base = current;
+    if (attempt === MAX_COMMENT_UPDATE_ATTEMPTS) {
+      context.log.warn(
+        `Checklist comment ${comment.id} kept changing — writing the last merge`
+      );
+    }
+  }
+
+  await context.octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    comment_id: comment.id,
+    body,
+  });
+  return body;
+}
+
+/** Find the first PR comment containing a hidden marker. */
+async function findCommentWithMarker(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  marker: string
 ): Promise<{ id: number; body: string | undefined } | null> {
   const { data: comments } = await context.octokit.rest.issues.listComments({
     owner,
@@ -336,11 +1121,9 @@ async function findBotComment(
     per_page: 100,
   });
 
-  const botComment = comments.find(
-    (c: { body?: string | null }) => c.body && c.body.includes(BOT_MARKER)
+  const found = comments.find(
+    (c: { body?: string | null }) => c.body && c.body.includes(marker)
   );
 
-  return botComment
-    ? { id: botComment.id, body: botComment.body ?? undefined }
-    : null;
+  return found ? { id: found.id, body: found.body ?? undefined } : null;
 }
@@ -1,21 +1,71 @@
-import type { Probot } from "probot";
-import { handlePullRequest } from "./handlers/pull-request.js";
+import type { ApplicationFunctionOptions, Probot } from "probot";
+import {
+  handlePullRequest,
+  runAnalysisJob,
+  ANALYZE_PR_JOB,
+} from "./handlers/pull-request.js";
 import { handleIssueCommentEdited } from "./handlers/issue-comment.js";
+import { handleIssueCommentCreated } from "./handlers/commands.js";
+import { handleOverrideLabel } from "./handlers/override.js";
+import { handleHttpRequest, recordWebhookEvent } from "./handlers/http.js";
+import { initJobQueue } from "./services/job-queue.js";
 
-export default function app(probotApp: Probot): void {
+export default function app(
+  probotApp: Probot,
+  { addHandler }: ApplicationFunctionOptions
+): void {
   probotApp.log.info("Deploy Checklist Bot is running!");
 
-  // Pull request events trigger diff analysis
+  // GET /metrics (Prometheus) and GET /healthz on Probot's HTTP server
+  addHandler(handleHttpRequest);
+
+  // Every delivery is counted, including events the bot ignores
+  probotApp.onAny(async (context) => {
+    const { payload } = context;
+    const action =
+      "action" in payload && typeof payload.action === "string"
+        ? payload.action
+        : undefined;
+    recordWebhookEvent(context.name, action);
+  });
+
+  // Pull request analyses are debounced through the job queue. Jobs queued before a
+  // restart resume here
+  const queue = initJobQueue(probotApp.log);
+  queue.handle(ANALYZE_PR_JOB, (job, run) =>
+    runAnalysisJob(probotApp, job, run)
+  );
+  // Every analysis goes through the queue, so a store that can't be written (a read-only
+  // JOB_QUEUE_FILE, an unreachable Redis) stops the process instead of failing each webhook
+  queue.start().catch((error: unknown) => {
+    probotApp.log.fatal(
+      `Job queue failed to start: ${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  });
+
+  // Pull request events trigger diff analysis; edits, labels and closes can re-run,
+  // skip or cancel it
   probotApp.on(
     [
       "pull_request.opened",
       "pull_request.reopened",
       "pull_request.synchronize",
       "pull_request.ready_for_review",
+      "pull_request.edited",
+      "pull_request.closed",
+      "pull_request.labeled",
+      "pull_request.unlabeled",
     ],
     handlePullRequest
   );
 
+  // The override label (default `hotfix`) is a break-glass override for configured teams
+  probotApp.on("pull_request.labeled", handleOverrideLabel);
+
   // Comment edits trigger checkbox completion evaluation
   probotApp.on("issue_comment.edited", handleIssueCommentEdited);
+
+  // New comments may carry /checklist commands (reanalyze, skip, override, explain, status)
+  probotApp.on("issue_comment.created", handleIssueCommentCreated);
 }
@@ -1,5 +1,8 @@
 import type { DeployChecklistConfig, Rule } from "../schemas/config.js";
-import type { PRMetadata } from "../schemas/analysis-result.js";
+import type {
+  ChecklistItemState,
+  PRMetadata,
+} from "../schemas/analysis-result.js";
 import type { Skill } from "../skills/index.js";
 
 export const SYSTEM_PROMPT = `You are a deploy checklist analyzer. You examine pull request diffs and determine which checklist items apply based on active skills and custom rules.
@@ -7,11 +10,16 @@ export const SYSTEM_PROMPT = `You are a deploy checklist analyzer. You examine p
 Use the submit_analysis tool to return your findings. Only include items genuinely relevant to the actual changes in the diff.
 Always include a one-sentence summary describing the overall risk level of the PR.`;
 
+export const INCREMENTAL_SYSTEM_PROMPT = `You are a deploy checklist analyzer updating an existing checklist. You examine only the commits pushed since the checklist was generated and decide which items to add and which to retire.
+
+Use the submit_checklist_update tool to return your changes. Keep the checklist stable: never restate or reword an existing item, and only retire items whose concern the new commits removed.
+Always include a one-sentence summary describing the overall risk level of the PR after these commits.`;
+
 /**
  * Format a single rule into a human-readable string for the prompt.
  * Only includes trigger fields that are set — keeps the prompt clean for simple rules.
  */
-function formatRule(rule: Rule): string {
+export function formatRule(rule: Rule): string {
   const parts = [`### Rule: ${rule.id}`, `Description: ${rule.description}`];
 
   if (rule.trigger.paths?.length) {
@@ -42,7 +50,7 @@ function formatRule(rule: Rule): string {
  * Format a single skill into a human-readable string for the prompt.
  * Includes the systemContext (multi-framework domain knowledge) and checks.
  */
-function formatSkill(skill: Skill): string {
+export function formatSkill(skill: Skill): string {
   const parts = [`### Skill: ${skill.id}`, skill.systemContext, `Checks:`];
   for (const check of skill.checks) {
     parts.push(`  - ${check}`);
@@ -60,6 +68,7 @@ function formatSkill(skill: Skill): string {
  * Assembles sections: context → active skills → custom rules → PR info → file contents
  *                    → uncovered files → diff → instructions.
  * The order matters — Claude sees skills/rules before the diff, so it knows what to look for.
+ * `part` is set when a large diff is analyzed in chunks; the diff is then one batch of files.
  */
 export function buildUserPrompt(
   config: DeployChecklistConfig,
@@ -67,7 +76,8 @@ export function buildUserPrompt(
   diff: string,
   activeSkills: Skill[] = [],
   uncoveredFiles: string[] = [],
-  fileContents?: Map<string, string>
+  fileContents?: Map<string, string>,
+  part?: { index: number; total: number }
 ): string {
   const sections: string[] = [];
 
@@ -123,6 +133,17 @@ export function buildUserPrompt(
     sections.push(uncoveredSection.join("\n"));
   }
 
+  // Chunked analysis — keep Claude to its own batch but let it see the whole file list
+  if (part) {
+    sections.push(
+      `## Partial Diff\n` +
+        `This PR is too large for one pass and is analyzed in ${part.total} parts. ` +
+        `This is part ${part.index} of ${part.total}: evaluate only the files in the diff below — ` +
+        `the other parts are analyzed separately. Use the full "Files changed" list above ` +
+        `when checking for expected companion files.`
+    );
+  }
+
   sections.push(`## Diff\n\`\`\`diff\n${diff}\n\`\`\``);
 
   sections.push(
@@ -131,8 +152,75 @@ export function buildUserPrompt(
       `For each active skill, evaluate its checks against the diff.\n` +
       `Only include items genuinely relevant to the actual changes.\n` +
       `Be specific — reference actual file names, function names, and line numbers from the diff.\n` +
+      `Give each item a key naming its concern (not its wording), so it stays the same if the PR is re-analyzed.\n` +
       `For uncovered files, add to open_concerns only if you spot a real deploy risk.`
   );
 
   return sections.join("\n\n");
 }
+
+/**
+ * Build the prompt for an incremental re-analysis: the existing checklist plus only the
+ * diff of commits pushed since `fromSha`. Skills and rules come first, as in buildUserPrompt.
+ */
+export function buildIncrementalPrompt(
+  config: DeployChecklistConfig,
+  prMeta: PRMetadata,
+  delta: string,
+  fromSha: string,
+  activeSkills: Skill[],
+  existingItems: ChecklistItemState[]
+): string {
+  const sections: string[] = [];
+
+  if (activeSkills.length > 0) {
+    const skillsText = activeSkills.map(formatSkill).join("\n\n");
+    sections.push(`## Active Skills\n${skillsText}`);
+  }
+
+  if (config.rules.length > 0) {
+    const rulesText = config.rules.map(formatRule).join("\n\n");
+    sections.push(`## Custom Rules\n${rulesText}`);
+  }
+
+  if (config.context) {
+    sections.push(`## Repository Context\n${config.context}`);
+  }
+
+  sections.push(
+    `## PR Information\n` +
+      `Title: ${prMeta.title}\n` +
+      `Description: ${prMeta.body || "(no description)"}\n` +
+      `Base branch: ${prMeta.baseBranch}\n` +
+      `Files changed in the whole PR: ${prMeta.filesChanged.join(", ")}`
+  );
+
+  // Checked state tells Claude which items engineers already signed off
+  const itemLines = existingItems.map(
+    ({ id, item, checked }) =>
+      `- id: ${id} [${checked ? "checked" : "unchecked"}] ` +
+      `(${item.rule_id}${item.key ? `, key: ${item.key}` : ""}) ` +
+      `${item.check} — ${item.description}` +
+      (item.files?.length ? ` Files: ${item.files.join(", ")}` : "")
+  );
+  sections.push(
+    `## Existing Checklist\n` +
+      (itemLines.length > 0 ? itemLines.join("\n") : "(no items)")
+  );
+
+  sections.push(
+    `## New Commits Diff (${fromSha.slice(0, 7)}..${prMeta.headSha.slice(0, 7)})\n` +
+      `\`\`\`diff\n${delta}\n\`\`\``
+  );
+
+  sections.push(
+    `## Instructions\n` +
+      `Use the submit_checklist_update tool to return your changes.\n` +
+      `Add an item only for a deploy risk these commits introduce that no existing item covers.\n` +
+      `Retire an existing item (by id) only if these commits removed or reverted the change it concerns.\n` +
+      `Leave everything else alone — an empty update is the expected answer for most pushes.\n` +
+      `Be specific — reference actual file names, function names, and line numbers from the diff.`
+  );
+
+  return sections.join("\n\n");
+}
@@ -10,6 +10,24 @@ export const ChecklistItemSchema = z.object({
   description: z.string(),
   reasoning: z.string(),
   priority: z.enum(["high", "medium", "low"]),
+  // Repo-relative paths the item concerns — used for Check Run annotations
+  files: z.array(z.string()).optional(),
+  // Short name for the underlying concern that survives rewording of `check` — part of
+  // the item fingerprint used to carry check state across re-analyses
+  key: z.string().optional(),
+});
+
+// Tokens and estimated cost of the LLM calls behind one analysis — set by the analyzer
+export const AnalysisUsageSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  calls: z.number(),
+  input_tokens: z.number(),
+  output_tokens: z.number(),
+  cache_read_tokens: z.number(),
+  cache_write_tokens: z.number(),
+  // null when the model has no known price (e.g. a self-hosted endpoint)
+  cost_usd: z.number().nullable(),
 });
 
 export const AnalysisResultSchema = z.object({
@@ -20,6 +38,75 @@ export const AnalysisResultSchema = z.object({
     file: z.string(),
     concern: z.string(),
   })).default([]),
+  // Set by the prompt budget planner, not by Claude — what was left out of the prompt
+  omitted_context: z.array(z.string()).optional(),
+  usage: AnalysisUsageSchema.optional(),
+});
+
+// Incremental re-analysis: Claude sees only the commits since the last analyzed SHA and
+// edits the existing checklist instead of rebuilding it
+export const IncrementalResultSchema = z.object({
+  items: z.array(ChecklistItemSchema),
+  retired_item_ids: z.array(z.string()).default([]),
+  summary: z.string().default(""),
+  open_concerns: AnalysisResultSchema.shape.open_concerns,
+  omitted_context: AnalysisResultSchema.shape.omitted_context,
+  usage: AnalysisUsageSchema.optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persisted Checklist State (hidden JSON block in the bot comment)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// One entry per checkbox toggle, skip or override — the compliance audit trail
+export const AuditEventSchema = z.object({
+  action: z.enum(["checked", "unchecked", "skipped", "reverted", "overridden"]),
+  by: z.string(),
+  at: z.string(),
+  reason: z.string().optional(),
+});
+
+export const PersistedItemSchema = ChecklistItemSchema.extend({
+  id: z.string(),
+  checked: z.boolean().default(false),
+  checked_by: z.string().optional(),
+  checked_at: z.string().optional(),
+  skip_reason: z.string().optional(),
+  history: z.array(AuditEventSchema).default([]),
+  // Matched to an item of the previous analysis rather than newly found
+  carried_over: z.boolean().optional(),
+});
+
+// An item the latest re-analysis no longer produced — listed collapsed for reviewers
+export const ResolvedItemSchema = z.object({
+  id: z.string(),
+  rule_id: z.string(),
+  check: z.string(),
+  checked: z.boolean(),
+  checked_by: z.string().optional(),
+});
+
+// A break-glass override: the PR was approved with items unchecked, which were moved to a
+// follow-up issue. Cleared by the next analysis, which gates the new head again
+export const OverrideSchema = z.object({
+  by: z.string(),
+  at: z.string(),
+  reason: z.string(),
+  follow_up_issue: z.number().optional(),
+});
+
+// Bump `version` when the payload shape changes; parseChecklist rejects unknown versions
+export const PersistedStateSchema = z.object({
+  version: z.literal(2),
+  sha: z.string(),
+  summary: z.string().default(""),
+  uncovered_files: z.array(z.string()).default([]),
+  open_concerns: AnalysisResultSchema.shape.open_concerns,
+  omitted_context: z.array(z.string()).default([]),
+  items: z.array(PersistedItemSchema),
+  resolved_items: z.array(ResolvedItemSchema).default([]),
+  usage: AnalysisUsageSchema.optional(),
+  override: OverrideSchema.optional(),
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -28,19 +115,51 @@ export const AnalysisResultSchema = z.object({
 
 export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
 export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+export type AnalysisUsage = z.infer<typeof AnalysisUsageSchema>;
+export type IncrementalResult = z.infer<typeof IncrementalResultSchema>;
+export type PersistedState = z.infer<typeof PersistedStateSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+export type ResolvedItem = z.infer<typeof ResolvedItemSchema>;
+export type ChecklistOverride = z.infer<typeof OverrideSchema>;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Plain TypeScript Interfaces
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface ChecklistItemState {
+  id: string;
   item: ChecklistItem;
   checked: boolean;
+  checkedBy?: string;
+  checkedAt?: string;
+  skipReason?: string;
+  history?: AuditEvent[];
+  carriedOver?: boolean;
+}
+
+/** Flattened audit event with its item context — one row of a compliance export. */
+export interface AuditRecord extends AuditEvent {
+  item_id: string;
+  rule_id: string;
+  check: string;
 }
 
 export interface ChecklistState {
+  // 1 = regex-parsed legacy comment (lossy), 2 = hidden JSON state block
+  version: 1 | 2;
   sha: string;
+  summary: string;
+  uncoveredFiles: string[];
+  openConcerns: AnalysisResult["open_concerns"];
+  // What the prompt budget left out of the analysis — shown so reviewers know its limits
+  omittedContext?: string[];
   items: ChecklistItemState[];
+  // Items the last re-analysis dropped — replaced on every push
+  resolvedItems?: ResolvedItem[];
+  // Shown as a footer line when the repo opts in with settings.usage_footer
+  usage?: AnalysisUsage;
+  // Set by a break-glass override — the PR stays approved despite unchecked items
+  override?: ChecklistOverride;
   allComplete: boolean;
 }
 
@@ -28,18 +28,199 @@ export const RuleSchema = z.object({
   description: z.string(),
   trigger: TriggerSchema,
   checks: z.array(z.string()),
+
+  // Who may check this rule's items: GitHub logins or "org/team" slugs (empty = anyone)
+  approvers: z.array(z.string()).optional(),
+
+  // When false, the PR author can't check this rule's items even if listed as an approver
+  allow_author_check: z.boolean().optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Built-in Skill Overrides
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SkillOverrideSchema = z.object({
+  approvers: z.array(z.string()).optional(),
+  allow_author_check: z.boolean().optional(),
+
+  // Replace the skill's path globs — for repos with a non-standard layout. Matching files
+  // also activate content-only skills
+  paths: z.array(z.string()).optional(),
+
+  // Replace the skill's expected companion files
+  companion_paths: z.array(z.string()).optional(),
+
+  // Extra checks added after the skill's own
+  checks_append: z.array(z.string()).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Custom Skill Schema
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A regex in the same dialect as built-in skill content patterns ("(?i)" prefix = case-insensitive). */
+const ContentPatternSchema = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern.replace(/^\(\?i\)/, ""));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+/**
+ * A repo-defined skill. Compiles to the same Skill shape as the built-ins, so it is
+ * pre-filtered locally and only sent to Claude when its paths or content patterns match.
+ */
+export const CustomSkillSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+
+    // Glob patterns for changed files — also count toward file coverage
+    paths: z.array(z.string()).default([]),
+
+    // Regex patterns matched against the diff locally, before calling Claude
+    content: z.array(ContentPatternSchema).default([]),
+
+    // Files expected alongside the matched ones (e.g. migrations for entity changes)
+    companion_paths: z.array(z.string()).optional(),
+
+    // Send the full contents of matching files, not just the diff
+    include_full_files: z.boolean().optional(),
+
+    // Domain knowledge for Claude, injected into the prompt when the skill fires
+    system_context: z.string(),
+
+    checks: z.array(z.string()).min(1),
+    approvers: z.array(z.string()).optional(),
+    allow_author_check: z.boolean().optional(),
+  })
+  .refine((skill) => skill.paths.length > 0 || skill.content.length > 0, {
+    message: "A custom skill needs at least one of `paths` or `content`",
+  });
+
+export const SkillsConfigSchema = z.object({
+  // Skill ids to switch off entirely, e.g. "docker" in a repo without containers
+  disable: z.array(z.string()).default([]),
+
+  // Keyed by skill id, e.g. "migration-review"
+  overrides: z.record(z.string(), SkillOverrideSchema).default({}),
+
+  // Repo-defined skills — a custom skill with a built-in's id replaces it
+  custom: z.array(CustomSkillSchema).default([]),
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Settings Schema
 // ─────────────────────────────────────────────────────────────────────────────
 
+// Monthly LLM spend cap for the repo (UTC calendar month, estimated from token usage)
+export const BudgetSchema = z.object({
+  monthly_usd: z.number().positive(),
+
+  // Model to use once the budget is spent; without one the repo falls back to
+  // deterministic analysis until the month rolls over
+  fallback_model: z.string().optional(),
+});
+
+// Per-analysis model choice on top of `settings.model`. When both apply, high_risk wins —
+// a small diff to an auth module still gets the stronger model
+export const ModelEscalationSchema = z.object({
+  // Diffs up to max_size characters use this (typically cheaper) model
+  small_diff: z
+    .object({
+      max_size: z.number().int().positive(),
+      model: z.string(),
+    })
+    .optional(),
+
+  // Any of these skills (built-in or custom ids) active → this (typically stronger) model
+  high_risk: z
+    .object({
+      skills: z
+        .array(z.string())
+        .default(["migration-entity", "authentication"]),
+      model: z.string(),
+    })
+    .optional(),
+});
+
+// PR labels the bot acts on. Adding `skip` approves the PR without a checklist and stops
+// analysis while the label is on — only override_approvers may add it, and it is off by
+// default; adding `reanalyze` re-runs the full analysis and removes the label; adding
+// `override` is a break-glass override (see override_approvers). "" turns any of them off
+export const LabelsSchema = z.object({
+  skip: z.string().default(""),
+  reanalyze: z.string().default("deploy-checklist:reanalyze"),
+  override: z.string().default("hotfix"),
+});
+
 export const SettingsSchema = z.object({
   analyze_drafts: z.boolean().default(false),
   ignore_authors: z.array(z.string()).default([]),
   target_branches: z.array(z.string()).default([]),
   post_empty_checklist: z.boolean().default(false),
   max_diff_size: z.number().default(100000),
+
+  // What to do with a diff over max_diff_size: "truncate" sends one pass with non-triggered
+  // files cut to filenames; "chunk" (opt-in, up to MAX_CHUNKS LLM calls per analysis)
+  // analyzes it in several batches and merges the results
+  large_diff_strategy: z.enum(["chunk", "truncate"]).default("truncate"),
+
+  // Estimated-token budget for each Claude prompt (system prompt, skills, rules, context,
+  // full files and diff). Sections are dropped lowest-priority first to fit
+  max_prompt_tokens: z.number().int().positive().default(60000),
+
+  // How the merge gate is expressed: REQUEST_CHANGES/APPROVE reviews, a "Deploy Checklist"
+  // Check Run, a commit status, or reviews plus a Check Run
+  gate_mode: z.enum(["review", "check_run", "status", "both"]).default("review"),
+
+  // Which config governs a PR. "base" enforces the base branch config so a PR can't loosen
+  // its own rules, and a PR editing it gets a mandatory item listing the changes;
+  // "base_with_head_preview" also posts a comment with every effective change; "head" uses
+  // the PR's own config and posts that comment, with no item
+  config_source: z
+    .enum(["base", "head", "base_with_head_preview"])
+    .default("base"),
+  // "llm" asks Claude; "deterministic" builds items straight from matching skills' and
+  // rules' checks (no API call); "hybrid" asks Claude and falls back to deterministic
+  analysis_mode: z.enum(["llm", "deterministic", "hybrid"]).default("llm"),
+
+  // LLM backend for this repo's analysis. Unset uses the server's LLM_PROVIDER (default
+  // anthropic); "openai" is any OpenAI-compatible endpoint at the server's OPENAI_BASE_URL
+  llm_provider: z.enum(["anthropic", "openai"]).optional(),
+
+  // Model for this repo's analyses — unset uses the provider's server default
+  // (CLAUDE_MODEL / OPENAI_MODEL)
+  model: z.string().optional(),
+
+  // Output token limit per LLM call; raise it for PRs whose checklists get cut off
+  max_output_tokens: z.number().int().positive().default(4000),
+
+  // Sampling temperature — unset uses the provider's default
+  temperature: z.number().min(0).max(1).optional(),
+
+  model_escalation: ModelEscalationSchema.optional(),
+
+  // Append the analysis's token usage and estimated cost to the checklist comment
+  usage_footer: z.boolean().default(false),
+
+  budget: BudgetSchema.optional(),
+
+  labels: LabelsSchema.default(() => ({
+    skip: "",
+    reanalyze: "deploy-checklist:reanalyze",
+    override: "hotfix",
+  })),
+
+  // Who may approve a PR with unchecked items (`/checklist override <reason>` or the
+  // override label): GitHub logins or "org/team" slugs. Empty = nobody
+  override_approvers: z.array(z.string()).default([]),
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -56,9 +237,31 @@ export const DeployChecklistConfigSchema = z.object({
     target_branches: [],
     post_empty_checklist: false,
     max_diff_size: 100000,
+    large_diff_strategy: "truncate" as const,
+    max_prompt_tokens: 60000,
+    gate_mode: "review" as const,
+    config_source: "base" as const,
+    analysis_mode: "llm" as const,
+    max_output_tokens: 4000,
+    usage_footer: false,
+    labels: {
+      skip: "",
+      reanalyze: "deploy-checklist:reanalyze",
+      override: "hotfix",
+    },
+    override_approvers: [],
   })),
 
   rules: z.array(RuleSchema).default([]),
+
+  // Rule ids to drop after `extends` resolution — opts a repo out of inherited org rules
+  disable_rules: z.array(z.string()).default([]),
+
+  skills: SkillsConfigSchema.default(() => ({
+    disable: [],
+    overrides: {},
+    custom: [],
+  })),
   context: z.string().optional(),
 });
 
@@ -68,6 +271,14 @@ export const DeployChecklistConfigSchema = z.object({
 
 export type Trigger = z.infer<typeof TriggerSchema>;
 export type Rule = z.infer<typeof RuleSchema>;
+export type SkillOverride = z.infer<typeof SkillOverrideSchema>;
+export type CustomSkill = z.infer<typeof CustomSkillSchema>;
 export type Settings = z.infer<typeof SettingsSchema>;
+export type GateMode = Settings["gate_mode"];
+export type ConfigSource = Settings["config_source"];
+export type AnalysisMode = Settings["analysis_mode"];
+export type LargeDiffStrategy = Settings["large_diff_strategy"];
+export type Budget = z.infer<typeof BudgetSchema>;
+export type ModelEscalation = z.infer<typeof ModelEscalationSchema>;
 export type DeployChecklistConfig = z.infer<typeof DeployChecklistConfigSchema>;
 
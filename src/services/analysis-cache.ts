@@ -0,0 +1,163 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  AnalysisResultSchema,
+  type AnalysisResult,
+} from "../schemas/analysis-result.js";
+import type { DeployChecklistConfig } from "../schemas/config.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Bump when the key inputs or the cached result shape change, to orphan old entries
+const CACHE_KEY_VERSION = 2;
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_CACHE_DIR = ".cache/analysis";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Storage backend for analysis results, keyed by `analysisCacheKey`. */
+export interface AnalysisCache {
+  get(key: string): Promise<AnalysisResult | undefined>;
+  set(key: string, result: AnalysisResult): Promise<void>;
+}
+
+export interface CacheKeyInputs {
+  diff: string;
+  // PR title and body — they are in the prompt, so editing them must miss the cache
+  description: string;
+  config: DeployChecklistConfig;
+  skillIds: string[];
+  model: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Backends
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Process-local LRU — a Map iterates in insertion order, so the first key is the oldest. */
+export class MemoryAnalysisCache implements AnalysisCache {
+  private readonly entries = new Map<string, AnalysisResult>();
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<AnalysisResult | undefined> {
+    const result = this.entries.get(key);
+    if (result) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, result);
+    }
+    return result;
+  }
+
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * One JSON file per key — survives restarts and can be shared by instances on a common
+ * volume. Entries are never evicted; prune the directory externally if it grows.
+ */
+export class FileAnalysisCache implements AnalysisCache {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<AnalysisResult | undefined> {
+    try {
+      const raw = await readFile(join(this.dir, `${key}.json`), "utf-8");
+      // A corrupt or outdated file is a miss, not an error
+      const parsed = AnalysisResultSchema.safeParse(JSON.parse(raw));
+      return parsed.success ? parsed.data : undefined;
+    } catch (error: unknown) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: string }).code === "ENOENT"
+      ) {
+        return undefined;
+      }
+      if (error instanceof SyntaxError) return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, `${key}.json`), JSON.stringify(result));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Strip what changes without changing the content: blob hashes on `index` lines and hunk
+ * line numbers (a rebase onto a moved base shifts every `@@ -a,b +c,d @@`).
+ */
+export function normalizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .filter((line) => !line.startsWith("index "))
+    .map((line) =>
+      line.startsWith("@@") ? line.replace(/^@@ [^@]* @@/, "@@ @@") : line
+    )
+    .map((line) => line.trimEnd())
+    .join("\n");
+}
+
+/** Cache key: a hash of everything that determines the analysis result. */
+export function analysisCacheKey(inputs: CacheKeyInputs): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        version: CACHE_KEY_VERSION,
+        diff: normalizeDiff(inputs.diff),
+        description: inputs.description,
+        config: inputs.config,
+        skills: [...inputs.skillIds].sort(),
+        model: inputs.model,
+      })
+    )
+    .digest("hex");
+}
+
+// Backends are built once per distinct env setting
+const instances = new Map<string, AnalysisCache>();
+
+/**
+ * The cache selected by ANALYSIS_CACHE: "memory" (default), "file" (ANALYSIS_CACHE_DIR)
+ * or "off". Returns null when caching is off.
+ */
+export function getAnalysisCache(): AnalysisCache | null {
+  const backend = process.env.ANALYSIS_CACHE ?? "memory";
+  if (backend === "off") return null;
+
+  const dir = process.env.ANALYSIS_CACHE_DIR ?? DEFAULT_CACHE_DIR;
+  const maxEntries = parseInt(
+    process.env.ANALYSIS_CACHE_SIZE ?? String(DEFAULT_MAX_ENTRIES),
+    10
+  );
+  const id = backend === "file" ? `file:${dir}` : `memory:${maxEntries}`;
+
+  let cache = instances.get(id);
+  if (!cache) {
+    cache =
+      backend === "file"
+        ? new FileAnalysisCache(dir)
+        : new MemoryAnalysisCache(maxEntries);
+    instances.set(id, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,93 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Failure classes
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type FailureClass =
+  | "rate_limited"
+  | "overloaded"
+  | "server_error"
+  | "network"
+  | "auth"
+  | "invalid_request"
+  | "invalid_response"
+  | "unknown";
+
+/** Short, human-readable cause shown in the PR error comment — whichever provider is set. */
+export const FAILURE_DESCRIPTIONS: Record<FailureClass, string> = {
+  rate_limited: "The LLM API rate limit was hit",
+  overloaded: "The LLM API is overloaded",
+  server_error: "The LLM API returned a server error",
+  network: "The LLM API could not be reached or timed out",
+  auth: "The LLM API rejected the bot's credentials",
+  invalid_request: "The LLM API rejected the request",
+  invalid_response: "The model's response did not match the expected schema",
+  unknown: "An unexpected error occurred while calling the LLM API",
+};
+
+// Transient failures worth retrying; everything else fails immediately
+const RETRYABLE: ReadonlySet<FailureClass> = new Set([
+  "rate_limited",
+  "overloaded",
+  "server_error",
+  "network",
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Error type
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** An analysis failure that carries its class and how many API calls were made. */
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly failureClass: FailureClass,
+    readonly attempts: number = 1
+  ) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Classify an API error by HTTP status and error type. Duck-typed rather than
+ * instanceof so it works for any SDK that exposes `status` on its errors.
+ */
+export function classifyError(error: unknown): FailureClass {
+  if (error instanceof AnalysisError) return error.failureClass;
+  if (!(error instanceof Error)) return "unknown";
+
+  const status =
+    "status" in error && typeof error.status === "number"
+      ? error.status
+      : undefined;
+
+  if (status === 429) return "rate_limited";
+  if (status === 529 || /overloaded/i.test(error.message)) return "overloaded";
+  if (status !== undefined && status >= 500) return "server_error";
+  if (status === 401 || status === 403) return "auth";
+  // 408 Request Timeout is the server giving up on a slow request — transient, like a
+  // client-side timeout
+  if (status === 408) return "network";
+  if (status !== undefined && status >= 400) return "invalid_request";
+
+  // Connection failures and timeouts usually carry no status
+  if (/connection|timeout|timed out|fetch failed|ECONNRESET|ENOTFOUND/i.test(`${error.name} ${error.message}`)) {
+    return "network";
+  }
+  return "unknown";
+}
+
+export function isRetryable(error: unknown): boolean {
+  return RETRYABLE.has(classifyError(error));
+}
+
+/** Wrap any thrown value as an AnalysisError, keeping an existing classification. */
+export function toAnalysisError(error: unknown, attempts = 1): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new AnalysisError(message, classifyError(error), attempts);
+}
@@ -0,0 +1,180 @@
+import type { Context } from "probot";
+import type { DeployChecklistConfig } from "../schemas/config.js";
+import type { ChecklistItemState } from "../schemas/analysis-result.js";
+import { findSkill, resolveSkills } from "../skills/index.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Who may check an item. No approvers + author allowed = anyone with write access. */
+export interface ApprovalPolicy {
+  approvers: string[];
+  allowAuthorCheck: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Check "org/team" membership. Any API failure counts as not a member. */
+async function isTeamMember(
+  context: Context,
+  slug: string,
+  username: string
+): Promise<boolean> {
+  const [org, teamSlug] = slug.split("/");
+  try {
+    const { data } =
+      await context.octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: teamSlug,
+        username,
+      });
+    return data.state === "active";
+  } catch (error: unknown) {
+    // 404 = not a member; anything else (missing members:read permission) is worth a log line
+    if (
+      !(
+        error instanceof Error &&
+        "status" in error &&
+        (error as { status: number }).status === 404
+      )
+    ) {
+      context.log.warn(
+        `Failed to check membership of ${username} in ${slug}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return false;
+  }
+}
+
+/** Whether `username` is one of the logins or a member of one of the "org/team" slugs. */
+async function isListedApprover(
+  context: Context,
+  approvers: string[],
+  username: string
+): Promise<boolean> {
+  const login = username.toLowerCase();
+  for (const approver of approvers) {
+    if (approver.includes("/")) {
+      if (await isTeamMember(context, approver, username)) return true;
+    } else if (approver.replace(/^@/, "").toLowerCase() === login) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function describeApprovers(approvers: string[]): string {
+  return approvers
+    .map((a) => (a.includes("/") ? `\`${a}\`` : `@${a.replace(/^@/, "")}`))
+    .join(", ");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the approval policy for an item's rule_id.
+ * Custom rules win, then config overrides for built-in skills, then the skill's own
+ * defaults (including approvers declared on a custom skill).
+ */
+export function resolveApprovalPolicy(
+  ruleId: string,
+  config: DeployChecklistConfig
+): ApprovalPolicy {
+  const rule = config.rules.find((r) => r.id === ruleId);
+  const override = config.skills.overrides[ruleId];
+  const skill = findSkill(ruleId, resolveSkills(config));
+
+  return {
+    approvers: rule?.approvers ?? override?.approvers ?? skill?.approvers ?? [],
+    allowAuthorCheck:
+      rule?.allow_author_check ??
+      override?.allow_author_check ??
+      skill?.allowAuthorCheck ??
+      true,
+  };
+}
+
+/**
+ * Decide whether `username` may check an item governed by `policy`.
+ * Returns null when allowed, otherwise a short reason suitable for the PR comment.
+ */
+export async function checkAuthorization(
+  context: Context,
+  policy: ApprovalPolicy,
+  username: string,
+  prAuthor: string
+): Promise<string | null> {
+  const login = username.toLowerCase();
+
+  if (!policy.allowAuthorCheck && login === prAuthor.toLowerCase()) {
+    return "the PR author cannot sign off this item";
+  }
+
+  if (policy.approvers.length === 0) {
+    return null;
+  }
+
+  if (await isListedApprover(context, policy.approvers, username)) {
+    return null;
+  }
+
+  return `only ${describeApprovers(policy.approvers)} can sign off this item`;
+}
+
+/**
+ * Decide whether `username` may break-glass override the checklist. Unlike item
+ * approvers, an empty `override_approvers` list means nobody may.
+ * Returns null when allowed, otherwise a short reason suitable for the PR comment.
+ */
+export async function checkOverrideAuthorization(
+  context: Context,
+  config: DeployChecklistConfig,
+  username: string
+): Promise<string | null> {
+  const approvers = config.settings.override_approvers;
+  if (approvers.length === 0) {
+    return "overrides are not enabled for this repo (`settings.override_approvers` is empty)";
+  }
+
+  if (await isListedApprover(context, approvers, username)) {
+    return null;
+  }
+
+  return `only ${describeApprovers(approvers)} can override the deploy checklist`;
+}
+
+/**
+ * Find items that `username` just checked without being authorized to.
+ * Un-checking is always allowed — it only makes the gate stricter.
+ * Returns item ID → reason for every unauthorized check.
+ */
+export async function findUnauthorizedChecks(
+  context: Context,
+  config: DeployChecklistConfig,
+  items: ChecklistItemState[],
+  toggledIds: string[],
+  username: string,
+  prAuthor: string
+): Promise<Map<string, string>> {
+  const unauthorized = new Map<string, string>();
+
+  for (const state of items) {
+    if (!state.checked || !toggledIds.includes(state.id)) continue;
+
+    const policy = resolveApprovalPolicy(state.item.rule_id, config);
+    const reason = await checkAuthorization(
+      context,
+      policy,
+      username,
+      prAuthor
+    );
+    if (reason) unauthorized.set(state.id, reason);
+  }
+
+  return unauthorized;
+}
@@ -1,8 +1,15 @@
-import type {
-  AnalysisResult,
-  ChecklistItem,
-  ChecklistState,
-  ChecklistItemState,
+import { createHash } from "crypto";
+import {
+  PersistedStateSchema,
+  type AnalysisResult,
+  type AnalysisUsage,
+  type ChecklistItem,
+  type ChecklistState,
+  type ChecklistItemState,
+  type IncrementalResult,
+  type PersistedState,
+  type AuditRecord,
+  type ResolvedItem,
 } from "../schemas/analysis-result.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -15,8 +22,19 @@ export const BOT_MARKER = "<!-- deploy-checklist-bot:v1 -->";
 /** Extracts commit SHA from <!-- sha:abc123 --> metadata. */
 const SHA_REGEX = /<!-- sha:(\w+) -->/;
 
+/** Extracts the base64 JSON payload from <!-- deploy-checklist-state:v2 ... --> */
+const STATE_REGEX = /<!-- deploy-checklist-state:v2 ([A-Za-z0-9+/=]+) -->/;
+
+/**
+ * Matches a rendered item's checkbox line by its stable ID:
+ *   - [x] **Check** 🔴 <!-- item:1a2b3c4d5e6f -->
+ * Captures: [1] checked state, [2] item ID. The label itself is never parsed,
+ * so `**` or missing em-dashes in LLM output can't break matching.
+ */
+const ITEM_ID_REGEX = /^- \[([ xX])\] [^\n]*<!-- item:([\w-]+) -->/gm;
+
 /**
- * Parses a checklist item block like:
+ * v1 migration path — parses a legacy checklist item block like:
  *   - [x] **Check** 🔴
  *     Description — Reasoning
  *     _Rule: rule-id_
@@ -26,85 +44,242 @@ const SHA_REGEX = /<!-- sha:(\w+) -->/;
 const ITEM_REGEX =
   /- \[([ x])\] \*\*(.+?)\*\*[^\n]*\n\s+(.+?)\s*—\s*(.+?)\n\s+_Rule: (.+?)_/g;
 
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+// Minimum word overlap (Dice coefficient) for a reworded item to inherit an old item's state
+const FUZZY_MATCH_THRESHOLD = 0.5;
+
 // ─────────────────────────────────────────────────────────────────────────────
-// Public API
+// Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Generate a markdown checklist comment from analysis results. */
-export function generateChecklist(
-  result: AnalysisResult,
-  sha: string
-): string {
-  // Build markdown: BOT_MARKER lets us find this comment later, sha tracks which commit was analyzed
-  const lines: string[] = [
-    "## Deploy Checklist",
-    "",
-    BOT_MARKER,
-    `<!-- sha:${sha} -->`,
-    "",
-    "The following items were identified for this PR. Check each item to confirm",
-    "it has been addressed before merging.",
-    "",
-  ];
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
 
-  if (result.summary) {
-    lines.push(`> ${result.summary}`, "");
-  }
+function normalizeFiles(files: string[] = []): string[] {
+  return [...new Set(files.map((f) => f.trim().replace(/^\.\//, "")))].sort();
+}
 
-  // Sort by priority: high → medium → low
-  const priorityOrder = { high: 0, medium: 1, low: 2 };
-  const sorted = [...result.items].sort(
-    (a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]
-  );
+/**
+ * Item fingerprint: rule + affected files + the model's semantic `key` (the normalized
+ * label when there is none). Identical analyses yield identical IDs, and a reworded
+ * label with the same key keeps its ID.
+ */
+function itemId(item: ChecklistItem): string {
+  const concern = normalizeText(item.key ?? item.check);
+  return createHash("sha256")
+    .update(
+      `${item.rule_id}\u0000${normalizeFiles(item.files).join(",")}\u0000${concern}`
+    )
+    .digest("hex")
+    .slice(0, 12);
+}
 
-  for (const item of sorted) {
-    const priorityBadge =
-      item.priority === "high" ? " 🔴" : item.priority === "medium" ? " 🟡" : "";
-    lines.push(
-      `- [ ] **${item.check}**${priorityBadge}`,
-      `  ${item.description} — ${item.reasoning}`,
-      `  _Rule: ${item.rule_id}_`,
-      ""
-    );
+/** Word-overlap similarity in [0, 1] — short words carry no meaning for matching. */
+function similarity(a: string, b: string): number {
+  const words = (text: string) =>
+    new Set(normalizeText(text).split(" ").filter((w) => w.length > 2));
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  return (2 * shared) / (wa.size + wb.size);
+}
+
+/** How likely `next` is a re-worded `old` — 0 when they can't be the same concern. */
+function matchScore(old: ChecklistItem, next: ChecklistItem): number {
+  if (old.rule_id !== next.rule_id) return 0;
+  if (old.key && next.key && normalizeText(old.key) === normalizeText(next.key)) {
+    return 1;
   }
 
-  if (result.uncovered_files.length > 0 || result.open_concerns.length > 0) {
-    lines.push("### Needs Manual Review", "");
+  // Same wording about entirely different files is a different item (e.g. two migrations)
+  const oldFiles = normalizeFiles(old.files);
+  const nextFiles = normalizeFiles(next.files);
+  if (
+    oldFiles.length > 0 &&
+    nextFiles.length > 0 &&
+    !oldFiles.some((f) => nextFiles.includes(f))
+  ) {
+    return 0;
+  }
 
-    if (result.uncovered_files.length > 0) {
-      lines.push(
-        "The following files are not covered by any skill or rule — review manually:",
-        ""
-      );
-      for (const file of result.uncovered_files) {
-        lines.push(`- \`${file}\``);
-      }
-      lines.push("");
-    }
+  return Math.max(
+    similarity(old.check, next.check),
+    similarity(old.description, next.description)
+  );
+}
 
-    if (result.open_concerns.length > 0) {
-      lines.push("Potential deploy concerns in uncovered files:", "");
-      for (const { file, concern } of result.open_concerns) {
-        lines.push(`- **${file}**: ${concern}`);
-      }
-      lines.push("");
+/**
+ * Pair new items with old ones: exact fingerprint matches first, then the best fuzzy
+ * matches above FUZZY_MATCH_THRESHOLD. Each old item is matched at most once.
+ * Returns new item index → matched old item.
+ */
+function matchItems(
+  oldItems: ChecklistItemState[],
+  newItems: ChecklistItem[]
+): Map<number, ChecklistItemState> {
+  const matches = new Map<number, ChecklistItemState>();
+  const unmatched = new Set(oldItems);
+
+  // An old ID can predate the fingerprint (or be inherited) — compare both
+  newItems.forEach((item, index) => {
+    const id = itemId(item);
+    const old = [...unmatched].find((o) => o.id === id || itemId(o.item) === id);
+    if (old) {
+      matches.set(index, old);
+      unmatched.delete(old);
     }
+  });
+
+  const candidates = newItems
+    .flatMap((item, index) =>
+      matches.has(index)
+        ? []
+        : [...unmatched].map((old) => ({
+            index,
+            old,
+            score: matchScore(old.item, item),
+          }))
+    )
+    .filter((c) => c.score >= FUZZY_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  for (const { index, old } of candidates) {
+    if (matches.has(index) || !unmatched.has(old)) continue;
+    matches.set(index, old);
+    unmatched.delete(old);
   }
 
-  lines.push(
-    "---",
-    "_Generated by Deploy Checklist Bot | Re-analyze: push a new commit_"
+  return matches;
+}
+
+/** One-line footer: model, calls, tokens and estimated cost of the last analysis. */
+function formatUsage(usage: AnalysisUsage): string {
+  const n = (value: number) => value.toLocaleString("en-US");
+  const cached =
+    usage.cache_read_tokens > 0 ? ` (${n(usage.cache_read_tokens)} cached)` : "";
+  const cost =
+    usage.cost_usd !== null ? `~$${usage.cost_usd.toFixed(4)}` : "cost unknown";
+  return (
+    `_Analysis cost: ${usage.model} · ${usage.calls} call(s) · ` +
+    `${n(usage.input_tokens)} input${cached} / ${n(usage.output_tokens)} output tokens · ${cost}_`
   );
+}
 
-  return lines.join("\n");
+function toResolved(items: ChecklistItemState[]): ResolvedItem[] {
+  return items.map(({ id, item, checked, checkedBy }) => ({
+    id,
+    rule_id: item.rule_id,
+    check: item.check,
+    checked,
+    checked_by: checked ? checkedBy : undefined,
+  }));
 }
 
-/** Parse an existing bot comment into ChecklistState. Returns null if not a bot comment. */
-export function parseChecklist(commentBody: string): ChecklistState | null {
-  if (!commentBody.includes(BOT_MARKER)) {
+function encodeState(state: ChecklistState): string {
+  const payload: PersistedState = {
+    version: 2,
+    sha: state.sha,
+    summary: state.summary,
+    uncovered_files: state.uncoveredFiles,
+    open_concerns: state.openConcerns,
+    omitted_context: state.omittedContext ?? [],
+    items: state.items.map((i) => ({
+      ...i.item,
+      id: i.id,
+      checked: i.checked,
+      checked_by: i.checkedBy,
+      checked_at: i.checkedAt,
+      skip_reason: i.skipReason,
+      history: i.history ?? [],
+      carried_over: i.carriedOver,
+    })),
+    resolved_items: state.resolvedItems ?? [],
+    usage: state.usage,
+    override: state.override,
+  };
+  return Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
+}
+
+/** Decode and validate the hidden state block. Returns null if absent or corrupt. */
+function decodeState(commentBody: string): PersistedState | null {
+  const match = commentBody.match(STATE_REGEX);
+  if (!match) return null;
+
+  try {
+    const json = Buffer.from(match[1], "base64").toString("utf-8");
+    const parsed = PersistedStateSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
     return null;
   }
+}
+
+function withCompletion(
+  state: Omit<ChecklistState, "allComplete">
+): ChecklistState {
+  return {
+    ...state,
+    allComplete:
+      state.items.length > 0 && state.items.every((i) => i.checked),
+  };
+}
+
+/** v2 parse: metadata from the JSON block, checked state from the live checkboxes. */
+function parseStateBlock(
+  commentBody: string,
+  persisted: PersistedState
+): ChecklistState {
+  // The JSON block is only rewritten by the bot — GitHub checkbox toggles edit the
+  // markdown, so the rendered checkbox is the source of truth for `checked`
+  const checkboxes = new Map<string, boolean>();
+  for (const match of commentBody.matchAll(ITEM_ID_REGEX)) {
+    checkboxes.set(match[2], match[1] !== " ");
+  }
+
+  const items = persisted.items.map(
+    ({
+      id,
+      checked,
+      checked_by,
+      checked_at,
+      skip_reason,
+      history,
+      carried_over,
+      ...item
+    }) => ({
+      id,
+      item,
+      checked: checkboxes.get(id) ?? checked,
+      checkedBy: checked_by,
+      checkedAt: checked_at,
+      skipReason: skip_reason,
+      history,
+      carriedOver: carried_over,
+    })
+  );
+
+  return withCompletion({
+    version: 2,
+    sha: persisted.sha,
+    summary: persisted.summary,
+    uncoveredFiles: persisted.uncovered_files,
+    openConcerns: persisted.open_concerns,
+    omittedContext: persisted.omitted_context,
+    items,
+    resolvedItems: persisted.resolved_items,
+    usage: persisted.usage,
+    override: persisted.override,
+  });
+}
 
+/** v1 parse: regex over the legacy markdown. Priority and summary are not recoverable. */
+function parseLegacyMarkdown(commentBody: string): ChecklistState {
   const shaMatch = commentBody.match(SHA_REGEX);
   const sha = shaMatch ? shaMatch[1] : "unknown";
 
@@ -117,109 +292,518 @@ export function parseChecklist(commentBody: string): ChecklistState | null {
   // exec() with /g returns one match per call, advancing lastIndex each time
   while ((match = ITEM_REGEX.exec(commentBody)) !== null) {
     const [, checkedChar, check, description, reasoning, ruleId] = match;
-
-    items.push({
-      checked: checkedChar === "x",
-      item: {
-        rule_id: ruleId,
-        check,
-        description,
-        reasoning,
-        priority: "medium",  // Priority badge is visual only — default to medium when parsing back
-      },
-    });
+    const item: ChecklistItem = {
+      rule_id: ruleId,
+      check,
+      description,
+      reasoning,
+      priority: "medium", // Priority badge is visual only — default to medium when parsing back
+    };
+
+    items.push({ id: itemId(item), item, checked: checkedChar === "x" });
   }
 
-  return {
+  return withCompletion({
+    version: 1,
     sha,
+    summary: "",
+    uncoveredFiles: [],
+    openConcerns: [],
     items,
-    allComplete: items.length > 0 && items.every((i) => i.checked),
-  };
+  });
+}
+
+/** Fresh state for an analysis result — every item unchecked. */
+function stateFromResult(result: AnalysisResult, sha: string): ChecklistState {
+  return withCompletion({
+    version: 2,
+    sha,
+    summary: result.summary,
+    uncoveredFiles: result.uncovered_files,
+    openConcerns: result.open_concerns,
+    omittedContext: result.omitted_context ?? [],
+    usage: result.usage,
+    items: result.items.map((item) => ({
+      id: itemId(item),
+      item,
+      checked: false,
+    })),
+  });
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
 /**
- * Merge old checklist state with new analysis results.
- * Preserves check state for items with matching rule_id + description.
+ * Items in the order the comment shows them: high → medium → low, stable within a priority.
+ * Anything that numbers items (`/checklist explain 2`, status, the Check Run) uses this order.
  */
-export function mergeChecklist(
-  oldState: ChecklistState,
-  newResult: AnalysisResult,
-  newSha: string
-): string {
-  // Build lookup: "rule_id:check" → was_checked.
-  // Using composite key so items match even if description, reasoning, or priority changed.
-  const oldItemMap = new Map<string, boolean>();
-  for (const item of oldState.items) {
-    const key = `${item.item.rule_id}:${item.item.check}`;
-    oldItemMap.set(key, item.checked);
-  }
+export function inDisplayOrder<T extends ChecklistItemState>(items: T[]): T[] {
+  return [...items].sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.item.priority] - PRIORITY_ORDER[b.item.priority]
+  );
+}
 
+/**
+ * Render a checklist state as the bot comment.
+ * The hidden state block carries everything needed to re-render losslessly;
+ * the markdown is for humans (and the checkboxes they tick).
+ */
+export function renderChecklist(state: ChecklistState): string {
+  // Build markdown: BOT_MARKER lets us find this comment later, sha tracks which commit was analyzed
   const lines: string[] = [
     "## Deploy Checklist",
     "",
     BOT_MARKER,
-    `<!-- sha:${newSha} -->`,
+    `<!-- sha:${state.sha} -->`,
+    `<!-- deploy-checklist-state:v2 ${encodeState(state)} -->`,
     "",
     "The following items were identified for this PR. Check each item to confirm",
     "it has been addressed before merging.",
     "",
   ];
 
-  if (newResult.summary) {
-    lines.push(`> ${newResult.summary}`, "");
+  if (state.summary) {
+    lines.push(`> ${state.summary}`, "");
   }
 
-  const priorityOrder = { high: 0, medium: 1, low: 2 };
-  const sorted = [...newResult.items].sort(
-    (a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]
-  );
-
-  for (const item of sorted) {
-    const key = `${item.rule_id}:${item.check}`;
-    const wasChecked = oldItemMap.get(key) ?? false;
-    const checkbox = wasChecked ? "x" : " ";
+  if (state.override) {
+    const { by, at, reason, follow_up_issue } = state.override;
+    const followUp = follow_up_issue
+      ? ` — unchecked items are tracked in #${follow_up_issue}`
+      : "";
+    lines.push(
+      `> ⚠️ **Overridden** by @${by} on ${at.slice(0, 10)}: ${reason}${followUp}`,
+      ""
+    );
+  }
 
+  for (const {
+    id,
+    item,
+    checked,
+    skipReason,
+    checkedBy,
+    checkedAt,
+    carriedOver,
+  } of inDisplayOrder(state.items)) {
     const priorityBadge =
       item.priority === "high" ? " 🔴" : item.priority === "medium" ? " 🟡" : "";
     lines.push(
-      `- [${checkbox}] **${item.check}**${priorityBadge}`,
+      `- [${checked ? "x" : " "}] **${item.check}**${priorityBadge} <!-- item:${id} -->`,
       `  ${item.description} — ${item.reasoning}`,
-      `  _Rule: ${item.rule_id}_`,
-      ""
+      `  _Rule: ${item.rule_id}_`
     );
+    if (carriedOver) {
+      lines.push("  _Carried over from previous analysis_");
+    }
+    if (skipReason) {
+      lines.push(`  _Skipped by @${checkedBy ?? "unknown"}: ${skipReason}_`);
+    } else if (checked && checkedBy) {
+      // ISO timestamp → YYYY-MM-DD; the full time stays in the audit history
+      const date = checkedAt ? ` ${checkedAt.slice(0, 10)}` : "";
+      lines.push(`  ✔ checked by @${checkedBy}${date}`);
+    }
+    lines.push("");
   }
 
-  if (newResult.uncovered_files.length > 0 || newResult.open_concerns.length > 0) {
+  if (state.uncoveredFiles.length > 0 || state.openConcerns.length > 0) {
     lines.push("### Needs Manual Review", "");
 
-    if (newResult.uncovered_files.length > 0) {
+    if (state.uncoveredFiles.length > 0) {
       lines.push(
         "The following files are not covered by any skill or rule — review manually:",
         ""
       );
-      for (const file of newResult.uncovered_files) {
+      for (const file of state.uncoveredFiles) {
         lines.push(`- \`${file}\``);
       }
       lines.push("");
     }
 
-    if (newResult.open_concerns.length > 0) {
+    if (state.openConcerns.length > 0) {
       lines.push("Potential deploy concerns in uncovered files:", "");
-      for (const { file, concern } of newResult.open_concerns) {
+      for (const { file, concern } of state.openConcerns) {
         lines.push(`- **${file}**: ${concern}`);
       }
       lines.push("");
     }
   }
 
+  // Kept out of the checklist proper so they can't be ticked, but visible so a vanished
+  // item (possibly one someone had already confirmed) doesn't go unnoticed
+  if (state.resolvedItems && state.resolvedItems.length > 0) {
+    lines.push(
+      "<details>",
+      `<summary>Resolved since last push (${state.resolvedItems.length})</summary>`,
+      "",
+      ...state.resolvedItems.map(
+        (r) =>
+          `- ~~${r.check}~~ (\`${r.rule_id}\`)` +
+          (r.checked ? ` — was checked by @${r.checked_by ?? "unknown"}` : "")
+      ),
+      "",
+      "</details>",
+      ""
+    );
+  }
+
+  // Collapsed so it doesn't compete with the checklist, but visible enough to explain gaps
+  if (state.omittedContext && state.omittedContext.length > 0) {
+    lines.push(
+      "<details>",
+      "<summary>Not everything fit in the analysis budget</summary>",
+      "",
+      ...state.omittedContext.map((entry) => `- ${entry}`),
+      "",
+      "</details>",
+      ""
+    );
+  }
+
   lines.push(
     "---",
-    "_Generated by Deploy Checklist Bot | Re-analyze: push a new commit_"
+    "_Generated by Deploy Checklist Bot | Re-analyze: push a new commit or comment `/checklist reanalyze`_"
   );
+  if (state.usage) {
+    lines.push(formatUsage(state.usage));
+  }
 
   return lines.join("\n");
 }
 
+/** Generate a markdown checklist comment from analysis results. */
+export function generateChecklist(
+  result: AnalysisResult,
+  sha: string
+): string {
+  return renderChecklist(stateFromResult(result, sha));
+}
+
+/**
+ * Parse an existing bot comment into ChecklistState. Returns null if not a bot comment.
+ * Reads the hidden v2 state block first; comments without one (or with a corrupt one)
+ * fall back to the legacy v1 regex parser.
+ */
+export function parseChecklist(commentBody: string): ChecklistState | null {
+  if (!commentBody.includes(BOT_MARKER)) {
+    return null;
+  }
+
+  const persisted = decodeState(commentBody);
+  return persisted
+    ? parseStateBlock(commentBody, persisted)
+    : parseLegacyMarkdown(commentBody);
+}
+
+/**
+ * Merge old checklist state with new analysis results.
+ * Items are matched by fingerprint, then fuzzily (see matchItems); a matched item keeps
+ * its old ID, check state and history and is marked as carried over. Old items with no
+ * match are listed under "Resolved since last push".
+ */
+export function mergeChecklist(
+  oldState: ChecklistState,
+  newResult: AnalysisResult,
+  newSha: string
+): string {
+  const fresh = stateFromResult(newResult, newSha);
+  const matches = matchItems(
+    oldState.items,
+    fresh.items.map((i) => i.item)
+  );
+
+  const items = fresh.items.map((next, index) => {
+    const old = matches.get(index);
+    return old
+      ? {
+          ...next,
+          id: old.id,
+          checked: old.checked,
+          checkedBy: old.checkedBy,
+          checkedAt: old.checkedAt,
+          skipReason: old.skipReason,
+          history: old.history,
+          carriedOver: true,
+        }
+      : next;
+  });
+
+  const matched = new Set(matches.values());
+  const resolvedItems = toResolved(
+    oldState.items.filter((i) => !matched.has(i))
+  );
+
+  return renderChecklist(withCompletion({ ...fresh, items, resolvedItems }));
+}
+
+/**
+ * Apply an incremental re-analysis to the existing checklist: retired items are removed,
+ * new items are appended unchecked, and everything else is kept exactly as it was.
+ */
+export function applyChecklistUpdate(
+  oldState: ChecklistState,
+  update: IncrementalResult,
+  newSha: string
+): string {
+  const retired = new Set(update.retired_item_ids);
+  const kept = oldState.items
+    .filter((i) => !retired.has(i.id))
+    .map((i) => ({ ...i, carriedOver: true }));
+
+  // An "added" item identical to an existing one keeps the existing one and its state
+  const existingIds = new Set(kept.map((i) => i.id));
+  const added = update.items
+    .map((item) => ({ id: itemId(item), item, checked: false }))
+    .filter((i) => !existingIds.has(i.id));
+
+  const concerns = new Map(
+    [...oldState.openConcerns, ...update.open_concerns].map(
+      (c) => [`${c.file}\u0000${c.concern}`, c] as const
+    )
+  );
+
+  return renderChecklist(
+    withCompletion({
+      ...oldState,
+      version: 2,
+      sha: newSha,
+      summary: update.summary || oldState.summary,
+      openConcerns: [...concerns.values()],
+      // Notes from the earlier analysis still apply to the items carried over
+      omittedContext: [
+        ...new Set([
+          ...(oldState.omittedContext ?? []),
+          ...(update.omitted_context ?? []),
+        ]),
+      ],
+      items: [...kept, ...added],
+      resolvedItems: toResolved(
+        oldState.items.filter((i) => retired.has(i.id))
+      ),
+      usage: update.usage,
+      // An override covered the previous head only
+      override: undefined,
+    })
+  );
+}
+
+/**
+ * Three-way merge of checkbox state for a comment that changed while the bot was working.
+ * `baseBody` is what the bot read, `currentBody` what the comment holds now and `nextBody`
+ * what the bot is about to write. Items someone else toggled, skipped or stamped since
+ * `baseBody` take their state from `currentBody`, unless `nextBody` changed that item too —
+ * the bot's own change wins then. Returns `nextBody` unchanged if either side isn't a
+ * bot comment.
+ */
+export function mergeConcurrentEdits(
+  baseBody: string,
+  currentBody: string,
+  nextBody: string
+): string {
+  const next = parseChecklist(nextBody);
+  const current = parseChecklist(currentBody);
+  if (!next || !current) return nextBody;
+
+  const base = new Map(
+    (parseChecklist(baseBody)?.items ?? []).map((i) => [i.id, i])
+  );
+  const theirs = new Map(current.items.map((i) => [i.id, i]));
+  const edited = (a: ChecklistItemState, b: ChecklistItemState) =>
+    a.checked !== b.checked ||
+    (a.history?.length ?? 0) !== (b.history?.length ?? 0);
+
+  let merged = 0;
+  const items = next.items.map((i) => {
+    const before = base.get(i.id);
+    const now = theirs.get(i.id);
+    if (!before || !now || !edited(before, now) || edited(before, i)) return i;
+    merged++;
+    return {
+      ...i,
+      checked: now.checked,
+      checkedBy: now.checkedBy,
+      checkedAt: now.checkedAt,
+      skipReason: now.skipReason,
+      history: now.history,
+    };
+  });
+
+  if (merged === 0) return nextBody;
+  return renderChecklist(withCompletion({ ...next, items }));
+}
+
+/**
+ * Check off every item produced by a rule, recording who skipped it and why.
+ * Returns the re-rendered body and how many items were skipped (0 = unknown rule,
+ * in which case the body is returned unchanged).
+ */
+export function skipRule(
+  commentBody: string,
+  ruleId: string,
+  skippedBy: string,
+  reason: string,
+  now: Date = new Date()
+): { body: string; skipped: number } {
+  const state = parseChecklist(commentBody);
+  if (!state) return { body: commentBody, skipped: 0 };
+
+  let skipped = 0;
+  const items = state.items.map((i) => {
+    if (i.item.rule_id !== ruleId) return i;
+    skipped++;
+    const at = now.toISOString();
+    return {
+      ...i,
+      checked: true,
+      checkedBy: skippedBy,
+      checkedAt: at,
+      skipReason: reason,
+      history: [
+        ...(i.history ?? []),
+        { action: "skipped" as const, by: skippedBy, at, reason },
+      ],
+    };
+  });
+
+  if (skipped === 0) return { body: commentBody, skipped };
+  return { body: renderChecklist(withCompletion({ ...state, items })), skipped };
+}
+
+/** A state without its checkboxes, for telling checkbox edits from everything else. */
+function withoutCheckboxes(state: ChecklistState): string {
+  return JSON.stringify({
+    ...state,
+    allComplete: undefined,
+    items: state.items.map(({ checked: _checked, ...rest }) => rest),
+  });
+}
+
+/**
+ * Attribute checkbox toggles between two versions of the bot comment.
+ * GitHub only delivers the before/after bodies, so whoever saved the edit
+ * is recorded as having toggled every item whose checkbox changed.
+ * Only the checkboxes are the editor's: items, their rules and audit history come from
+ * the previous version, so an edited state block can't add, rename or re-rule an item
+ * to dodge its approvers. `restored` says the edit changed more and was undone. Without
+ * a previous checklist every checked item counts as toggled.
+ * Returns null if the current body is not a bot comment.
+ */
+export function recordToggles(
+  previousBody: string,
+  currentBody: string,
+  by: string,
+  at: string
+): { state: ChecklistState; toggled: string[]; restored: boolean } | null {
+  const current = parseChecklist(currentBody);
+  if (!current) return null;
+
+  const previous = parseChecklist(previousBody) ?? {
+    ...current,
+    items: current.items.map((i) => ({ ...i, checked: false })),
+  };
+  const restored = withoutCheckboxes(previous) !== withoutCheckboxes(current);
+
+  // Items missing from the current body keep their previous checkbox
+  const checkboxes = new Map(current.items.map((i) => [i.id, i.checked]));
+
+  const toggled: string[] = [];
+  const items = previous.items.map((i) => {
+    const checked = checkboxes.get(i.id) ?? i.checked;
+    if (checked === i.checked) return i;
+
+    toggled.push(i.id);
+    const action = checked ? ("checked" as const) : ("unchecked" as const);
+    const history = [...(i.history ?? []), { action, by, at }];
+    return checked
+      ? { ...i, checked, checkedBy: by, checkedAt: at, history }
+      : {
+          ...i,
+          checked,
+          checkedBy: undefined,
+          checkedAt: undefined,
+          skipReason: undefined,
+          history,
+        };
+  });
+
+  return { state: withCompletion({ ...previous, items }), toggled, restored };
+}
+
+/**
+ * Un-check items whose check was not authorized, recording why in their history.
+ * `reverts` maps item ID → human-readable reason; `by` is the user being reverted.
+ */
+export function revertChecks(
+  state: ChecklistState,
+  reverts: Map<string, string>,
+  by: string,
+  at: string
+): ChecklistState {
+  const items = state.items.map((i) => {
+    const reason = reverts.get(i.id);
+    if (reason === undefined) return i;
+    return {
+      ...i,
+      checked: false,
+      checkedBy: undefined,
+      checkedAt: undefined,
+      history: [
+        ...(i.history ?? []),
+        { action: "reverted" as const, by, at, reason },
+      ],
+    };
+  });
+
+  return withCompletion({ ...state, items });
+}
+
+/**
+ * Record a break-glass override: every unchecked item gets an "overridden" history event
+ * and the state carries who overrode it, why and the follow-up issue. Items stay unchecked.
+ */
+export function recordOverride(
+  state: ChecklistState,
+  by: string,
+  reason: string,
+  followUpIssue: number | undefined,
+  at: string
+): ChecklistState {
+  const items = state.items.map((i) =>
+    i.checked
+      ? i
+      : {
+          ...i,
+          history: [
+            ...(i.history ?? []),
+            { action: "overridden" as const, by, at, reason },
+          ],
+        }
+  );
+
+  return withCompletion({
+    ...state,
+    items,
+    override: { by, at, reason, follow_up_issue: followUpIssue },
+  });
+}
+
+/** Flatten every item's history into chronological rows for compliance exports. */
+export function auditTrail(state: ChecklistState): AuditRecord[] {
+  return state.items
+    .flatMap(({ id, item, history }) =>
+      (history ?? []).map((event) => ({
+        ...event,
+        item_id: id,
+        rule_id: item.rule_id,
+        check: item.check,
+      }))
+    )
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
 /**
  * Check if all items in a checklist comment are checked off.
  * Returns true for non-bot comments or comments with no items (nothing to block on).
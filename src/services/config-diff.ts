@@ -0,0 +1,208 @@
+import type { ConfigSource, DeployChecklistConfig } from "../schemas/config.js";
+import type {
+  AnalysisResult,
+  ChecklistItem,
+} from "../schemas/analysis-result.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** rule_id of the mandatory item added when a PR changes the effective config. */
+export const CONFIG_CHANGE_RULE_ID = "deploy-checklist-config";
+
+/** Hidden marker so the preview comment is updated in place instead of re-posted. */
+export const CONFIG_PREVIEW_MARKER = "<!-- deploy-checklist-config-preview -->";
+
+// Keep the checklist item short — the full list lives in the preview comment
+const MAX_ITEM_CHANGES = 5;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How the config at the PR head differs from the enforced base config. */
+export interface ConfigChange {
+  // One human-readable line per effective change
+  changes: string[];
+
+  // Set when the head config fails to load — the diff is meaningless then
+  headWarning?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function show(value: unknown): string {
+  return value === undefined ? "unset" : `\`${JSON.stringify(value)}\``;
+}
+
+/** Names of the top-level fields that differ between two versions of a rule or skill. */
+function changedFields<T extends object>(base: T, head: T): string[] {
+  const keys = new Set([...Object.keys(base), ...Object.keys(head)]);
+  return [...keys].filter(
+    (key) =>
+      JSON.stringify(base[key as keyof T]) !==
+      JSON.stringify(head[key as keyof T])
+  );
+}
+
+/** "added"/"removed"/"modified (fields)" lines for two lists of objects keyed by id. */
+function diffById<T extends { id: string }>(
+  label: string,
+  base: T[],
+  head: T[]
+): string[] {
+  const changes: string[] = [];
+  const baseById = new Map(base.map((entry) => [entry.id, entry]));
+  const headById = new Map(head.map((entry) => [entry.id, entry]));
+
+  for (const [id, entry] of baseById) {
+    const headEntry = headById.get(id);
+    if (!headEntry) {
+      changes.push(`${label} \`${id}\` removed`);
+      continue;
+    }
+    const fields = changedFields(entry, headEntry);
+    if (fields.length > 0) {
+      changes.push(`${label} \`${id}\` modified (${fields.join(", ")})`);
+    }
+  }
+  for (const id of headById.keys()) {
+    if (!baseById.has(id)) changes.push(`${label} \`${id}\` added`);
+  }
+
+  return changes;
+}
+
+/** "<label> `id` disabled"/"re-enabled" lines for two lists of disabled ids. */
+function diffDisabled(label: string, base: string[], head: string[]): string[] {
+  return [
+    ...head
+      .filter((id) => !base.includes(id))
+      .map((id) => `${label} \`${id}\` disabled`),
+    ...base
+      .filter((id) => !head.includes(id))
+      .map((id) => `${label} \`${id}\` re-enabled`),
+  ];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two resolved configs and describe every effective difference:
+ * rules added/removed/modified or disabled, settings, skills disabled, custom skills,
+ * skill overrides and repo context.
+ */
+export function diffConfigs(
+  base: DeployChecklistConfig,
+  head: DeployChecklistConfig
+): string[] {
+  const changes: string[] = [
+    ...diffById("Rule", base.rules, head.rules),
+    ...diffDisabled("Rule", base.disable_rules, head.disable_rules),
+  ];
+
+  const settingKeys = new Set([
+    ...Object.keys(base.settings),
+    ...Object.keys(head.settings),
+  ]) as Set<keyof DeployChecklistConfig["settings"]>;
+  for (const key of settingKeys) {
+    const from = base.settings[key];
+    const to = head.settings[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push(`Setting \`${key}\`: ${show(from)} → ${show(to)}`);
+    }
+  }
+
+  changes.push(
+    ...diffDisabled("Skill", base.skills.disable, head.skills.disable),
+    ...diffById("Custom skill", base.skills.custom, head.skills.custom)
+  );
+
+  const skillIds = new Set([
+    ...Object.keys(base.skills.overrides),
+    ...Object.keys(head.skills.overrides),
+  ]);
+  for (const id of skillIds) {
+    if (
+      JSON.stringify(base.skills.overrides[id]) !==
+      JSON.stringify(head.skills.overrides[id])
+    ) {
+      changes.push(`Skill override \`${id}\` changed`);
+    }
+  }
+
+  if ((base.context ?? "") !== (head.context ?? "")) {
+    changes.push("Repository `context` changed");
+  }
+
+  return changes;
+}
+
+/**
+ * Render the comment listing how the PR's config changes the effective config. Under
+ * base enforcement (the default) that is what changes once merged; with
+ * `config_source: head` the PR is already analyzed with it.
+ */
+export function formatConfigPreview(
+  change: ConfigChange,
+  configSource: ConfigSource = "base"
+): string {
+  const lines = [
+    `## Deploy Checklist — Config Change Preview`,
+    "",
+    CONFIG_PREVIEW_MARKER,
+    "",
+  ];
+
+  if (change.headWarning) {
+    lines.push(
+      "This PR changes the deploy checklist config, but the new config fails to load:",
+      "",
+      change.headWarning
+    );
+  } else {
+    lines.push(
+      configSource === "head"
+        ? "This PR changes the deploy checklist config, and is analyzed with it. " +
+            "Compared with the base branch, the effective config changes as follows:"
+        : "This PR changes the deploy checklist config. The base branch config is still " +
+            "enforced for this PR; once merged, the effective config changes as follows:",
+      "",
+      ...change.changes.map((c) => `- ${c}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Prepend the mandatory "review config changes" item to an analysis result,
+ * so the PR is blocked until someone signs off the new rules.
+ */
+export function withConfigChangeItem(
+  result: AnalysisResult,
+  change: ConfigChange
+): AnalysisResult {
+  const shown = change.changes.slice(0, MAX_ITEM_CHANGES);
+  const more = change.changes.length - shown.length;
+  const description = change.headWarning
+    ? "The config in this PR fails to load — fix it before merging."
+    : shown.join("; ") + (more > 0 ? `; and ${more} more` : "");
+
+  const item: ChecklistItem = {
+    rule_id: CONFIG_CHANGE_RULE_ID,
+    check: "Review deploy checklist config changes",
+    description,
+    reasoning:
+      "This PR changes the deploy checklist config. It is enforced from the base " +
+      "branch, so these changes only take effect after merge and need explicit sign-off.",
+    priority: "high",
+  };
+
+  return { ...result, items: [item, ...result.items] };
+}
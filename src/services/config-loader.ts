@@ -4,6 +4,7 @@ import {
   DeployChecklistConfigSchema,
   type DeployChecklistConfig,
 } from "../schemas/config.js";
+import { diffConfigs, type ConfigChange } from "./config-diff.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -15,17 +16,35 @@ const CONFIG_PATHS = [
   ".deploy-checklist.json",
 ];
 
+// Org-wide defaults live in the root of the org's `.github` repo
+const ORG_CONFIG_REPO = ".github";
+const ORG_CONFIG_PATHS = [
+  "deploy-checklist.yml",
+  "deploy-checklist.yaml",
+  "deploy-checklist.json",
+];
+
+// Guards against runaway `extends` chains that don't form an exact cycle
+const MAX_EXTENDS_DEPTH = 5;
+
+/** Where an `extends` reference points. `paths` are tried in order, first found wins. */
+interface ConfigSource {
+  owner: string;
+  repo: string;
+  paths: string[];
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Fetch a file from the repo at a given ref. Returns null on 404. */
+/** Fetch a file from the repo at a given ref (default branch when omitted). Returns null on 404. */
 async function fetchFileContent(
   context: Context,
   owner: string,
   repo: string,
   path: string,
-  ref: string
+  ref?: string
 ): Promise<string | null> {
   try {
     const response = await context.octokit.rest.repos.getContent({
@@ -64,6 +83,181 @@ function parseConfigContent(
   return parseYaml(content) as Record<string, unknown>;
 }
 
+/** Fetch the first config file that exists among `paths`. */
+async function fetchFirstConfig(
+  context: Context,
+  owner: string,
+  repo: string,
+  paths: string[],
+  ref?: string
+): Promise<{ path: string; content: string } | null> {
+  for (const path of paths) {
+    const content = await fetchFileContent(context, owner, repo, path, ref);
+    if (content !== null) return { path, content };
+  }
+  return null;
+}
+
+/**
+ * Parse an `extends` value: "org/repo:path/to/file.yml", "org/repo" or "repo:file.yml".
+ * A bare repo name resolves against the current owner; a missing path tries the org config paths.
+ */
+function parseExtendsRef(value: string, currentOwner: string): ConfigSource {
+  const [repoPart, path] = value.split(":", 2);
+  const [owner, repo] = repoPart.includes("/")
+    ? repoPart.split("/", 2)
+    : [currentOwner, repoPart];
+
+  if (!owner || !repo) {
+    throw new Error(
+      `Invalid \`extends\` value "${value}" — expected "org/repo:path/to/config.yml".`
+    );
+  }
+
+  return { owner, repo, paths: path ? [path] : ORG_CONFIG_PATHS };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Recursively merge objects. Arrays and scalars from `override` replace the base value. */
+function deepMerge(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? deepMerge(current, value)
+        : value;
+  }
+  return merged;
+}
+
+/** Merge rule lists by id — a local rule replaces the inherited rule with the same id. */
+function mergeRules(base: unknown, local: unknown): unknown[] {
+  const merged = Array.isArray(base) ? [...base] : [];
+  for (const rule of Array.isArray(local) ? local : []) {
+    const index = merged.findIndex(
+      (r) => isPlainObject(r) && isPlainObject(rule) && r.id === rule.id
+    );
+    if (index === -1) {
+      merged.push(rule);
+    } else {
+      merged[index] = rule;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Layer a repo's raw config over the config it extends.
+ * Settings and skill overrides deep-merge, rules merge by id, context is appended
+ * (org context first), and disable_rules accumulates across levels.
+ */
+function mergeConfigs(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = deepMerge(base, local);
+
+  if (base.rules !== undefined || local.rules !== undefined) {
+    merged.rules = mergeRules(base.rules, local.rules);
+  }
+
+  if (typeof base.context === "string" && typeof local.context === "string") {
+    merged.context = `${base.context.trimEnd()}\n\n${local.context}`;
+  }
+
+  if (Array.isArray(base.disable_rules) && Array.isArray(local.disable_rules)) {
+    merged.disable_rules = [
+      ...new Set([...base.disable_rules, ...local.disable_rules]),
+    ];
+  }
+
+  return merged;
+}
+
+/** Drop rules listed in disable_rules — lets a repo opt out of inherited org rules. */
+function applyDisabledRules(
+  raw: Record<string, unknown>
+): Record<string, unknown> {
+  const disabled = Array.isArray(raw.disable_rules) ? raw.disable_rules : [];
+  if (disabled.length === 0 || !Array.isArray(raw.rules)) return raw;
+
+  return {
+    ...raw,
+    rules: raw.rules.filter(
+      (rule) => !(isPlainObject(rule) && disabled.includes(rule.id))
+    ),
+  };
+}
+
+/**
+ * Follow a raw config's `extends` chain and return the merged raw config, without `extends`.
+ * Extended configs are read from the target repo's default branch.
+ */
+async function resolveExtends(
+  context: Context,
+  raw: Record<string, unknown>,
+  owner: string,
+  seen: Set<string>
+): Promise<Record<string, unknown>> {
+  const { extends: parentRef, ...local } = raw;
+  if (parentRef === undefined) {
+    return local;
+  }
+  if (typeof parentRef !== "string") {
+    throw new Error(
+      '`extends` must be a string like "org/.github:deploy-checklist.yml".'
+    );
+  }
+  if (seen.size >= MAX_EXTENDS_DEPTH) {
+    throw new Error(
+      `\`extends\` chain is deeper than ${MAX_EXTENDS_DEPTH} levels.`
+    );
+  }
+
+  const source = parseExtendsRef(parentRef, owner);
+  const key = `${source.owner}/${source.repo}:${source.paths.join(",")}`;
+  if (seen.has(key)) {
+    throw new Error(`\`extends\` cycle detected at "${parentRef}".`);
+  }
+
+  const file = await fetchFirstConfig(
+    context,
+    source.owner,
+    source.repo,
+    source.paths
+  );
+  if (!file) {
+    throw new Error(`Extended config "${parentRef}" was not found.`);
+  }
+
+  const parentRaw = parseConfigContent(file.content, file.path) ?? {};
+  const parent = await resolveExtends(
+    context,
+    parentRaw,
+    source.owner,
+    new Set([...seen, key])
+  );
+
+  return mergeConfigs(parent, local);
+}
+
+/** Resolve `extends`, apply disable_rules, then validate the merged result. */
+async function resolveConfig(
+  context: Context,
+  raw: Record<string, unknown>,
+  owner: string
+): Promise<DeployChecklistConfig> {
+  const resolved = await resolveExtends(context, raw, owner, new Set());
+  return DeployChecklistConfigSchema.parse(applyDisabledRules(resolved));
+}
+
 /** Build a default config. Built-in skills handle concern detection — no default rules needed. */
 function buildDefaultConfig(): DeployChecklistConfig {
   return {
@@ -74,8 +268,23 @@ function buildDefaultConfig(): DeployChecklistConfig {
       target_branches: [],
       post_empty_checklist: false,
       max_diff_size: 100000,
+      large_diff_strategy: "truncate",
+      max_prompt_tokens: 60000,
+      gate_mode: "review",
+      config_source: "base",
+      analysis_mode: "llm",
+      max_output_tokens: 4000,
+      usage_footer: false,
+      labels: {
+        skip: "",
+        reanalyze: "deploy-checklist:reanalyze",
+        override: "hotfix",
+      },
+      override_approvers: [],
     },
     rules: [],
+    disable_rules: [],
+    skills: { disable: [], overrides: {}, custom: [] },
   };
 }
 
@@ -85,7 +294,8 @@ function buildDefaultConfig(): DeployChecklistConfig {
 
 /**
  * Load the deploy checklist config for a repo.
- * Tries config paths in order, validates with Zod, merges with defaults.
+ * Tries config paths in order, falling back to the org's `.github` repo when the repo has
+ * none. Resolves `extends`, validates the merged result with Zod, and applies defaults.
  * Falls back to defaults on any error and returns an optional warning.
  */
 export async function loadConfig(
@@ -95,27 +305,24 @@ export async function loadConfig(
   ref: string
 ): Promise<{ config: DeployChecklistConfig; warning?: string }> {
   // Try each config path in priority order — first one found wins
-  for (const path of CONFIG_PATHS) {
-    const content = await fetchFileContent(context, owner, repo, path, ref);
-    if (content === null) continue;
-
+  const local = await fetchFirstConfig(context, owner, repo, CONFIG_PATHS, ref);
+  if (local) {
     try {
-      const raw = parseConfigContent(content, path);
+      const raw = parseConfigContent(local.content, local.path);
 
       // Empty config file = use defaults (user might have an empty .yml placeholder)
       if (!raw || Object.keys(raw).length === 0) {
         return { config: buildDefaultConfig() };
       }
 
-      const parsed = DeployChecklistConfigSchema.parse(raw);
-      return { config: parsed };
+      return { config: await resolveConfig(context, raw, owner) };
     } catch (error: unknown) {
       const message =
         error instanceof Error ? error.message : String(error);
       return {
         config: buildDefaultConfig(),
         warning:
-          `⚠️ **Deploy Checklist Bot**: Failed to parse config file \`${path}\`.\n\n` +
+          `⚠️ **Deploy Checklist Bot**: Failed to load config file \`${local.path}\`.\n\n` +
           `Error: ${message}\n\n` +
           `Using default rules instead. ` +
           `Please fix the config file to customize behavior.`,
@@ -123,6 +330,87 @@ export async function loadConfig(
     }
   }
 
+  // No repo config — inherit the org-wide config, if there is one
+  try {
+    const org = await fetchFirstConfig(
+      context,
+      owner,
+      ORG_CONFIG_REPO,
+      ORG_CONFIG_PATHS
+    );
+    if (org) {
+      const raw = parseConfigContent(org.content, org.path) ?? {};
+      return { config: await resolveConfig(context, raw, owner) };
+    }
+  } catch (error: unknown) {
+    // A broken org config shouldn't put a warning on every PR in every repo — log it instead
+    context.log.warn(
+      `Failed to load org config from ${owner}/${ORG_CONFIG_REPO}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
   // No config file found — use defaults
   return { config: buildDefaultConfig() };
 }
+
+/**
+ * Load the config that governs a PR. `settings.config_source` is always read from the
+ * base branch, so a PR can't switch itself over to its own (possibly loosened) config.
+ */
+export async function loadEffectiveConfig(
+  context: Context,
+  owner: string,
+  repo: string,
+  pr: { head: { sha: string }; base: { ref: string } }
+): Promise<{ config: DeployChecklistConfig; warning?: string }> {
+  const base = await loadConfig(context, owner, repo, pr.base.ref);
+  if (base.config.settings.config_source === "head") {
+    return loadConfig(context, owner, repo, pr.head.sha);
+  }
+  return base;
+}
+
+/** True when a changed file is one of the paths loadConfig reads. */
+export function isConfigPath(path: string): boolean {
+  return CONFIG_PATHS.includes(path);
+}
+
+/**
+ * Describe how the config at the PR head differs from the enforced base config.
+ * Returns null when the edit has no effective change (comments, formatting).
+ */
+export async function loadConfigChange(
+  context: Context,
+  owner: string,
+  repo: string,
+  baseConfig: DeployChecklistConfig,
+  headSha: string
+): Promise<ConfigChange | null> {
+  const head = await loadConfig(context, owner, repo, headSha);
+  if (head.warning) {
+    return { changes: [], headWarning: head.warning };
+  }
+
+  const changes = diffConfigs(baseConfig, head.config);
+  return changes.length > 0 ? { changes } : null;
+}
+
+/**
+ * Load config for a PR outside the pull_request flow (comment edits, commands),
+ * where the webhook payload doesn't carry the PR head. Fetches the PR first.
+ */
+export async function loadConfigForPR(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<{ config: DeployChecklistConfig; headSha: string; author: string }> {
+  const { data: pr } = await context.octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: prNumber,
+  });
+  const { config } = await loadEffectiveConfig(context, owner, repo, pr);
+
+  return { config, headSha: pr.head.sha, author: pr.user?.login ?? "" };
+}
@@ -0,0 +1,145 @@
+import { minimatch } from "minimatch";
+import type {
+  AnalysisResult,
+  ChecklistItem,
+} from "../schemas/analysis-result.js";
+import type { Rule } from "../schemas/config.js";
+import {
+  computeUncoveredFiles,
+  matchesContent,
+  matchesPaths,
+  type Skill,
+} from "../skills/index.js";
+import { parseDiffFiles } from "../utils/diff-truncation.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A skill or rule that fired, reduced to what the checklist needs. */
+interface Match {
+  id: string;
+  name: string;
+  checks: string[];
+  files: string[];
+  reasoning: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function describeFiles(files: string[]): string {
+  return files.length > 0
+    ? `Matched files: ${files.join(", ")}`
+    : "Matched content in the diff.";
+}
+
+/**
+ * Attribute an active skill to files: path globs first, then re-running detect()
+ * on each file's own diff section (catches content-only skills like env-vars).
+ */
+function skillMatch(skill: Skill, sections: Map<string, string>): Match {
+  const files = [...sections].filter(
+    ([file, content]) =>
+      matchesPaths([file], skill.paths) || skill.detect([file], content)
+  );
+
+  const matched = files.map(([file]) => file);
+  return {
+    id: skill.id,
+    name: skill.name,
+    checks: skill.checks,
+    files: matched,
+    reasoning: describeFiles(matched),
+  };
+}
+
+/**
+ * Evaluate a custom rule's trigger locally — the same semantics Claude is asked to apply.
+ * paths/content fire on a match; missing_companion narrows that to "and no companion changed".
+ */
+function ruleMatch(rule: Rule, sections: Map<string, string>): Match | null {
+  const { paths = [], content = [], missing_companion = [] } = rule.trigger;
+  const files = [...sections.keys()];
+
+  let matched: string[];
+  try {
+    matched = files.filter(
+      (file) =>
+        paths.some((p) => minimatch(file, p, { dot: true })) ||
+        (content.length > 0 &&
+          matchesContent(sections.get(file) ?? "", content))
+    );
+  } catch {
+    // Rule content patterns aren't validated as regexes — an invalid one just never matches
+    return null;
+  }
+  if (matched.length === 0) return null;
+
+  if (missing_companion.length > 0) {
+    if (matchesPaths(files, missing_companion)) return null;
+    return {
+      id: rule.id,
+      name: rule.description,
+      checks: rule.checks,
+      files: matched,
+      reasoning:
+        `${describeFiles(matched)}. No expected companion file changed ` +
+        `(${missing_companion.join(", ")}).`,
+    };
+  }
+
+  return {
+    id: rule.id,
+    name: rule.description,
+    checks: rule.checks,
+    files: matched,
+    reasoning: describeFiles(matched),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a checklist without an LLM: one item per check of every active skill and every
+ * custom rule whose trigger matches locally, with the matched files as reasoning.
+ * Used by analysis_mode "deterministic", and by "hybrid" when Claude fails.
+ */
+export function buildDeterministicResult(
+  diff: string,
+  activeSkills: Skill[],
+  rules: Rule[],
+  summary: string
+): AnalysisResult {
+  const sections = new Map(
+    parseDiffFiles(diff).map((f) => [f.filename, f.content])
+  );
+
+  const matches = [
+    ...activeSkills.map((skill) => skillMatch(skill, sections)),
+    ...rules
+      .map((rule) => ruleMatch(rule, sections))
+      .filter((m): m is Match => m !== null),
+  ];
+
+  const items: ChecklistItem[] = matches.flatMap((match) =>
+    match.checks.map((check) => ({
+      rule_id: match.id,
+      check,
+      description: match.name,
+      reasoning: match.reasoning,
+      priority: "medium" as const,
+      files: match.files.length > 0 ? match.files : undefined,
+    }))
+  );
+
+  return {
+    items,
+    summary,
+    uncovered_files: computeUncoveredFiles([...sections.keys()], activeSkills),
+    open_concerns: [],
+  };
+}
@@ -1,17 +1,64 @@
-import Anthropic from "@anthropic-ai/sdk";
+import type { z } from "zod";
 import type { Context } from "probot";
 import {
   AnalysisResultSchema,
+  IncrementalResultSchema,
   type AnalysisResult,
+  type AnalysisUsage,
+  type ChecklistItem,
+  type ChecklistItemState,
+  type IncrementalResult,
   type PRMetadata,
 } from "../schemas/analysis-result.js";
-import type { DeployChecklistConfig, Rule } from "../schemas/config.js";
-import { SYSTEM_PROMPT, buildUserPrompt } from "../prompts/analysis.js";
-import { truncateDiff } from "../utils/diff-truncation.js";
+import type {
+  DeployChecklistConfig,
+  Rule,
+  Settings,
+} from "../schemas/config.js";
+import {
+  SYSTEM_PROMPT,
+  INCREMENTAL_SYSTEM_PROMPT,
+} from "../prompts/analysis.js";
+import { chunkDiff, type DiffChunk } from "../utils/diff-chunking.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { withRetry } from "../utils/retry.js";
+import { counter, histogram } from "../utils/metrics.js";
+import { buildDeterministicResult } from "./deterministic-analyzer.js";
+import {
+  estimateTokens,
+  listNames,
+  planPrompt,
+  type PromptInputs,
+} from "./prompt-budget.js";
+import { analysisCacheKey, getAnalysisCache } from "./analysis-cache.js";
+import {
+  createLlmProvider,
+  resolveLlmProviderName,
+  NO_USAGE,
+  type LlmProvider,
+  type ToolCallRequest,
+  type ToolCallResponse,
+  type ToolDefinition,
+  type ToolTurn,
+  type TokenUsage,
+} from "./llm-provider.js";
+import {
+  addTokens,
+  budgetStatus,
+  recordUsage,
+  summarizeUsage,
+} from "./usage.js";
+import {
+  AnalysisError,
+  isRetryable,
+  classifyError,
+  toAnalysisError,
+} from "./analysis-errors.js";
 import { minimatch } from "minimatch";
 import {
   detectActiveSkills,
   computeUncoveredFiles,
+  resolveSkills,
   type Skill,
 } from "../skills/index.js";
 
@@ -19,56 +66,357 @@ import {
 // Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-const DEFAULT_MODEL = "claude-sonnet-4-5-20250929";
+// Transient API failures (429, 5xx, overloaded, network) are retried with jittered backoff
+const MAX_API_ATTEMPTS = 4;
+const DEFAULT_RETRY_BASE_MS = 1000;
+const MAX_RETRY_DELAY_MS = 20000;
+
+// A response that fails AnalysisResultSchema gets this many chances to correct itself
+const MAX_SCHEMA_REPAIRS = 1;
+
+// Chunked analysis of diffs over max_diff_size: batches in flight at once, and the batch
+// count past which batches grow instead of multiplying (bounds API cost on huge PRs)
+const CHUNK_CONCURRENCY = 3;
+const MAX_CHUNKS = 8;
+
+// outcome: succeeded (LLM or cache), failed, fallback (hybrid mode's deterministic result
+// after a failure) or deterministic (deterministic mode, or the monthly budget is spent)
+const analyses = counter(
+  "deploy_checklist_analyses_total",
+  "Analyses run, by kind (full, incremental) and outcome",
+  ["kind", "outcome"]
+);
+const llmRetries = counter(
+  "deploy_checklist_llm_retries_total",
+  "LLM calls retried after a transient failure, by failure class",
+  ["provider", "failure_class"]
+);
+const diffSize = histogram(
+  "deploy_checklist_diff_size_chars",
+  "Size of analyzed diffs in characters",
+  [1000, 5000, 10000, 25000, 50000, 100000, 250000, 500000],
+  ["kind"]
+);
+const llmLatency = histogram(
+  "deploy_checklist_llm_request_duration_seconds",
+  "Latency of single LLM API calls, including failed attempts",
+  [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+  ["provider"]
+);
+
+/**
+ * Where and how one analysis calls the LLM, resolved per analysis by llmTarget.
+ * `calls` and `tokens` accumulate across every call of the analysis (chunks, repairs).
+ */
+interface LlmTarget {
+  provider: LlmProvider;
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  calls: number;
+  tokens: TokenUsage;
+}
+
+/** Who an analysis's LLM usage is attributed to. */
+interface UsageAttribution {
+  owner: string;
+  repo: string;
+  pullNumber?: number;
+}
+
+const PRIORITY_RANK: Record<ChecklistItem["priority"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Tool use definition — submitted to Claude to enforce structured output
+// Tool definitions — the model is forced to call one, which enforces structured output
 // ─────────────────────────────────────────────────────────────────────────────
 
-const SUBMIT_ANALYSIS_TOOL = {
+const CHECKLIST_ITEMS_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      rule_id:     { type: "string" },
+      check:       { type: "string", description: "Short imperative label (5-8 words) shown as the checklist title, e.g. 'Verify rollback exists'" },
+      description: { type: "string" },
+      reasoning:   { type: "string" },
+      priority:    { type: "string", enum: ["high", "medium", "low"] as string[] },
+      files:       { type: "array", items: { type: "string" }, description: "Changed file paths this item concerns, exactly as they appear in the diff" },
+      key:         { type: "string", description: "Short kebab-case name for the underlying concern, independent of wording, e.g. 'users-email-backfill'" },
+    },
+    required: ["rule_id", "check", "description", "reasoning", "priority"] as string[],
+  },
+};
+
+const OPEN_CONCERNS_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      file:    { type: "string" },
+      concern: { type: "string" },
+    },
+    required: ["file", "concern"] as string[],
+  },
+};
+
+const SUBMIT_ANALYSIS_TOOL: ToolDefinition = {
   name: "submit_analysis",
   description: "Submit the structured deploy checklist analysis for this PR.",
   input_schema: {
-    type: "object" as const,
+    type: "object",
     properties: {
-      items: {
-        type: "array",
-        items: {
-          type: "object",
-          properties: {
-            rule_id:     { type: "string" },
-            check:       { type: "string", description: "Short imperative label (5-8 words) shown as the checklist title, e.g. 'Verify rollback exists'" },
-            description: { type: "string" },
-            reasoning:   { type: "string" },
-            priority:    { type: "string", enum: ["high", "medium", "low"] as string[] },
-          },
-          required: ["rule_id", "check", "description", "reasoning", "priority"] as string[],
-        },
-      },
+      items:           CHECKLIST_ITEMS_SCHEMA,
       summary:         { type: "string" },
       uncovered_files: { type: "array", items: { type: "string" } },
-      open_concerns: {
-        type: "array",
-        items: {
-          type: "object",
-          properties: {
-            file:    { type: "string" },
-            concern: { type: "string" },
-          },
-          required: ["file", "concern"] as string[],
-        },
-      },
+      open_concerns:   OPEN_CONCERNS_SCHEMA,
     },
     required: ["items", "summary"] as string[],
   },
 };
 
+const SUBMIT_CHECKLIST_UPDATE_TOOL: ToolDefinition = {
+  name: "submit_checklist_update",
+  description: "Submit the changes to the existing deploy checklist caused by the new commits.",
+  input_schema: {
+    type: "object",
+    properties: {
+      items:            { ...CHECKLIST_ITEMS_SCHEMA, description: "New items for risks the existing checklist does not cover" },
+      retired_item_ids: { type: "array", items: { type: "string" }, description: "ids of existing items the new commits made irrelevant" },
+      summary:          { type: "string", description: "One-sentence risk summary of the whole PR after these commits" },
+      open_concerns:    OPEN_CONCERNS_SCHEMA,
+    },
+    required: ["items", "retired_item_ids", "summary"] as string[],
+  },
+};
+
+// Sent with every request — counted against max_prompt_tokens before any section
+const FIXED_PROMPT_TOKENS = estimateTokens(
+  SYSTEM_PROMPT + JSON.stringify(SUBMIT_ANALYSIS_TOOL)
+);
+const INCREMENTAL_FIXED_PROMPT_TOKENS = estimateTokens(
+  INCREMENTAL_SYSTEM_PROMPT + JSON.stringify(SUBMIT_CHECKLIST_UPDATE_TOOL)
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-function createAnthropicClient(): Anthropic {
-  return new Anthropic();
+/**
+ * The provider selected for this repo (see resolveLlmProviderName), with the model chosen
+ * by resolveModel for this diff — or `budgetModel` once the monthly budget is spent.
+ * A misconfigured provider throws an AnalysisError.
+ */
+function llmTarget(
+  context: Context,
+  config: DeployChecklistConfig,
+  diffSize: number,
+  activeSkills: Skill[],
+  budgetModel?: string
+): LlmTarget {
+  let provider: LlmProvider;
+  try {
+    provider = createLlmProvider(
+      resolveLlmProviderName(config.settings.llm_provider)
+    );
+  } catch (error: unknown) {
+    throw toAnalysisError(error);
+  }
+
+  const { model, reason } = budgetModel
+    ? { model: budgetModel, reason: "monthly budget spent — budget.fallback_model" }
+    : resolveModel(
+        config.settings,
+        provider.defaultModel,
+        diffSize,
+        activeSkills.map((s) => s.id)
+      );
+  context.log.info(`Using ${provider.name} model ${model} (${reason})`);
+
+  return {
+    provider,
+    model,
+    maxTokens: config.settings.max_output_tokens,
+    temperature: config.settings.temperature,
+    calls: 0,
+    tokens: NO_USAGE,
+  };
+}
+
+/**
+ * Summarize and record what the target's calls used. Returns undefined when no call
+ * returned (nothing was billed). Recording failures are logged, never thrown.
+ */
+async function finishUsage(
+  context: Context,
+  target: LlmTarget,
+  attribution: UsageAttribution
+): Promise<AnalysisUsage | undefined> {
+  if (target.calls === 0) return undefined;
+
+  const usage = summarizeUsage(
+    target.provider.name,
+    target.model,
+    target.calls,
+    target.tokens
+  );
+  try {
+    await recordUsage(context, attribution, usage);
+  } catch (error: unknown) {
+    context.log.warn(
+      `Recording LLM usage failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return usage;
+}
+
+/** One provider call, retried on transient failures. Counts every attempt. */
+async function callWithRetry(
+  context: Context,
+  provider: LlmProvider,
+  request: ToolCallRequest,
+  counter: { attempts: number }
+): Promise<ToolCallResponse> {
+  const baseDelayMs = parseInt(
+    process.env.ANALYSIS_RETRY_BASE_MS ?? String(DEFAULT_RETRY_BASE_MS),
+    10
+  );
+
+  try {
+    return await withRetry(
+      () => {
+        counter.attempts++;
+        return llmLatency.time({ provider: provider.name }, () =>
+          provider.callTool(request)
+        );
+      },
+      {
+        maxAttempts: MAX_API_ATTEMPTS,
+        baseDelayMs,
+        maxDelayMs: MAX_RETRY_DELAY_MS,
+        shouldRetry: isRetryable,
+        onRetry: (error, attempt, delayMs) => {
+          const failureClass = classifyError(error);
+          llmRetries.inc({
+            provider: provider.name,
+            failure_class: failureClass,
+          });
+          context.log.warn(
+            `${provider.name} call failed (${failureClass}, attempt ${attempt}/${MAX_API_ATTEMPTS}), retrying in ${delayMs}ms`
+          );
+        },
+      }
+    );
+  } catch (error: unknown) {
+    throw toAnalysisError(error, counter.attempts);
+  }
+}
+
+/**
+ * Force a call to `tool` and validate its input against `schema`. If validation fails,
+ * the Zod issues are sent back as an error tool_result so the model can correct itself.
+ */
+async function requestToolInput<T>(
+  context: Context,
+  target: LlmTarget,
+  system: string,
+  userPrompt: string,
+  tool: ToolDefinition,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const { provider, model, maxTokens, temperature } = target;
+  const counter = { attempts: 0 };
+  const turns: ToolTurn[] = [{ role: "user", content: userPrompt }];
+
+  for (let repairs = 0; ; repairs++) {
+    const { call, usage } = await callWithRetry(
+      context,
+      provider,
+      { model, system, turns, tool, maxTokens, temperature },
+      counter
+    );
+    target.calls++;
+    target.tokens = addTokens(target.tokens, usage);
+    if (!call) {
+      throw new AnalysisError(
+        `No ${tool.name} call in ${provider.name} response`,
+        "invalid_response",
+        counter.attempts
+      );
+    }
+
+    const parsed = schema.safeParse(call.input);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    const issues = parsed.error.issues
+      .map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+
+    if (repairs >= MAX_SCHEMA_REPAIRS) {
+      throw new AnalysisError(
+        `Response failed schema validation:\n${issues}`,
+        "invalid_response",
+        counter.attempts
+      );
+    }
+
+    context.log.warn(
+      `${provider.name} response failed schema validation, asking for a corrected submission`
+    );
+    turns.push(
+      { role: "tool_call", call, toolName: tool.name },
+      {
+        role: "tool_error",
+        callId: call.id,
+        content:
+          `The ${tool.name} input failed validation:\n${issues}\n\n` +
+          `Call ${tool.name} again with the same findings, corrected to match the schema.`,
+      }
+    );
+  }
+}
+
+/**
+ * Fit the prompt into max_prompt_tokens, call Claude, and attach what the budget
+ * planner had to leave out so the checklist comment can report it.
+ */
+async function analyzeWithinBudget(
+  context: Context,
+  target: LlmTarget,
+  inputs: PromptInputs
+): Promise<AnalysisResult> {
+  const { settings } = inputs.config;
+  const plan = planPrompt(
+    inputs,
+    settings.max_prompt_tokens,
+    FIXED_PROMPT_TOKENS,
+    settings.max_diff_size
+  );
+
+  const label = inputs.part
+    ? `Part ${inputs.part.index}/${inputs.part.total}: `
+    : "";
+  context.log.info(
+    `${label}prompt ~${plan.estimatedTokens} tokens (budget ${settings.max_prompt_tokens})` +
+      (plan.omitted.length > 0 ? `, omitted: ${plan.omitted.join("; ")}` : "")
+  );
+
+  const result = await requestToolInput(
+    context,
+    target,
+    SYSTEM_PROMPT,
+    plan.userPrompt,
+    SUBMIT_ANALYSIS_TOOL,
+    AnalysisResultSchema
+  );
+  return plan.omitted.length > 0
+    ? { ...result, omitted_context: plan.omitted.map((note) => label + note) }
+    : result;
 }
 
 /**
@@ -107,6 +455,48 @@ export async function fetchPRDiff(
   return response.data as unknown as string;
 }
 
+/**
+ * Fetch the diff of the commits between two SHAs. Returns null unless `head` is strictly
+ * ahead of `base` — after a force-push or rebase the old SHA is not an ancestor, and the
+ * compare diff would mix in reverted or rebased history.
+ */
+export async function fetchCompareDiff(
+  context: Context,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<string | null> {
+  try {
+    const { data } = await context.octokit.rest.repos.compareCommits({
+      owner,
+      repo,
+      base,
+      head,
+    });
+    if (data.status !== "ahead") return null;
+  } catch (error: unknown) {
+    // 404 = the old SHA was garbage-collected after a force-push
+    if (
+      error instanceof Error &&
+      "status" in error &&
+      (error as { status: number }).status === 404
+    ) {
+      return null;
+    }
+    throw error;
+  }
+
+  const response = await context.octokit.rest.repos.compareCommits({
+    owner,
+    repo,
+    base,
+    head,
+    mediaType: { format: "diff" },
+  });
+  return response.data as unknown as string;
+}
+
 /** Extract file paths from diff --git headers. */
 export function extractFilesFromDiff(diff: string): string[] {
   const files: string[] = [];
@@ -197,29 +587,241 @@ export async function fetchTriggeredFileContents(
   return result;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Chunked analysis (map-reduce for diffs over max_diff_size)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Chunks often raise the same check (a custom rule firing in two batches) — compare
+// checks case- and whitespace-insensitively
+function itemKey(item: ChecklistItem): string {
+  return `${item.rule_id}\u0000${item.check.toLowerCase().replace(/\s+/g, " ").trim()}`;
+}
+
+/**
+ * Merge per-chunk results into one: duplicate items collapse into the highest-priority
+ * copy with the union of their files; open concerns and uncovered files are deduped.
+ */
+export function mergeAnalysisResults(results: AnalysisResult[]): AnalysisResult {
+  const items = new Map<string, ChecklistItem>();
+  for (const item of results.flatMap((r) => r.items)) {
+    const key = itemKey(item);
+    const existing = items.get(key);
+    if (!existing) {
+      items.set(key, item);
+      continue;
+    }
+
+    const keep =
+      PRIORITY_RANK[item.priority] < PRIORITY_RANK[existing.priority]
+        ? item
+        : existing;
+    const files = [...new Set([...(existing.files ?? []), ...(item.files ?? [])])];
+    items.set(key, { ...keep, files: files.length > 0 ? files : undefined });
+  }
+
+  const concerns = new Map(
+    results
+      .flatMap((r) => r.open_concerns)
+      .map((c) => [`${c.file}\u0000${c.concern}`, c] as const)
+  );
+
+  return {
+    items: [...items.values()],
+    summary: [...new Set(results.map((r) => r.summary).filter(Boolean))].join(" "),
+    uncovered_files: [...new Set(results.flatMap((r) => r.uncovered_files))],
+    open_concerns: [...concerns.values()],
+    omitted_context: results.flatMap((r) => r.omitted_context ?? []),
+  };
+}
+
+/**
+ * Analyze one batch of a chunked diff. Skills are re-detected against the batch so each
+ * prompt only carries the skills its files trigger; custom rules go to every batch.
+ */
+async function analyzeChunk(
+  context: Context,
+  target: LlmTarget,
+  chunk: DiffChunk,
+  part: { index: number; total: number },
+  config: DeployChecklistConfig,
+  prMeta: PRMetadata,
+  activeSkills: Skill[],
+  uncoveredFiles: string[],
+  fileContents: Map<string, string>
+): Promise<AnalysisResult> {
+  const inChunk = (file: string) => chunk.files.includes(file);
+  const chunkSkills = detectActiveSkills(chunk.files, chunk.diff, activeSkills);
+
+  return analyzeWithinBudget(context, target, {
+    config,
+    prMeta,
+    diff: chunk.diff,
+    activeSkills: chunkSkills,
+    uncoveredFiles: uncoveredFiles.filter(inChunk),
+    fileContents: new Map([...fileContents].filter(([file]) => inChunk(file))),
+    part,
+    truncationRules: [...skillsToRules(chunkSkills), ...config.rules],
+  });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Pick the model for one analysis: settings.model_escalation.high_risk when one of its
+ * skills is active, else small_diff when the diff is within its max_size, else
+ * settings.model, else the provider's default. `reason` is for the log.
+ */
+export function resolveModel(
+  settings: Settings,
+  defaultModel: string,
+  diffSize: number,
+  activeSkillIds: string[]
+): { model: string; reason: string } {
+  const { high_risk, small_diff } = settings.model_escalation ?? {};
+
+  const risky = high_risk
+    ? activeSkillIds.filter((id) => high_risk.skills.includes(id))
+    : [];
+  if (high_risk && risky.length > 0) {
+    return {
+      model: high_risk.model,
+      reason: `high-risk skills active: ${risky.join(", ")}`,
+    };
+  }
+
+  if (small_diff && diffSize <= small_diff.max_size) {
+    return {
+      model: small_diff.model,
+      reason: `small diff (${diffSize} <= ${small_diff.max_size} chars)`,
+    };
+  }
+
+  return settings.model
+    ? { model: settings.model, reason: "settings.model" }
+    : { model: defaultModel, reason: "provider default" };
+}
+
+/**
+ * Whether the repo's monthly budget is spent. A ledger that can't be read is logged and
+ * treated as within budget — losing the cap briefly beats failing every analysis.
+ */
+export async function isBudgetSpent(
+  context: Context,
+  config: DeployChecklistConfig,
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  try {
+    const status = await budgetStatus(config, owner, repo);
+    if (status?.exceeded) {
+      context.log.warn(
+        `${owner}/${repo} has spent ~$${status.spentUsd.toFixed(2)} of its $${status.limitUsd} monthly LLM budget`
+      );
+    }
+    return status?.exceeded ?? false;
+  } catch (error: unknown) {
+    context.log.warn(
+      `Reading the LLM usage ledger failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return false;
+  }
+}
+
 /**
  * Send a PR diff to Claude for analysis and get back structured checklist items.
- * Returns null on unrecoverable failure — caller should post error comment, not block PR.
+ * In "deterministic" mode no API call is made; in "hybrid" mode a Claude failure falls back
+ * to the deterministic checklist so the PR is still gated.
+ * Throws an AnalysisError (with its failure class) on unrecoverable failure — the caller
+ * should post an error comment, not block the PR.
  */
 export async function analyzeDiff(
   context: Context,
   diff: string,
   config: DeployChecklistConfig,
   prMeta: PRMetadata,
-  repoInfo: { owner: string; repo: string; ref: string }
-): Promise<AnalysisResult | null> {
-  const anthropic = createAnthropicClient();
-  const model = process.env.CLAUDE_MODEL || DEFAULT_MODEL;
+  repoInfo: { owner: string; repo: string; ref: string; pullNumber?: number }
+): Promise<AnalysisResult> {
+  const mode = config.settings.analysis_mode;
 
   // Extract file paths from diff for skill detection and file fetching
   const filesChanged = extractFilesFromDiff(diff);
+  diffSize.observe({ kind: "full" }, diff.length);
+
+  // Detect which skills (built-in and repo-defined) apply to this diff (pre-filtering before Claude)
+  const activeSkills = detectActiveSkills(
+    filesChanged,
+    diff,
+    resolveSkills(config)
+  );
+
+  // No LLM at all — the checklist is exactly the matching skills' and rules' checks
+  if (mode === "deterministic") {
+    analyses.inc({ kind: "full", outcome: "deterministic" });
+    return buildDeterministicResult(
+      diff,
+      activeSkills,
+      config.rules,
+      "Deterministic analysis — items come from the skills and rules that matched this diff."
+    );
+  }
+
+  // Past the monthly budget: the fallback model if there is one, otherwise no LLM at all
+  const overBudget = await isBudgetSpent(
+    context,
+    config,
+    repoInfo.owner,
+    repoInfo.repo
+  );
+  const fallbackModel = config.settings.budget?.fallback_model;
+  if (overBudget && !fallbackModel) {
+    analyses.inc({ kind: "full", outcome: "deterministic" });
+    return buildDeterministicResult(
+      diff,
+      activeSkills,
+      config.rules,
+      "This repo's monthly LLM budget is spent — items come from the skills and rules that matched this diff."
+    );
+  }
+
+  const target = llmTarget(
+    context,
+    config,
+    diff.length,
+    activeSkills,
+    overBudget ? fallbackModel : undefined
+  );
+  const attribution = {
+    owner: repoInfo.owner,
+    repo: repoInfo.repo,
+    pullNumber: repoInfo.pullNumber,
+  };
 
-  // Detect which skills apply to this diff (pre-filtering before Claude)
-  const activeSkills = detectActiveSkills(filesChanged, diff);
+  // Identical diff + description + config + skills + model → reuse the previous result
+  // (reopen, ready_for_review, or a rebase that didn't change the diff)
+  const cache = getAnalysisCache();
+  const cacheKey = analysisCacheKey({
+    diff,
+    description: `${prMeta.title}\n${prMeta.body}`,
+    config,
+    skillIds: activeSkills.map((s) => s.id),
+    model: `${target.provider.name}/${target.model}`,
+  });
+  if (cache) {
+    try {
+      const cached = await cache.get(cacheKey);
+      if (cached) {
+        context.log.info(`Analysis cache hit (${cacheKey.slice(0, 12)})`);
+        analyses.inc({ kind: "full", outcome: "succeeded" });
+        return cached;
+      }
+    } catch (error: unknown) {
+      context.log.warn(
+        `Analysis cache read failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 
   // Compute files not covered by any skill's path patterns
   const uncoveredFiles = computeUncoveredFiles(filesChanged, activeSkills);
@@ -228,13 +830,6 @@ export async function analyzeDiff(
   const skillRules = skillsToRules(activeSkills);
   const allRulesForTruncation = [...skillRules, ...config.rules];
 
-  // Truncate diff to fit within the token budget, prioritizing skill-matched paths
-  const { diff: truncatedDiff } = truncateDiff(
-    diff,
-    config.settings.max_diff_size,
-    allRulesForTruncation
-  );
-
   // Fetch full file contents for skills/rules with include_full_files
   const fileContents = await fetchTriggeredFileContents(
     context,
@@ -245,37 +840,225 @@ export async function analyzeDiff(
     filesChanged
   );
 
+  let result: AnalysisResult;
+  // Some chunks failed — the result is served but not cached, so the next run retries them
+  let partial = false;
   try {
-    const userPrompt = buildUserPrompt(
+    // Large diff: analyze batches in parallel and merge, instead of truncating to filenames.
+    // A single oversized file still yields one chunk — the single pass handles that.
+    const chunks =
+      diff.length > config.settings.max_diff_size &&
+      config.settings.large_diff_strategy === "chunk"
+        ? chunkDiff(
+            diff,
+            config.settings.max_diff_size,
+            allRulesForTruncation,
+            MAX_CHUNKS
+          )
+        : [];
+
+    if (chunks.length > 1) {
+      context.log.info(
+        `Diff is ${diff.length} chars (max ${config.settings.max_diff_size}) — analyzing in ${chunks.length} chunks`
+      );
+
+      // Chunks are settled individually so one failure doesn't discard the others
+      const settled = await mapWithConcurrency(
+        chunks,
+        CHUNK_CONCURRENCY,
+        (chunk, i) =>
+          analyzeChunk(
+            context,
+            target,
+            chunk,
+            { index: i + 1, total: chunks.length },
+            config,
+            prMeta,
+            activeSkills,
+            uncoveredFiles,
+            fileContents
+          ).catch((error: unknown) => toAnalysisError(error))
+      );
+      const results = settled.filter(
+        (r): r is AnalysisResult => !(r instanceof AnalysisError)
+      );
+      const failures = settled.flatMap((r, i) =>
+        r instanceof AnalysisError
+          ? [{ chunk: chunks[i], part: i + 1, error: r }]
+          : []
+      );
+
+      if (results.length === 0) {
+        // Every chunk failed — fall back to the single truncated pass
+        context.log.warn(
+          `All ${chunks.length} chunks failed (${failures[0].error.message}) — falling back to one truncated pass`
+        );
+        result = await analyzeWithinBudget(context, target, {
+          config,
+          prMeta,
+          diff,
+          activeSkills,
+          uncoveredFiles,
+          fileContents,
+          truncationRules: allRulesForTruncation,
+        });
+      } else {
+        result = mergeAnalysisResults(results);
+        if (failures.length > 0) {
+          partial = true;
+          context.log.warn(
+            `${failures.length} of ${chunks.length} chunks failed — merging the rest`
+          );
+          result = {
+            ...result,
+            omitted_context: [
+              ...(result.omitted_context ?? []),
+              ...failures.map(
+                ({ chunk, part, error }) =>
+                  `Part ${part}/${chunks.length} could not be analyzed (${error.failureClass}): ${listNames(chunk.files)}`
+              ),
+            ],
+          };
+        }
+      }
+    } else {
+      // Single pass — the budget planner truncates the diff, prioritizing skill-matched paths
+      result = await analyzeWithinBudget(context, target, {
+        config,
+        prMeta,
+        diff,
+        activeSkills,
+        uncoveredFiles,
+        fileContents,
+        truncationRules: allRulesForTruncation,
+      });
+    }
+  } catch (error: unknown) {
+    // Calls that returned before the failure (e.g. a rejected repair) were still billed
+    await finishUsage(context, target, attribution);
+
+    const failure = toAnalysisError(error);
+    context.log.error(
+      `Analysis failed (${failure.failureClass} after ${failure.attempts} attempt(s)): ${failure.message}`
+    );
+
+    if (mode === "hybrid") {
+      analyses.inc({ kind: "full", outcome: "fallback" });
+      context.log.warn("Falling back to deterministic analysis (hybrid mode)");
+      return buildDeterministicResult(
+        diff,
+        activeSkills,
+        config.rules,
+        "LLM analysis was unavailable — items come from the skills and rules that matched this diff."
+      );
+    }
+    analyses.inc({ kind: "full", outcome: "failed" });
+    throw failure;
+  }
+
+  // Only Claude's complete results are cached — a hybrid fallback or a result missing
+  // failed chunks should be retried next time. Usage is attached after, so a cache hit
+  // doesn't report tokens it didn't spend
+  if (cache && !partial) {
+    try {
+      await cache.set(cacheKey, result);
+    } catch (error: unknown) {
+      context.log.warn(
+        `Analysis cache write failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  analyses.inc({ kind: "full", outcome: "succeeded" });
+  const usage = await finishUsage(context, target, attribution);
+  return usage ? { ...result, usage } : result;
+}
+
+/**
+ * Ask Claude how the commits in `delta` change an existing checklist: new items to add
+ * and existing item ids to retire. Skills are detected on the delta only, and the prompt
+ * is fitted into max_prompt_tokens like the full analysis.
+ * Past the monthly budget it uses budget.fallback_model — without one, callers should
+ * run the full analysis instead, which falls back to deterministic.
+ * Throws an AnalysisError on failure, like analyzeDiff.
+ */
+export async function analyzeIncrement(
+  context: Context,
+  delta: string,
+  config: DeployChecklistConfig,
+  prMeta: PRMetadata,
+  fromSha: string,
+  existingItems: ChecklistItemState[],
+  repoInfo: { owner: string; repo: string; pullNumber?: number }
+): Promise<IncrementalResult> {
+  diffSize.observe({ kind: "incremental" }, delta.length);
+  const activeSkills = detectActiveSkills(
+    extractFilesFromDiff(delta),
+    delta,
+    resolveSkills(config)
+  );
+  const { settings } = config;
+  const plan = planPrompt(
+    {
       config,
       prMeta,
-      truncatedDiff,
+      diff: delta,
       activeSkills,
-      uncoveredFiles,
-      fileContents
-    );
+      uncoveredFiles: [],
+      fileContents: new Map(),
+      incremental: { fromSha, existingItems },
+      truncationRules: [...skillsToRules(activeSkills), ...config.rules],
+    },
+    settings.max_prompt_tokens,
+    INCREMENTAL_FIXED_PROMPT_TOKENS,
+    settings.max_diff_size
+  );
+  context.log.info(
+    `Incremental prompt ~${plan.estimatedTokens} tokens (budget ${settings.max_prompt_tokens})` +
+      (plan.omitted.length > 0 ? `, omitted: ${plan.omitted.join("; ")}` : "")
+  );
 
-    const response = await anthropic.messages.create({
-      model,
-      max_tokens: 4000,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userPrompt }],
-      tools: [SUBMIT_ANALYSIS_TOOL],
-      tool_choice: { type: "tool", name: "submit_analysis" },
-    });
+  const overBudget = await isBudgetSpent(
+    context,
+    config,
+    repoInfo.owner,
+    repoInfo.repo
+  );
+  const target = llmTarget(
+    context,
+    config,
+    delta.length,
+    activeSkills,
+    overBudget ? config.settings.budget?.fallback_model : undefined
+  );
 
-    const toolUseBlock = response.content.find(
-      (block) => block.type === "tool_use"
+  try {
+    const update = await requestToolInput(
+      context,
+      target,
+      INCREMENTAL_SYSTEM_PROMPT,
+      plan.userPrompt,
+      SUBMIT_CHECKLIST_UPDATE_TOOL,
+      IncrementalResultSchema
     );
-    if (!toolUseBlock || toolUseBlock.type !== "tool_use") {
-      throw new Error("No tool_use block in Claude response");
-    }
 
-    // toolUseBlock.input is already a parsed object — no JSON.parse, no fence stripping
-    return AnalysisResultSchema.parse(toolUseBlock.input);
+    // Ignore ids Claude made up — only existing items can be retired
+    const known = new Set(existingItems.map((i) => i.id));
+    analyses.inc({ kind: "incremental", outcome: "succeeded" });
+    const usage = await finishUsage(context, target, repoInfo);
+    return {
+      ...update,
+      retired_item_ids: update.retired_item_ids.filter((id) => known.has(id)),
+      omitted_context: plan.omitted.map((note) => `New commits: ${note}`),
+      usage,
+    };
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : String(error);
-    context.log.error(`Analysis failed: ${message}`);
-    return null;
+    await finishUsage(context, target, repoInfo);
+    const failure = toAnalysisError(error);
+    context.log.error(
+      `Incremental analysis failed (${failure.failureClass} after ${failure.attempts} attempt(s)): ${failure.message}`
+    );
+    analyses.inc({ kind: "incremental", outcome: "failed" });
+    throw failure;
   }
 }
@@ -0,0 +1,735 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { Redis } from "ioredis";
+import { backoffDelay } from "../utils/retry.js";
+import { counter } from "../utils/metrics.js";
+import { getRedis } from "../utils/redis.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CONCURRENCY_PER_INSTALLATION = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_MS = 10000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const DEFAULT_QUEUE_FILE = ".cache/jobs.json";
+const DEFAULT_REDIS_PREFIX = "deploy-checklist:jobs";
+// A running job in a shared store whose replica hasn't finished it within the lease is
+// presumed crashed and re-queued — keep it well above the slowest analysis
+const DEFAULT_LEASE_MS = 15 * 60 * 1000;
+// How often a replica on a shared store looks for jobs queued by the others
+const DEFAULT_POLL_MS = 10000;
+
+/**
+ * Claim a queued job in Redis: queued → running, count the attempt, stamp the claim time.
+ * Runs atomically, so of several replicas claiming the same job exactly one gets 1.
+ */
+const REDIS_CLAIM_SCRIPT = `
+if redis.call("HGET", KEYS[1], "state") ~= "queued" then return 0 end
+redis.call("HSET", KEYS[1], "state", "running", "claimed_at", ARGV[1])
+redis.call("HINCRBY", KEYS[1], "attempts", 1)
+return 1
+`;
+
+/**
+ * Queue a job in Redis in place of the one still queued under the same key, or as a new
+ * job if there is none. Atomic with the claim script, so a job another replica claimed
+ * meanwhile is never overwritten. KEYS[1] is the id set; ARGV: job hash prefix, coalescing
+ * key, id for a new job, job JSON. Returns the id used and whether a job was replaced.
+ */
+const REDIS_ENQUEUE_SCRIPT = `
+local target = nil
+for _, id in ipairs(redis.call("SMEMBERS", KEYS[1])) do
+  local hash = ARGV[1] .. id
+  if redis.call("HGET", hash, "key") == ARGV[2] and redis.call("HGET", hash, "state") == "queued" then
+    target = id
+    break
+  end
+end
+local replaced = 1
+if not target then
+  target = ARGV[3]
+  replaced = 0
+  redis.call("SADD", KEYS[1], target)
+end
+local hash = ARGV[1] .. target
+redis.call("HDEL", hash, "claimed_at")
+redis.call("HSET", hash, "job", ARGV[4], "key", ARGV[2], "state", "queued", "attempts", "0")
+return {target, replaced}
+`;
+
+// superseded: a newer event for the same PR replaced a queued job (the debounce);
+// cancelled: cancel() dropped it
+const cancellations = counter(
+  "deploy_checklist_debounce_cancellations_total",
+  "Queued PR jobs dropped before they ran",
+  ["reason"]
+);
+const jobRuns = counter(
+  "deploy_checklist_jobs_total",
+  "Job runs, by type and outcome (succeeded, retried, failed)",
+  ["type", "outcome"]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A unit of deferred work. `data` must survive a JSON round trip — jobs outlive the process. */
+export interface Job {
+  id: string;
+  // Coalescing key — at most one queued and one running job per key, e.g. "owner/repo#42"
+  key: string;
+  type: string;
+  installationId: number;
+  data: unknown;
+  // Epoch ms before which the job must not start
+  runAt: number;
+  // Runs started so far, including one interrupted by a crash
+  attempts: number;
+  state: "queued" | "running";
+  // Epoch ms of the last claim — shared stores re-queue running jobs whose lease expired
+  claimedAt?: number;
+}
+
+export interface EnqueueInput {
+  key: string;
+  type: string;
+  installationId: number;
+  data: unknown;
+  delayMs?: number;
+}
+
+/** `final` is true on the last attempt — a handler should report failure instead of throwing. */
+export type JobHandler = (job: Job, run: { final: boolean }) => Promise<void>;
+
+export interface JobQueueOptions {
+  concurrencyPerInstallation: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  // Shared stores only: how long a claimed job may run before other replicas re-queue it,
+  // and how often to look for jobs queued by other replicas
+  leaseMs?: number;
+  pollMs?: number;
+}
+
+/** The slice of Probot's logger the queue uses. */
+export interface QueueLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Storage backend for jobs. `claim` is the one operation that must be atomic: it moves a
+ * queued job to running, counts the attempt and stamps `claimedAt`, and returns null if
+ * another worker won. A backend shared by several replicas sets `shared` and implements
+ * claim as a compare-and-set.
+ */
+export interface JobStore {
+  // Other processes use the store too — their running jobs aren't interrupted ones
+  readonly shared?: boolean;
+  /** Throw if the store can't be written, so a misconfigured deployment fails at boot. */
+  verify(): Promise<void>;
+  list(): Promise<Job[]>;
+  put(job: Job): Promise<void>;
+  /**
+   * Store a new queued job, taking the id of the job still queued under the same key if
+   * there is one (the coalescing). Returns whether one was replaced. Must be atomic with
+   * claim: a job claimed meanwhile is left alone and the new one gets its own id.
+   */
+  enqueue(job: Job): Promise<boolean>;
+  claim(id: string): Promise<Job | null>;
+  delete(id: string): Promise<void>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Backends
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The job still queued under a coalescing key, if any — for the process-local stores. */
+function queuedFor(jobs: Map<string, Job>, key: string): Job | undefined {
+  return [...jobs.values()].find(
+    (job) => job.key === key && job.state === "queued"
+  );
+}
+
+/** Process-local — queued jobs are lost on restart. */
+export class MemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, Job>();
+
+  async verify(): Promise<void> {}
+
+  async list(): Promise<Job[]> {
+    return [...this.jobs.values()];
+  }
+
+  async put(job: Job): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async enqueue(job: Job): Promise<boolean> {
+    const existing = queuedFor(this.jobs, job.key);
+    this.jobs.set(existing?.id ?? job.id, { ...job, id: existing?.id ?? job.id });
+    return existing !== undefined;
+  }
+
+  async claim(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    if (!job || job.state !== "queued") return null;
+    const claimed: Job = {
+      ...job,
+      state: "running",
+      attempts: job.attempts + 1,
+      claimedAt: Date.now(),
+    };
+    this.jobs.set(id, claimed);
+    return claimed;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+/**
+ * One JSON file holding every job — survives restarts, so queued and interrupted jobs
+ * resume on boot. Rewritten after every change; for a single replica only.
+ */
+export class FileJobStore implements JobStore {
+  private jobs: Map<string, Job> | null = null;
+  // Writes are chained so an older snapshot never lands after a newer one
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  private async load(): Promise<Map<string, Job>> {
+    if (this.jobs) return this.jobs;
+    let stored: Job[] = [];
+    try {
+      stored = JSON.parse(await readFile(this.path, "utf-8"));
+    } catch (error: unknown) {
+      const missing =
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: string }).code === "ENOENT";
+      if (!missing && !(error instanceof SyntaxError)) throw error;
+    }
+    this.jobs = new Map(stored.map((job) => [job.id, job]));
+    return this.jobs;
+  }
+
+  private persist(jobs: Map<string, Job>): Promise<void> {
+    const snapshot = JSON.stringify([...jobs.values()]);
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, snapshot);
+    });
+    // A failed write rejects its caller but must not wedge every later write
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async verify(): Promise<void> {
+    // Writing the current snapshot creates the directory and file, or fails like a real
+    // write would (read-only filesystem, directory owned by another user)
+    await this.persist(await this.load());
+  }
+
+  async list(): Promise<Job[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async put(job: Job): Promise<void> {
+    const jobs = await this.load();
+    jobs.set(job.id, job);
+    await this.persist(jobs);
+  }
+
+  async enqueue(job: Job): Promise<boolean> {
+    const jobs = await this.load();
+    const existing = queuedFor(jobs, job.key);
+    jobs.set(existing?.id ?? job.id, { ...job, id: existing?.id ?? job.id });
+    await this.persist(jobs);
+    return existing !== undefined;
+  }
+
+  async claim(id: string): Promise<Job | null> {
+    const jobs = await this.load();
+    const job = jobs.get(id);
+    if (!job || job.state !== "queued") return null;
+    const claimed: Job = {
+      ...job,
+      state: "running",
+      attempts: job.attempts + 1,
+      claimedAt: Date.now(),
+    };
+    jobs.set(id, claimed);
+    await this.persist(jobs);
+    return claimed;
+  }
+
+  async delete(id: string): Promise<void> {
+    const jobs = await this.load();
+    if (jobs.delete(id)) await this.persist(jobs);
+  }
+}
+
+/**
+ * Redis — shared by every replica, so a job queued by one runs on exactly one of them.
+ * Each job is a hash under `<prefix>:job:<id>`, indexed by the set `<prefix>:ids`; claim
+ * is a Lua compare-and-set. The store for production.
+ */
+export class RedisJobStore implements JobStore {
+  readonly shared = true;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = DEFAULT_REDIS_PREFIX
+  ) {}
+
+  async verify(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  private jobKey(id: string): string {
+    return `${this.prefix}:job:${id}`;
+  }
+
+  /** The job's fixed fields — state, attempts and claim time are hash fields of their own. */
+  private static payload(job: Job): string {
+    const { id, key, type, installationId, data, runAt } = job;
+    return JSON.stringify({ id, key, type, installationId, data, runAt });
+  }
+
+  // The id comes from the hash's key: a job queued in place of another keeps the old id
+  private static decode(id: string, hash: Record<string, string>): Job | null {
+    if (!hash.job) return null;
+    const job: Job = {
+      ...JSON.parse(hash.job),
+      id,
+      state: hash.state === "running" ? "running" : "queued",
+      attempts: parseInt(hash.attempts ?? "0", 10),
+    };
+    if (hash.claimed_at) job.claimedAt = parseInt(hash.claimed_at, 10);
+    return job;
+  }
+
+  async list(): Promise<Job[]> {
+    const ids = await this.redis.smembers(`${this.prefix}:ids`);
+    if (ids.length === 0) return [];
+    const pipeline = this.redis.pipeline();
+    for (const id of ids) pipeline.hgetall(this.jobKey(id));
+    const results = (await pipeline.exec()) ?? [];
+
+    const jobs: Job[] = [];
+    for (const [i, [error, hash]] of results.entries()) {
+      if (error) throw error;
+      // A job deleted between SMEMBERS and HGETALL comes back as an empty hash
+      const job = RedisJobStore.decode(ids[i], hash as Record<string, string>);
+      if (job) jobs.push(job);
+    }
+    return jobs;
+  }
+
+  async put(job: Job): Promise<void> {
+    const { state, attempts, claimedAt } = job;
+    const key = this.jobKey(job.id);
+    const multi = this.redis
+      .multi()
+      .sadd(`${this.prefix}:ids`, job.id)
+      .hset(key, {
+        job: RedisJobStore.payload(job),
+        key: job.key,
+        state,
+        attempts: String(attempts),
+      });
+    if (claimedAt === undefined) multi.hdel(key, "claimed_at");
+    else multi.hset(key, "claimed_at", String(claimedAt));
+    await multi.exec();
+  }
+
+  async enqueue(job: Job): Promise<boolean> {
+    const [, replaced] = (await this.redis.eval(
+      REDIS_ENQUEUE_SCRIPT,
+      1,
+      `${this.prefix}:ids`,
+      `${this.prefix}:job:`,
+      job.key,
+      job.id,
+      RedisJobStore.payload(job)
+    )) as [string, number];
+    return replaced === 1;
+  }
+
+  async claim(id: string): Promise<Job | null> {
+    const won = await this.redis.eval(
+      REDIS_CLAIM_SCRIPT,
+      1,
+      this.jobKey(id),
+      String(Date.now())
+    );
+    if (won !== 1) return null;
+    return RedisJobStore.decode(id, await this.redis.hgetall(this.jobKey(id)));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.redis
+      .multi()
+      .srem(`${this.prefix}:ids`, id)
+      .del(this.jobKey(id))
+      .exec();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queue
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Delayed jobs with per-key coalescing, at-least-once delivery and a concurrency limit per
+ * installation. A job is deleted only after its handler resolves; a throw is retried with
+ * jittered backoff up to `maxAttempts`. Jobs left running by a crash are re-queued by start()
+ * — or, on a shared store, once their lease expires, since other replicas may still be
+ * running them. The running-key and concurrency checks are per replica.
+ */
+export class JobQueue {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly runningKeys = new Set<string>();
+  private readonly runningPerInstallation = new Map<number, number>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  // Queue bookkeeping runs one operation at a time, so coalescing never races a claim
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly options: JobQueueOptions,
+    private readonly log: QueueLogger
+  ) {}
+
+  /** Register the handler for a job type. */
+  handle(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Check the store is writable, re-queue jobs a previous process left running, then start
+   * running due jobs. Rejects if the store is unusable — the app can't queue anything then.
+   */
+  async start(): Promise<void> {
+    await this.store.verify();
+    await this.exclusive(async () => {
+      const jobs = await this.store.list();
+      const interrupted = await this.requeueInterrupted(jobs);
+      if (jobs.length > 0) {
+        this.log.info(
+          `Resuming ${jobs.length} queued job(s) (${interrupted.length} interrupted)`
+        );
+      }
+    });
+    this.started = true;
+    await this.drain();
+  }
+
+  /** Stop starting jobs. Running jobs finish; queued ones stay in the store. */
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Queue a job to run after `delayMs`. A job already queued under the same key is
+   * replaced — its data and delay are reset, which debounces bursts of events.
+   */
+  async enqueue(input: EnqueueInput): Promise<void> {
+    await this.exclusive(async () => {
+      const replaced = await this.store.enqueue({
+        id: randomUUID(),
+        key: input.key,
+        type: input.type,
+        installationId: input.installationId,
+        data: input.data,
+        runAt: Date.now() + (input.delayMs ?? 0),
+        attempts: 0,
+        state: "queued",
+      });
+      if (replaced) cancellations.inc({ reason: "superseded" });
+    });
+    await this.drain();
+  }
+
+  /** Drop the queued job for a key. A job already running is not interrupted. */
+  async cancel(key: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const queued = (await this.store.list()).filter(
+        (job) => job.key === key && job.state === "queued"
+      );
+      for (const job of queued) {
+        await this.store.delete(job.id);
+        cancellations.inc({ reason: "cancelled" });
+      }
+      return queued.length > 0;
+    });
+  }
+
+  /** Whether a job for the key is queued or running. */
+  async has(key: string): Promise<boolean> {
+    return (await this.store.list()).some((job) => job.key === key);
+  }
+
+  /** Resolves once no job is running — for tests and graceful shutdown. */
+  async idle(): Promise<void> {
+    for (;;) {
+      await this.lock;
+      if (this.inFlight.size === 0) return;
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  /**
+   * Put running jobs back in the queue. On a process-local store they are all leftovers of
+   * a crash; on a shared store only those whose lease expired are.
+   */
+  private async requeueInterrupted(jobs: Job[]): Promise<Job[]> {
+    const expiredBefore =
+      Date.now() - (this.options.leaseMs ?? DEFAULT_LEASE_MS);
+    const interrupted = jobs.filter(
+      (job) =>
+        job.state === "running" &&
+        (!this.store.shared || (job.claimedAt ?? 0) < expiredBefore)
+    );
+    for (const job of interrupted) {
+      await this.store.put({ ...job, state: "queued" });
+    }
+    return interrupted;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.lock.then(fn);
+    this.lock = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Start every due job the limits allow, then arm a timer for the next one. */
+  private async drain(): Promise<void> {
+    if (!this.started) return;
+    try {
+      await this.exclusive(async () => {
+        const now = Date.now();
+        let jobs = await this.store.list();
+        if (this.store.shared) {
+          const expired = await this.requeueInterrupted(jobs);
+          if (expired.length > 0) {
+            this.log.warn(
+              `Re-queued ${expired.length} job(s) whose lease expired`
+            );
+            jobs = await this.store.list();
+          }
+        }
+        const queued = jobs
+          .filter((job) => job.state === "queued")
+          .sort((a, b) => a.runAt - b.runAt);
+
+        let nextRunAt: number | null = null;
+        for (const job of queued) {
+          if (job.runAt > now) {
+            nextRunAt ??= job.runAt;
+            continue;
+          }
+          const running =
+            this.runningPerInstallation.get(job.installationId) ?? 0;
+          if (this.runningKeys.has(job.key)) continue;
+          if (running >= this.options.concurrencyPerInstallation) continue;
+
+          const claimed = await this.store.claim(job.id);
+          if (claimed) this.launch(claimed);
+        }
+        this.arm(nextRunAt);
+      });
+    } catch (error: unknown) {
+      this.log.error(
+        `Job queue drain failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private arm(runAt: number | null): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    // Other replicas enqueue into a shared store without waking this one, so poll it
+    if (this.store.shared) {
+      const pollAt = Date.now() + (this.options.pollMs ?? DEFAULT_POLL_MS);
+      runAt = runAt === null ? pollAt : Math.min(runAt, pollAt);
+    }
+    if (runAt === null) return;
+
+    // unref: a pending job must not keep the process alive on shutdown
+    this.timer = setTimeout(
+      () => void this.drain(),
+      Math.max(0, runAt - Date.now())
+    );
+    this.timer.unref();
+  }
+
+  private launch(job: Job): void {
+    this.runningKeys.add(job.key);
+    this.runningPerInstallation.set(
+      job.installationId,
+      (this.runningPerInstallation.get(job.installationId) ?? 0) + 1
+    );
+
+    const run = this.run(job).finally(() => {
+      this.inFlight.delete(run);
+      this.runningKeys.delete(job.key);
+      this.runningPerInstallation.set(
+        job.installationId,
+        (this.runningPerInstallation.get(job.installationId) ?? 1) - 1
+      );
+      void this.drain();
+    });
+    this.inFlight.add(run);
+  }
+
+  private async run(job: Job): Promise<void> {
+    const final = job.attempts >= this.options.maxAttempts;
+    let failure: unknown = null;
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+      await handler(job, { final });
+    } catch (error: unknown) {
+      failure = error;
+    }
+
+    try {
+      await this.exclusive(() => this.settle(job, final, failure));
+    } catch (error: unknown) {
+      // The job stays "running" in the store and is re-queued on the next boot
+      this.log.error(
+        `Recording the result of job ${job.type} ${job.key} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async settle(
+    job: Job,
+    final: boolean,
+    failure: unknown
+  ): Promise<void> {
+    if (failure === null) {
+      jobRuns.inc({ type: job.type, outcome: "succeeded" });
+      await this.store.delete(job.id);
+      return;
+    }
+
+    const message =
+      failure instanceof Error ? failure.message : String(failure);
+    // A newer event for the key was queued while this ran — it supersedes the retry
+    const superseded = (await this.store.list()).some(
+      (other) => other.key === job.key && other.state === "queued"
+    );
+
+    if (final || superseded) {
+      jobRuns.inc({ type: job.type, outcome: "failed" });
+      this.log.error(
+        `Job ${job.type} ${job.key} failed after ${job.attempts} attempt(s)` +
+          `${superseded ? ", superseded by a newer job" : ""}: ${message}`
+      );
+      await this.store.delete(job.id);
+      return;
+    }
+
+    const delayMs = backoffDelay(
+      job.attempts - 1,
+      this.options.retryBaseMs,
+      MAX_RETRY_DELAY_MS
+    );
+    jobRuns.inc({ type: job.type, outcome: "retried" });
+    this.log.warn(
+      `Job ${job.type} ${job.key} failed (attempt ${job.attempts}/${this.options.maxAttempts}), retrying in ${delayMs}ms: ${message}`
+    );
+    await this.store.put({
+      ...job,
+      state: "queued",
+      runAt: Date.now() + delayMs,
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Coalescing key for a PR's jobs. */
+export function prJobKey(
+  owner: string,
+  repo: string,
+  prNumber: number
+): string {
+  return `${owner}/${repo}#${prNumber}`;
+}
+
+// One queue per process — every handler must see the same running set and limits
+let instance: JobQueue | null = null;
+
+/**
+ * The store selected by JOB_QUEUE: "redis" (REDIS_URL; the default when it is set),
+ * "file" (JOB_QUEUE_FILE; the default otherwise) or "memory".
+ */
+function createJobStore(): JobStore {
+  const redis = getRedis();
+  const backend = process.env.JOB_QUEUE ?? (redis ? "redis" : "file");
+  switch (backend) {
+    case "redis":
+      if (!redis) throw new Error("JOB_QUEUE=redis needs REDIS_URL");
+      return new RedisJobStore(
+        redis,
+        process.env.JOB_QUEUE_PREFIX ?? DEFAULT_REDIS_PREFIX
+      );
+    case "memory":
+      return new MemoryJobStore();
+    default:
+      return new FileJobStore(process.env.JOB_QUEUE_FILE ?? DEFAULT_QUEUE_FILE);
+  }
+}
+
+/**
+ * Create the process's job queue, logging through the app's logger. JOB_QUEUE selects the
+ * store; JOB_CONCURRENCY_PER_INSTALLATION, JOB_MAX_ATTEMPTS, JOB_RETRY_BASE_MS and, for
+ * Redis, JOB_LEASE_MS and JOB_POLL_MS tune it.
+ */
+export function initJobQueue(log: QueueLogger): JobQueue {
+  const env = (name: string, fallback: number) =>
+    parseInt(process.env[name] ?? String(fallback), 10);
+
+  instance = new JobQueue(
+    createJobStore(),
+    {
+      concurrencyPerInstallation: env(
+        "JOB_CONCURRENCY_PER_INSTALLATION",
+        DEFAULT_CONCURRENCY_PER_INSTALLATION
+      ),
+      maxAttempts: env("JOB_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS),
+      retryBaseMs: env("JOB_RETRY_BASE_MS", DEFAULT_RETRY_BASE_MS),
+      leaseMs: env("JOB_LEASE_MS", DEFAULT_LEASE_MS),
+      pollMs: env("JOB_POLL_MS", DEFAULT_POLL_MS),
+    },
+    log
+  );
+  return instance;
+}
+
+/** The process's job queue, created by initJobQueue() when the app loads. */
+export function getJobQueue(): JobQueue {
+  if (!instance) throw new Error("Job queue used before initJobQueue()");
+  return instance;
+}
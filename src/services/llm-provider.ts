@@ -0,0 +1,391 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5-20250929";
+
+// Self-hosted endpoints can be slow on large prompts, but a hung socket must not
+// hold a PR's analysis forever — the abort surfaces as a retryable "network" failure
+const OPENAI_TIMEOUT_MS = 120000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LlmProviderName = "anthropic" | "openai" | "fake";
+
+/** A tool the model is forced to call — its input is the structured output. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+/** The model's call to the forced tool. `input` is unvalidated. */
+export interface ToolCall {
+  id: string;
+  input: unknown;
+}
+
+/** Tokens billed for one call. Cache fields are 0 where the provider doesn't report them. */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+export interface ToolCallResponse {
+  // null when the response contains no call to the tool
+  call: ToolCall | null;
+  usage: TokenUsage;
+}
+
+export const NO_USAGE: TokenUsage = {
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_read_tokens: 0,
+  cache_write_tokens: 0,
+};
+
+/**
+ * Provider-neutral conversation: the prompt, then for each schema repair the rejected
+ * call and the validation error sent back for it.
+ */
+export type ToolTurn =
+  | { role: "user"; content: string }
+  | { role: "tool_call"; call: ToolCall; toolName: string }
+  | { role: "tool_error"; callId: string; content: string };
+
+export interface ToolCallRequest {
+  model: string;
+  system: string;
+  turns: ToolTurn[];
+  tool: ToolDefinition;
+  maxTokens: number;
+  temperature?: number;
+}
+
+/**
+ * An LLM backend that can be forced to answer through a single tool (function) call.
+ * Errors must expose an HTTP `status` where there is one, so classifyError can tell
+ * transient failures from permanent ones.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+
+  /** One API call, with the tokens it used. */
+  callTool(request: ToolCallRequest): Promise<ToolCallResponse>;
+}
+
+/** A non-2xx response from an HTTP-based provider. */
+export class LlmHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "LlmHttpError";
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Anthropic
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel = process.env.CLAUDE_MODEL || DEFAULT_ANTHROPIC_MODEL;
+
+  // The SDK's own retries are disabled — the analyzer's withRetry is the single retry policy
+  private readonly client = new Anthropic({ maxRetries: 0 });
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    const messages: Anthropic.MessageParam[] = request.turns.map((turn) => {
+      switch (turn.role) {
+        case "user":
+          return { role: "user", content: turn.content };
+        case "tool_call":
+          return {
+            role: "assistant",
+            content: [
+              {
+                type: "tool_use",
+                id: turn.call.id,
+                name: turn.toolName,
+                input: turn.call.input,
+              },
+            ],
+          };
+        case "tool_error":
+          return {
+            role: "user",
+            content: [
+              {
+                type: "tool_result",
+                tool_use_id: turn.callId,
+                is_error: true,
+                content: turn.content,
+              },
+            ],
+          };
+      }
+    });
+
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined
+        ? { temperature: request.temperature }
+        : {}),
+      system: request.system,
+      messages,
+      tools: [request.tool],
+      tool_choice: { type: "tool", name: request.tool.name },
+    });
+
+    const usage: TokenUsage = response.usage
+      ? {
+          input_tokens: response.usage.input_tokens,
+          output_tokens: response.usage.output_tokens,
+          cache_read_tokens: response.usage.cache_read_input_tokens ?? 0,
+          cache_write_tokens: response.usage.cache_creation_input_tokens ?? 0,
+        }
+      : NO_USAGE;
+
+    // block.input is already a parsed object — no JSON.parse, no fence stripping
+    const block = response.content.find((b) => b.type === "tool_use");
+    const call =
+      block && block.type === "tool_use"
+        ? { id: block.id, input: block.input }
+        : null;
+    return { call, usage };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OpenAI-compatible (Chat Completions with function calling)
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ChatCompletionResponse {
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+  choices?: {
+    message?: {
+      tool_calls?: {
+        id: string;
+        function: { name: string; arguments: string };
+      }[];
+    };
+  }[];
+}
+
+/**
+ * Any endpoint implementing POST /chat/completions with `tools` — OpenAI itself, or a
+ * self-hosted gateway (vLLM, LiteLLM, Azure-style proxies) at `baseUrl`.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly defaultModel: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    const messages: unknown[] = [{ role: "system", content: request.system }];
+    for (const turn of request.turns) {
+      switch (turn.role) {
+        case "user":
+          messages.push({ role: "user", content: turn.content });
+          break;
+        case "tool_call":
+          messages.push({
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: turn.call.id,
+                type: "function",
+                function: {
+                  name: turn.toolName,
+                  arguments: JSON.stringify(turn.call.input),
+                },
+              },
+            ],
+          });
+          break;
+        case "tool_error":
+          messages.push({
+            role: "tool",
+            tool_call_id: turn.callId,
+            content: turn.content,
+          });
+          break;
+      }
+    }
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          messages,
+          tools: [
+            {
+              type: "function",
+              function: {
+                name: request.tool.name,
+                description: request.tool.description,
+                parameters: request.tool.input_schema,
+              },
+            },
+          ],
+          tool_choice: {
+            type: "function",
+            function: { name: request.tool.name },
+          },
+        }),
+        signal: AbortSignal.timeout(OPENAI_TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      const text = (await response.text().catch(() => "")).slice(0, 500);
+      throw new LlmHttpError(
+        `OpenAI-compatible API returned ${response.status}: ${text}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+
+    // prompt_tokens includes cached tokens — split them out to match Anthropic's accounting
+    const cached = data.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+    const usage: TokenUsage = {
+      input_tokens: (data.usage?.prompt_tokens ?? 0) - cached,
+      output_tokens: data.usage?.completion_tokens ?? 0,
+      cache_read_tokens: cached,
+      cache_write_tokens: 0,
+    };
+
+    const call = data.choices?.[0]?.message?.tool_calls?.find(
+      (c) => c.function.name === request.tool.name
+    );
+    if (!call) return { call: null, usage };
+
+    // Arguments arrive as a JSON string; unparseable output is passed through as-is so
+    // schema validation rejects it and the repair turn can ask for a correction
+    let input: unknown;
+    try {
+      input = JSON.parse(call.function.arguments);
+    } catch {
+      input = call.function.arguments;
+    }
+    return { call: { id: call.id, input }, usage };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fake (tests and local runs without an API key)
+// ─────────────────────────────────────────────────────────────────────────────
+
+type FakeResponse = unknown | ((request: ToolCallRequest) => unknown);
+
+// Minimal valid answers for the analyzer's tools
+const FAKE_DEFAULTS: Record<string, unknown> = {
+  submit_analysis: {
+    items: [],
+    summary: "Fake provider — no analysis performed.",
+    uncovered_files: [],
+    open_concerns: [],
+  },
+  submit_checklist_update: {
+    items: [],
+    retired_item_ids: [],
+    summary: "",
+    open_concerns: [],
+  },
+};
+
+/**
+ * Deterministic provider: answers each tool with a canned input (or a function of the
+ * request) and records every request. Never makes a network call.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake" as const;
+  readonly defaultModel = "fake";
+  readonly requests: ToolCallRequest[] = [];
+
+  constructor(private readonly responses: Record<string, FakeResponse> = {}) {}
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    this.requests.push(request);
+    const response =
+      request.tool.name in this.responses
+        ? this.responses[request.tool.name]
+        : FAKE_DEFAULTS[request.tool.name];
+    if (response === undefined) return { call: null, usage: NO_USAGE };
+
+    const input = typeof response === "function" ? response(request) : response;
+    return {
+      call: { id: `fake_${this.requests.length}`, input },
+      usage: NO_USAGE,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Build a provider by name. The OpenAI-compatible one needs OPENAI_BASE_URL and OPENAI_MODEL. */
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "anthropic":
+      return new AnthropicProvider();
+    case "openai": {
+      const baseUrl = process.env.OPENAI_BASE_URL;
+      const model = process.env.OPENAI_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error(
+          "The openai LLM provider requires OPENAI_BASE_URL and OPENAI_MODEL"
+        );
+      }
+      return new OpenAICompatibleProvider(
+        baseUrl,
+        model,
+        process.env.OPENAI_API_KEY || undefined
+      );
+    }
+    case "fake":
+      return new FakeLlmProvider();
+  }
+}
+
+/**
+ * The provider for a repo: its `settings.llm_provider` if set, otherwise the LLM_PROVIDER
+ * env var, otherwise Anthropic. Unknown env values fall back to Anthropic.
+ */
+export function resolveLlmProviderName(
+  configured: "anthropic" | "openai" | undefined
+): LlmProviderName {
+  if (configured) return configured;
+  const env = process.env.LLM_PROVIDER;
+  return env === "openai" || env === "fake" ? env : "anthropic";
+}
@@ -0,0 +1,247 @@
+import type { DeployChecklistConfig, Rule } from "../schemas/config.js";
+import type {
+  ChecklistItemState,
+  PRMetadata,
+} from "../schemas/analysis-result.js";
+import type { Skill } from "../skills/index.js";
+import {
+  buildIncrementalPrompt,
+  buildUserPrompt,
+  formatRule,
+  formatSkill,
+} from "../prompts/analysis.js";
+import { truncateDiff } from "../utils/diff-truncation.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Rough average for code and English with Claude's tokenizer — good enough to budget
+// with, without a network round trip to the token-counting endpoint
+export const CHARS_PER_TOKEN = 4;
+
+// Never truncate the diff below this many characters — a prompt without a usable
+// diff is worse than one that drops context
+const MIN_DIFF_CHARS = 2000;
+
+// Long lists of dropped names are cut off in the comment
+const MAX_LISTED_NAMES = 10;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Everything buildUserPrompt could include, before budgeting. */
+export interface PromptInputs {
+  config: DeployChecklistConfig;
+  prMeta: PRMetadata;
+  diff: string;
+  activeSkills: Skill[];
+  uncoveredFiles: string[];
+  fileContents: Map<string, string>;
+  part?: { index: number; total: number };
+
+  // Set for an incremental re-analysis: the prompt is then built by buildIncrementalPrompt,
+  // which has no full file contents or uncovered file list
+  incremental?: { fromSha: string; existingItems: ChecklistItemState[] };
+
+  // Rules used to prioritize files when the diff is truncated (skills + custom rules)
+  truncationRules: Rule[];
+}
+
+export interface PromptPlan {
+  userPrompt: string;
+  estimatedTokens: number;
+
+  // Human-readable notes on what was cut, shown in the checklist comment
+  omitted: string[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function listNames(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED_NAMES).map((n) => `\`${n}\``);
+  const more = names.length - shown.length;
+  return shown.join(", ") + (more > 0 ? ` and ${more} more` : "");
+}
+
+/** Keep items in order while they fit — an item that misses doesn't stop smaller ones after it. */
+function fitItems<T>(
+  items: T[],
+  cost: (item: T) => number,
+  remaining: { tokens: number }
+): { kept: T[]; dropped: T[] } {
+  const kept: T[] = [];
+  const dropped: T[] = [];
+  for (const item of items) {
+    const tokens = cost(item);
+    if (tokens <= remaining.tokens) {
+      kept.push(item);
+      remaining.tokens -= tokens;
+    } else {
+      dropped.push(item);
+    }
+  }
+  return { kept, dropped };
+}
+
+/** Build the prompt these inputs ask for — full or incremental — from the kept sections. */
+function renderPrompt(
+  inputs: PromptInputs,
+  config: DeployChecklistConfig,
+  diff: string,
+  activeSkills: Skill[],
+  uncoveredFiles: string[],
+  fileContents: Map<string, string>
+): string {
+  const { prMeta, part, incremental } = inputs;
+  return incremental
+    ? buildIncrementalPrompt(
+        config,
+        prMeta,
+        diff,
+        incremental.fromSha,
+        activeSkills,
+        incremental.existingItems
+      )
+    : buildUserPrompt(
+        config,
+        prMeta,
+        diff,
+        activeSkills,
+        uncoveredFiles,
+        fileContents,
+        part
+      );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fit a prompt into `budgetTokens` (which includes `fixedTokens` for the system prompt and
+ * tool schema). Sections are allocated in priority order: PR info and instructions →
+ * active skills → custom rules → repo context → diff → full file contents → uncovered
+ * file list. A section that doesn't fit is dropped (skills, rules, files one at a time)
+ * or, for the diff, truncated — and every cut is reported in `omitted`.
+ */
+export function planPrompt(
+  inputs: PromptInputs,
+  budgetTokens: number,
+  fixedTokens: number,
+  maxDiffChars: number
+): PromptPlan {
+  const { config } = inputs;
+  const omitted: string[] = [];
+
+  // PR info, instructions, the partial-diff note and the existing checklist are never dropped
+  const skeleton = renderPrompt(
+    inputs,
+    { ...config, rules: [], context: undefined },
+    "",
+    [],
+    [],
+    new Map()
+  );
+  const remaining = {
+    tokens: budgetTokens - fixedTokens - estimateTokens(skeleton),
+  };
+
+  const skills = fitItems(
+    inputs.activeSkills,
+    (skill) => estimateTokens(formatSkill(skill)),
+    remaining
+  );
+  if (skills.dropped.length > 0) {
+    omitted.push(
+      `Skill guidance left out: ${listNames(skills.dropped.map((s) => s.id))}`
+    );
+  }
+
+  const rules = fitItems(
+    config.rules,
+    (rule) => estimateTokens(formatRule(rule)),
+    remaining
+  );
+  if (rules.dropped.length > 0) {
+    omitted.push(
+      `Custom rules left out: ${listNames(rules.dropped.map((r) => r.id))}`
+    );
+  }
+
+  let context = config.context;
+  if (context) {
+    const tokens = estimateTokens(context);
+    if (tokens <= remaining.tokens) {
+      remaining.tokens -= tokens;
+    } else {
+      context = undefined;
+      omitted.push("Repository `context` left out");
+    }
+  }
+
+  const diffChars = Math.max(
+    MIN_DIFF_CHARS,
+    Math.min(maxDiffChars, remaining.tokens * CHARS_PER_TOKEN)
+  );
+  const truncation = truncateDiff(
+    inputs.diff,
+    diffChars,
+    inputs.truncationRules
+  );
+  remaining.tokens -= estimateTokens(truncation.diff);
+  if (truncation.filesSummarized.length > 0) {
+    omitted.push(
+      `${truncation.filesSummarized.length} file(s) in the diff reduced to filenames: ` +
+        listNames(truncation.filesSummarized)
+    );
+  } else if (truncation.truncated) {
+    omitted.push("Parts of large files in the diff were truncated");
+  }
+
+  const files = fitItems(
+    [...inputs.fileContents],
+    ([path, content]) => estimateTokens(path + content) + 10,
+    remaining
+  );
+  if (files.dropped.length > 0) {
+    omitted.push(
+      `Full file contents left out: ${listNames(
+        files.dropped.map(([path]) => path)
+      )}`
+    );
+  }
+
+  const uncovered = fitItems(
+    inputs.uncoveredFiles,
+    (file) => estimateTokens(`- ${file}\n`),
+    remaining
+  );
+  if (uncovered.dropped.length > 0) {
+    omitted.push(
+      `${uncovered.dropped.length} uncovered file(s) not listed for review by the model`
+    );
+  }
+
+  const userPrompt = renderPrompt(
+    inputs,
+    { ...config, rules: rules.kept, context },
+    truncation.diff,
+    skills.kept,
+    uncovered.kept,
+    new Map(files.kept)
+  );
+
+  return {
+    userPrompt,
+    estimatedTokens: fixedTokens + estimateTokens(userPrompt),
+    omitted,
+  };
+}
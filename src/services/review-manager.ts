@@ -1,53 +1,274 @@
 import type { Context } from "probot";
+import { loadConfigForPR } from "./config-loader.js";
+import type { GateMode } from "../schemas/config.js";
+import type { ChecklistItemState } from "../schemas/analysis-result.js";
+import { inDisplayOrder } from "./checklist.js";
+import {
+  FAILURE_DESCRIPTIONS,
+  type AnalysisError,
+} from "./analysis-errors.js";
+import { counter } from "../utils/metrics.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Public API
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Name shared by the Check Run and the commit status context. */
+export const GATE_NAME = "Deploy Checklist";
+
+/** GitHub rejects Check Run updates with more than 50 annotations per request. */
+const MAX_ANNOTATIONS = 50;
+
+/** Commit status descriptions are capped at 140 characters. */
+const MAX_STATUS_DESCRIPTION = 140;
+
+const DEFAULT_APPROVE_BODY =
+  "All deploy checklist items have been addressed. Ready to merge.";
+
+const gateDecisions = counter(
+  "deploy_checklist_gate_decisions_total",
+  "PRs blocked or approved by the bot, by gate mode",
+  ["decision", "mode"]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Post a REQUEST_CHANGES review to block the PR from merging.
- * Dismisses any existing bot reviews first to avoid stacking multiple reviews.
+ * Where and how to record the gate outcome for non-review modes.
+ * Check Runs and commit statuses attach to a commit, so the PR head SHA is required.
  */
-export async function blockPR(
+export interface GateTarget {
+  mode: GateMode;
+  headSha: string;
+  items: ChecklistItemState[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function usesReviews(mode: GateMode): boolean {
+  return mode === "review" || mode === "both";
+}
+
+function usesCheckRun(mode: GateMode): boolean {
+  return mode === "check_run" || mode === "both";
+}
+
+/** Markdown summary for the Check Run page: progress line + every item with its state. */
+function buildCheckRunSummary(
+  items: ChecklistItemState[],
+  message: string
+): string {
+  if (items.length === 0) {
+    return message;
+  }
+
+  const checked = items.filter((i) => i.checked).length;
+  const lines = [
+    message,
+    "",
+    `**${checked} of ${items.length}** checklist items checked.`,
+    "",
+  ];
+
+  // Numbered like the comment, so "item 2" means the same item on both pages
+  for (const [index, { item, checked: isChecked }] of inDisplayOrder(
+    items
+  ).entries()) {
+    lines.push(
+      `${index + 1}. [${isChecked ? "x" : " "}] **${item.check}** (${item.priority}) — ${item.description}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * One file-level annotation per unchecked item per affected file.
+ * Items without file paths (e.g. parsed back from older comments) get no annotation.
+ */
+function buildAnnotations(items: ChecklistItemState[]) {
+  const annotations = [];
+
+  for (const { item, checked } of items) {
+    if (checked) continue;
+    for (const path of item.files ?? []) {
+      annotations.push({
+        path,
+        start_line: 1,
+        end_line: 1,
+        annotation_level:
+          item.priority === "low" ? ("notice" as const) : ("warning" as const),
+        title: `${item.check} (${item.rule_id})`,
+        message: `${item.description}\n\n${item.reasoning}`,
+      });
+    }
+  }
+
+  return annotations.slice(0, MAX_ANNOTATIONS);
+}
+
+/** Create a completed "Deploy Checklist" Check Run on the PR head commit. */
+async function createGateCheckRun(
   context: Context,
   owner: string,
   repo: string,
-  prNumber: number,
-  body: string
+  gate: GateTarget,
+  conclusion: "action_required" | "success",
+  message: string
 ): Promise<void> {
-  await dismissStaleReviews(context, owner, repo, prNumber);
+  const remaining = gate.items.filter((i) => !i.checked).length;
+  const title =
+    conclusion === "success"
+      ? "Deploy checklist complete"
+      : `${remaining} deploy checklist item(s) to address`;
 
-  await context.octokit.rest.pulls.createReview({
+  await context.octokit.rest.checks.create({
     owner,
     repo,
-    pull_number: prNumber,
-    event: "REQUEST_CHANGES",
-    body,
+    name: GATE_NAME,
+    head_sha: gate.headSha,
+    status: "completed",
+    conclusion,
+    output: {
+      title,
+      summary: buildCheckRunSummary(gate.items, message),
+      annotations: buildAnnotations(gate.items),
+    },
   });
 }
 
+/** Set the "Deploy Checklist" commit status on the PR head commit. */
+async function setGateStatus(
+  context: Context,
+  owner: string,
+  repo: string,
+  gate: GateTarget,
+  state: "pending" | "success",
+  message: string
+): Promise<void> {
+  await context.octokit.rest.repos.createCommitStatus({
+    owner,
+    repo,
+    sha: gate.headSha,
+    state,
+    context: GATE_NAME,
+    description: message.slice(0, MAX_STATUS_DESCRIPTION),
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Block the PR from merging.
+ * Review mode (the default when no gate is given) posts a REQUEST_CHANGES review,
+ * dismissing any existing bot reviews first to avoid stacking multiple reviews.
+ * Check Run / status modes mark the head commit as action_required / pending.
+ */
+export async function blockPR(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  body: string,
+  gate?: GateTarget
+): Promise<void> {
+  const mode = gate?.mode ?? "review";
+
+  if (usesReviews(mode)) {
+    await dismissStaleReviews(context, owner, repo, prNumber);
+
+    await context.octokit.rest.pulls.createReview({
+      owner,
+      repo,
+      pull_number: prNumber,
+      event: "REQUEST_CHANGES",
+      body,
+    });
+  }
+
+  if (gate && usesCheckRun(mode)) {
+    await createGateCheckRun(
+      context,
+      owner,
+      repo,
+      gate,
+      "action_required",
+      body
+    );
+  }
+
+  if (gate && mode === "status") {
+    await setGateStatus(context, owner, repo, gate, "pending", body);
+  }
+
+  gateDecisions.inc({ decision: "blocked", mode });
+}
+
 /**
- * Post an APPROVE review to unblock the PR.
- * Dismisses any existing bot CHANGES_REQUESTED reviews first so they don't conflict.
+ * Unblock the PR.
+ * Review mode posts an APPROVE review, dismissing any existing bot CHANGES_REQUESTED
+ * reviews first so they don't conflict. Check Run / status modes mark the head commit
+ * as success.
  */
 export async function approvePR(
   context: Context,
   owner: string,
   repo: string,
   prNumber: number,
-  body?: string
+  body?: string,
+  gate?: GateTarget
 ): Promise<void> {
-  await dismissStaleReviews(context, owner, repo, prNumber);
+  const mode = gate?.mode ?? "review";
+  const message = body || DEFAULT_APPROVE_BODY;
+
+  if (usesReviews(mode)) {
+    await dismissStaleReviews(context, owner, repo, prNumber);
+
+    await context.octokit.rest.pulls.createReview({
+      owner,
+      repo,
+      pull_number: prNumber,
+      event: "APPROVE",
+      body: message,
+    });
+  }
+
+  if (gate && usesCheckRun(mode)) {
+    await createGateCheckRun(context, owner, repo, gate, "success", message);
+  }
+
+  if (gate && mode === "status") {
+    await setGateStatus(context, owner, repo, gate, "success", message);
+  }
 
-  await context.octokit.rest.pulls.createReview({
+  gateDecisions.inc({ decision: "approved", mode });
+}
+
+/**
+ * Build the gate target for a PR outside the pull_request flow (comment edits, commands),
+ * where neither the current head SHA nor the repo config is part of the webhook payload.
+ */
+export async function resolveGate(
+  context: Context,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  items: ChecklistItemState[]
+): Promise<GateTarget> {
+  const { config, headSha } = await loadConfigForPR(
+    context,
     owner,
     repo,
-    pull_number: prNumber,
-    event: "APPROVE",
-    body:
-      body ||
-      "All deploy checklist items have been addressed. Ready to merge.",
-  });
+    prNumber
+  );
+
+  return { mode: config.settings.gate_mode, headSha, items };
 }
 
 /**
@@ -103,8 +324,14 @@ export async function postErrorComment(
   owner: string,
   repo: string,
   prNumber: number,
-  message: string
+  message: string,
+  failure?: AnalysisError
 ): Promise<void> {
+  // Name the failure class so "rate limited" and "bad API key" don't look the same
+  const cause = failure
+    ? `**Cause:** ${FAILURE_DESCRIPTIONS[failure.failureClass]} (\`${failure.failureClass}\`).\n\n`
+    : "";
+
   try {
     await context.octokit.rest.issues.createComment({
       owner,
@@ -113,6 +340,7 @@ export async function postErrorComment(
       body:
         `⚠️ **Deploy Checklist Bot**: Analysis could not be completed.\n\n` +
         `${message}\n\n` +
+        cause +
         `The PR has **not** been blocked. Please perform a manual deploy review.\n\n` +
         `_This error has been logged. If it persists, check the bot configuration._`,
     });
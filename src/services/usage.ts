@@ -0,0 +1,297 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { Redis } from "ioredis";
+import type { Context } from "probot";
+import type { AnalysisUsage } from "../schemas/analysis-result.js";
+import type { DeployChecklistConfig } from "../schemas/config.js";
+import type { TokenUsage } from "./llm-provider.js";
+import { counter } from "../utils/metrics.js";
+import { getRedis } from "../utils/redis.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Matched by longest model-name prefix, so dated snapshots price like their family.
+// Cache reads bill at 0.1× and cache writes at 1.25× the input price
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+};
+
+const CACHE_READ_FACTOR = 0.1;
+const CACHE_WRITE_FACTOR = 1.25;
+
+const DEFAULT_LEDGER_FILE = ".cache/usage-ledger.json";
+const DEFAULT_LEDGER_PREFIX = "deploy-checklist:usage";
+// A month's totals are kept a little past the month, then expire
+const LEDGER_TTL_SECONDS = 62 * 24 * 60 * 60;
+
+// PR numbers stay out of the labels (unbounded cardinality) — they are in the usage log line
+const llmCalls = counter(
+  "deploy_checklist_llm_calls_total",
+  "LLM API calls that returned a response",
+  ["owner", "repo", "provider", "model"]
+);
+const llmTokens = counter(
+  "deploy_checklist_llm_tokens_total",
+  "LLM tokens used, by kind (input, output, cache_read, cache_write)",
+  ["owner", "repo", "provider", "model", "kind"]
+);
+const llmCost = counter(
+  "deploy_checklist_llm_cost_usd_total",
+  "Estimated LLM spend in USD (models with a known price only)",
+  ["owner", "repo", "provider", "model"]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Monthly spend ledger
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Estimated USD spent per repo per month — what `settings.budget` is checked against. */
+export interface UsageLedger {
+  spent(repoKey: string, month: string): Promise<number>;
+  add(repoKey: string, month: string, usd: number): Promise<void>;
+}
+
+/** Process-local — resets on restart and isn't shared, so for tests and local runs only. */
+export class MemoryUsageLedger implements UsageLedger {
+  private readonly totals = new Map<string, number>();
+
+  async spent(repoKey: string, month: string): Promise<number> {
+    return this.totals.get(`${month}:${repoKey}`) ?? 0;
+  }
+
+  async add(repoKey: string, month: string, usd: number): Promise<void> {
+    const key = `${month}:${repoKey}`;
+    this.totals.set(key, (this.totals.get(key) ?? 0) + usd);
+  }
+}
+
+/**
+ * One JSON file of `{ "<month>:<owner>/<repo>": usd }` — survives restarts. Read once,
+ * then kept in memory and rewritten after every add; for a single replica only.
+ */
+export class FileUsageLedger implements UsageLedger {
+  // Concurrent first calls share one read, so no add lands on a copy that gets replaced
+  private totals: Promise<Record<string, number>> | null = null;
+  // Writes are chained so an older snapshot never lands after a newer one
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  private load(): Promise<Record<string, number>> {
+    this.totals ??= this.read();
+    return this.totals;
+  }
+
+  private async read(): Promise<Record<string, number>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf-8"));
+    } catch (error: unknown) {
+      const missing =
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: string }).code === "ENOENT";
+      if (!missing && !(error instanceof SyntaxError)) throw error;
+      return {};
+    }
+  }
+
+  async spent(repoKey: string, month: string): Promise<number> {
+    return (await this.load())[`${month}:${repoKey}`] ?? 0;
+  }
+
+  async add(repoKey: string, month: string, usd: number): Promise<void> {
+    const totals = await this.load();
+    const key = `${month}:${repoKey}`;
+    totals[key] = (totals[key] ?? 0) + usd;
+
+    const snapshot = JSON.stringify(totals);
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, snapshot);
+    });
+    // A failed write rejects its caller but must not wedge every later write
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/** Redis — shared by every replica and atomic per add, so a budget holds across the fleet. */
+export class RedisUsageLedger implements UsageLedger {
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = DEFAULT_LEDGER_PREFIX
+  ) {}
+
+  async spent(repoKey: string, month: string): Promise<number> {
+    const total = await this.redis.get(`${this.prefix}:${month}:${repoKey}`);
+    return total ? parseFloat(total) : 0;
+  }
+
+  async add(repoKey: string, month: string, usd: number): Promise<void> {
+    const key = `${this.prefix}:${month}:${repoKey}`;
+    await this.redis
+      .multi()
+      .incrbyfloat(key, usd)
+      .expire(key, LEDGER_TTL_SECONDS)
+      .exec();
+  }
+}
+
+// Ledgers are built once per distinct env setting
+const ledgers = new Map<string, UsageLedger>();
+
+/**
+ * The ledger selected by USAGE_LEDGER: "redis" (REDIS_URL; the default when it is set),
+ * "file" (USAGE_LEDGER_FILE; the default otherwise) or "memory".
+ */
+export function getUsageLedger(): UsageLedger {
+  const redis = getRedis();
+  const backend = process.env.USAGE_LEDGER ?? (redis ? "redis" : "file");
+  const path = process.env.USAGE_LEDGER_FILE ?? DEFAULT_LEDGER_FILE;
+  const id =
+    backend === "redis" ? "redis" : backend === "memory" ? "memory" : `file:${path}`;
+
+  let ledger = ledgers.get(id);
+  if (!ledger) {
+    if (backend === "redis") {
+      if (!redis) throw new Error("USAGE_LEDGER=redis needs REDIS_URL");
+      ledger = new RedisUsageLedger(redis);
+    } else if (backend === "memory") {
+      ledger = new MemoryUsageLedger();
+    } else {
+      ledger = new FileUsageLedger(path);
+    }
+    ledgers.set(id, ledger);
+  }
+  return ledger;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** UTC calendar month, e.g. "2025-03" — the budget period. */
+export function currentMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Price for a model: LLM_PRICING (JSON, same shape as MODEL_PRICES) first, then the
+ * built-in Claude prices. Longest matching prefix wins. Null for unknown models.
+ */
+export function priceFor(model: string): ModelPrice | null {
+  let overrides: Record<string, ModelPrice> = {};
+  if (process.env.LLM_PRICING) {
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICING);
+    } catch {
+      // A malformed override is ignored rather than breaking every analysis
+    }
+  }
+
+  const prices = { ...MODEL_PRICES, ...overrides };
+  const prefix = Object.keys(prices)
+    .filter((p) => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function addTokens(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cache_read_tokens: a.cache_read_tokens + b.cache_read_tokens,
+    cache_write_tokens: a.cache_write_tokens + b.cache_write_tokens,
+  };
+}
+
+/** Summarize an analysis's calls, with an estimated cost where the model's price is known. */
+export function summarizeUsage(
+  provider: string,
+  model: string,
+  calls: number,
+  tokens: TokenUsage
+): AnalysisUsage {
+  const price = priceFor(model);
+  const cost = price
+    ? (tokens.input_tokens * price.input +
+        tokens.output_tokens * price.output +
+        tokens.cache_read_tokens * price.input * CACHE_READ_FACTOR +
+        tokens.cache_write_tokens * price.input * CACHE_WRITE_FACTOR) /
+      1_000_000
+    : null;
+
+  return { provider, model, calls, ...tokens, cost_usd: cost };
+}
+
+/**
+ * Record an analysis's usage: Prometheus counters by repo and model, one log line
+ * attributed to the PR, and the repo's monthly spend in the ledger.
+ */
+export async function recordUsage(
+  context: Context,
+  attribution: { owner: string; repo: string; pullNumber?: number },
+  usage: AnalysisUsage
+): Promise<void> {
+  const { owner, repo, pullNumber } = attribution;
+  const labels = { owner, repo, provider: usage.provider, model: usage.model };
+
+  llmCalls.inc(labels, usage.calls);
+  llmTokens.inc({ ...labels, kind: "input" }, usage.input_tokens);
+  llmTokens.inc({ ...labels, kind: "output" }, usage.output_tokens);
+  llmTokens.inc({ ...labels, kind: "cache_read" }, usage.cache_read_tokens);
+  llmTokens.inc({ ...labels, kind: "cache_write" }, usage.cache_write_tokens);
+  if (usage.cost_usd !== null) llmCost.inc(labels, usage.cost_usd);
+
+  const pr = pullNumber !== undefined ? `#${pullNumber}` : "";
+  context.log.info(
+    `LLM usage ${owner}/${repo}${pr}: ${usage.provider}/${usage.model}, ${usage.calls} call(s), ` +
+      `${usage.input_tokens} in / ${usage.output_tokens} out / ` +
+      `${usage.cache_read_tokens} cache read / ${usage.cache_write_tokens} cache write tokens` +
+      (usage.cost_usd !== null ? `, ~$${usage.cost_usd.toFixed(4)}` : "")
+  );
+
+  if (usage.cost_usd !== null && usage.cost_usd > 0) {
+    await getUsageLedger().add(
+      `${owner}/${repo}`,
+      currentMonth(),
+      usage.cost_usd
+    );
+  }
+}
+
+/**
+ * This month's spend against `settings.budget`. Null when the repo has no budget.
+ * Only priced models count toward it.
+ */
+export async function budgetStatus(
+  config: DeployChecklistConfig,
+  owner: string,
+  repo: string
+): Promise<{ exceeded: boolean; spentUsd: number; limitUsd: number } | null> {
+  const budget = config.settings.budget;
+  if (!budget) return null;
+
+  const spentUsd = await getUsageLedger().spent(
+    `${owner}/${repo}`,
+    currentMonth()
+  );
+  return {
+    exceeded: spentUsd >= budget.monthly_usd,
+    spentUsd,
+    limitUsd: budget.monthly_usd,
+  };
+}
@@ -1,4 +1,9 @@
 import { minimatch } from "minimatch";
+import type {
+  CustomSkill,
+  DeployChecklistConfig,
+  SkillOverride,
+} from "../schemas/config.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Skill Interface
@@ -13,19 +18,29 @@ export interface Skill {
   paths: string[];            // for truncateDiff prioritization
   companionPaths?: string[];  // for missing-companion detection
   includeFullFiles?: boolean; // for fetchTriggeredFileContents
+  approvers?: string[];       // logins or "org/team" slugs allowed to check this skill's items
+  allowAuthorCheck?: boolean; // false = PR author can't check this skill's items
+  custom?: boolean;           // declared in the repo config rather than built in
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper: path matching
 // ─────────────────────────────────────────────────────────────────────────────
 
-function matchesPaths(filesChanged: string[], patterns: string[]): boolean {
+export function matchesPaths(
+  filesChanged: string[],
+  patterns: string[]
+): boolean {
   return filesChanged.some((file) =>
     patterns.some((pattern) => minimatch(file, pattern, { dot: true }))
   );
 }
 
-function matchesContent(diffContent: string, patterns: string[]): boolean {
+/** Regex match against diff text. A "(?i)" prefix makes the pattern case-insensitive. */
+export function matchesContent(
+  diffContent: string,
+  patterns: string[]
+): boolean {
   return patterns.some((pattern) => {
     const iFlag = pattern.startsWith("(?i)");
     const src = iFlag ? pattern.slice(4) : pattern;
@@ -679,15 +694,86 @@ IDEMPOTENCY:
 // Public Helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Compile a config-declared skill into a Skill — matches on any path glob or content regex. */
+export function compileSkill(def: CustomSkill): Skill {
+  return {
+    id: def.id,
+    name: def.name ?? def.id,
+    paths: def.paths,
+    companionPaths: def.companion_paths,
+    includeFullFiles: def.include_full_files,
+    systemContext: def.system_context,
+    checks: def.checks,
+    approvers: def.approvers,
+    allowAuthorCheck: def.allow_author_check,
+    custom: true,
+    detect(filesChanged, diffContent) {
+      return (
+        (this.paths.length > 0 && matchesPaths(filesChanged, this.paths)) ||
+        (def.content.length > 0 && matchesContent(diffContent, def.content))
+      );
+    },
+  };
+}
+
+/**
+ * Apply a repo's override to a skill. Overridden paths also count as a detection
+ * trigger, so content-only skills can be pointed at specific files too.
+ */
+function applyOverride(skill: Skill, override: SkillOverride | undefined): Skill {
+  if (!override) return skill;
+
+  return {
+    ...skill,
+    paths: override.paths ?? skill.paths,
+    companionPaths: override.companion_paths ?? skill.companionPaths,
+    checks: [...skill.checks, ...(override.checks_append ?? [])],
+    approvers: override.approvers ?? skill.approvers,
+    allowAuthorCheck: override.allow_author_check ?? skill.allowAuthorCheck,
+    detect: override.paths
+      ? function (this: Skill, filesChanged, diffContent) {
+          return (
+            skill.detect.call(this, filesChanged, diffContent) ||
+            matchesPaths(filesChanged, this.paths)
+          );
+        }
+      : skill.detect,
+  };
+}
+
+/**
+ * The skills that apply to a repo: built-ins plus custom skills (a custom skill with a
+ * built-in's id replaces it), minus `skills.disable`, with `skills.overrides` applied.
+ * Must run before detectActiveSkills so disabled skills never fire.
+ */
+export function resolveSkills(config: DeployChecklistConfig): Skill[] {
+  const { disable, overrides, custom } = config.skills;
+  const compiled = custom.map(compileSkill);
+  const customIds = new Set(compiled.map((skill) => skill.id));
+
+  return [...SKILLS.filter((skill) => !customIds.has(skill.id)), ...compiled]
+    .filter((skill) => !disable.includes(skill.id))
+    .map((skill) => applyOverride(skill, overrides[skill.id]));
+}
+
 /**
  * Run each skill's detect() against the changed files and diff content.
  * Returns only skills that match — this is the pre-filtering step before Claude.
  */
 export function detectActiveSkills(
   filesChanged: string[],
-  diffContent: string
+  diffContent: string,
+  skills: Skill[] = SKILLS
 ): Skill[] {
-  return SKILLS.filter((skill) => skill.detect(filesChanged, diffContent));
+  return skills.filter((skill) => skill.detect(filesChanged, diffContent));
+}
+
+/** Look up a skill by id (e.g. to explain a checklist item's origin). Built-ins by default. */
+export function findSkill(
+  id: string,
+  skills: Skill[] = SKILLS
+): Skill | undefined {
+  return skills.find((skill) => skill.id === id);
 }
 
 /**
@@ -0,0 +1,32 @@
+/**
+ * Map over items with at most `limit` calls of `fn` in flight, preserving result order.
+ * Rejects with the first error; workers stop picking up new items once one has failed.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  async function worker(): Promise<void> {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error: unknown) {
+        failed = true;
+        throw error;
+      }
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    worker
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,86 @@
+import { minimatch } from "minimatch";
+import type { Rule } from "../schemas/config.js";
+import { parseDiffFiles, type DiffFile } from "./diff-truncation.js";
+
+export interface DiffChunk {
+  // Rule ids and directories whose files landed in this chunk — for logging
+  groups: string[];
+  files: string[];
+  diff: string;
+}
+
+interface FileGroup {
+  key: string;
+  files: DiffFile[];
+  size: number;
+}
+
+/** Group key for a file: the first rule whose trigger paths match, else its top-level directory. */
+function groupKey(filename: string, rules: Rule[]): string {
+  for (const rule of rules) {
+    const paths = rule.trigger.paths ?? [];
+    if (paths.some((pattern) => minimatch(filename, pattern, { dot: true }))) {
+      return rule.id;
+    }
+  }
+  const slash = filename.indexOf("/");
+  return slash === -1 ? "(root)" : `${filename.slice(0, slash)}/`;
+}
+
+/**
+ * Split a large diff into batches for separate analysis passes.
+ * Files are grouped by the rule (or skill, via skillsToRules) that triggers them, then by
+ * top-level directory, and groups are packed into batches of about maxSize characters —
+ * a group that fits in one batch is never split. When the diff would need more than
+ * maxChunks batches the batch size grows instead, and each batch is later truncated as usual.
+ */
+export function chunkDiff(
+  diff: string,
+  maxSize: number,
+  rules: Rule[],
+  maxChunks: number
+): DiffChunk[] {
+  const groups = new Map<string, FileGroup>();
+  for (const file of parseDiffFiles(diff)) {
+    const key = groupKey(file.filename, rules);
+    const group = groups.get(key) ?? { key, files: [], size: 0 };
+    group.files.push(file);
+    group.size += file.content.length;
+    groups.set(key, group);
+  }
+
+  const budget = Math.max(maxSize, Math.ceil(diff.length / maxChunks));
+  const chunks: DiffChunk[] = [];
+  let current: DiffFile[] = [];
+  let currentGroups: string[] = [];
+  let currentSize = 0;
+
+  function flush(): void {
+    if (current.length === 0) return;
+    chunks.push({
+      groups: currentGroups,
+      files: current.map((f) => f.filename),
+      diff: current.map((f) => f.content).join(""),
+    });
+    current = [];
+    currentGroups = [];
+    currentSize = 0;
+  }
+
+  for (const group of groups.values()) {
+    // Start a fresh batch rather than split a group that would fit in one on its own
+    if (currentSize + group.size > budget && group.size <= budget) flush();
+
+    for (const file of group.files) {
+      if (currentSize > 0 && currentSize + file.content.length > budget) {
+        flush();
+      }
+      if (!currentGroups.includes(group.key)) currentGroups.push(group.key);
+      current.push(file);
+      currentSize += file.content.length;
+    }
+  }
+  flush();
+
+  return chunks;
+}
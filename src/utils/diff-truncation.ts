@@ -1,7 +1,7 @@
 import { minimatch } from "minimatch";
 import type { Rule } from "../schemas/config.js";
 
-interface DiffFile {
+export interface DiffFile {
   filename: string;
   content: string;
 }
@@ -16,7 +16,7 @@ interface TruncationResult {
  * Parse a unified diff into per-file sections.
  * Splits on "diff --git" headers, re-attaching the header to each section.
  */
-function parseDiffFiles(diff: string): DiffFile[] {
+export function parseDiffFiles(diff: string): DiffFile[] {
   const files: DiffFile[] = [];
   // Split removes the "diff --git " prefix — we re-add it below
   const fileSections = diff.split(/^diff --git /m).filter(Boolean);
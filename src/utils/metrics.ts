@@ -0,0 +1,188 @@
+// Minimal Prometheus text-format registry — counters and histograms are all the bot
+// needs, and prom-client would be a dependency for a few dozen lines of formatting
+
+type Labels = Record<string, string>;
+
+/** Escape a label value per the exposition format: backslash, quote, newline. */
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/** Series key: the label values joined with \u0000, in labelNames order. */
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return labelNames.map((n) => labels[n] ?? "").join("\u0000");
+}
+
+function formatLabels(names: string[], values: string[]): string {
+  if (names.length === 0) return "";
+  const pairs = names.map((name, i) => `${name}="${escapeLabel(values[i])}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string;
+  reset(): void;
+}
+
+/** A monotonically increasing counter with a fixed set of label names. */
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    const key = seriesKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  /** Current value for one label set — for tests and the checklist footer. */
+  get(labels: Labels = {}): number {
+    return this.values.get(seriesKey(this.labelNames, labels)) ?? 0;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    for (const [key, value] of this.values) {
+      const labels = formatLabels(this.labelNames, key.split("\u0000"));
+      lines.push(`${this.name}${labels} ${value}`);
+    }
+    return lines.join("\n");
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  // Cumulative count per bucket upper bound, in `buckets` order (+Inf is `count`)
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/** Observations sorted into fixed cumulative buckets, with a running sum and count. */
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+  readonly buckets: number[];
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    buckets: number[],
+    readonly labelNames: string[] = []
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Run `fn` and observe how long it took in seconds, whether it resolves or throws. */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - start) / 1000);
+    }
+  }
+
+  /** Observation count for one label set — for tests. */
+  count(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.count ?? 0;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const [key, series] of this.series) {
+      const values = key.split("\u0000");
+      const withLe = (le: string) =>
+        formatLabels([...this.labelNames, "le"], [...values, le]);
+
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${withLe(String(bound))} ${series.buckets[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${withLe("+Inf")} ${series.count}`);
+
+      const labels = formatLabels(this.labelNames, values);
+      lines.push(`${this.name}_sum${labels} ${series.sum}`);
+      lines.push(`${this.name}_count${labels} ${series.count}`);
+    }
+    return lines.join("\n");
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// Process-wide registry — metrics are module-level singletons created on first use
+const registry = new Map<string, Metric>();
+
+function register<T extends Metric>(name: string, create: () => T): T {
+  let metric = registry.get(name);
+  if (!metric) {
+    metric = create();
+    registry.set(name, metric);
+  }
+  return metric as T;
+}
+
+/** Get or create a registered counter. The first registration's help and labels win. */
+export function counter(
+  name: string,
+  help: string,
+  labelNames: string[] = []
+): Counter {
+  return register(name, () => new Counter(name, help, labelNames));
+}
+
+/** Get or create a registered histogram. The first registration's buckets and labels win. */
+export function histogram(
+  name: string,
+  help: string,
+  buckets: number[],
+  labelNames: string[] = []
+): Histogram {
+  return register(name, () => new Histogram(name, help, buckets, labelNames));
+}
+
+/** Every registered metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return [...registry.values()].map((m) => m.render()).join("\n\n") + "\n";
+}
+
+/** Zero every metric — for tests. */
+export function resetMetrics(): void {
+  for (const metric of registry.values()) metric.reset();
+}
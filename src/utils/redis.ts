@@ -0,0 +1,12 @@
+import { Redis } from "ioredis";
+
+// One connection per process, shared by the job queue and the usage ledger
+let client: Redis | null = null;
+
+/** The process's Redis connection to REDIS_URL, or null when it isn't set. */
+export function getRedis(): Redis | null {
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+  client ??= new Redis(url);
+  return client;
+}
@@ -0,0 +1,46 @@
+/**
+ * Full-jitter exponential backoff: a random delay in [0, min(maxMs, baseMs * 2^attempt)).
+ * Jitter spreads retries from concurrent PRs so they don't hit a rate limit in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number
+): number {
+  return Math.floor(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run `fn`, retrying with jittered backoff while `shouldRetry` accepts the error.
+ * Rethrows the last error once attempts run out or the error is not retryable.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: unknown) {
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(
+        attempt - 1,
+        options.baseDelayMs,
+        options.maxDelayMs
+      );
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,431 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/services/config-loader.js", () => ({
+  loadEffectiveConfig: vi.fn(),
+  loadConfigForPR: vi.fn(),
+}));
+
+vi.mock("../../src/services/review-manager.js", () => ({
+  blockPR: vi.fn(),
+  approvePR: vi.fn(),
+  resolveGate: vi.fn(),
+}));
+
+vi.mock("../../src/handlers/pull-request.js", () => ({
+  findBotComment: vi.fn(),
+  queueReanalysis: vi.fn(),
+}));
+
+vi.mock("../../src/handlers/override.js", () => ({
+  overridePR: vi.fn(),
+}));
+
+import {
+  handleIssueCommentCreated,
+  parseCommand,
+} from "../../src/handlers/commands.js";
+import {
+  loadEffectiveConfig,
+  loadConfigForPR,
+} from "../../src/services/config-loader.js";
+import {
+  blockPR,
+  approvePR,
+  resolveGate,
+} from "../../src/services/review-manager.js";
+import {
+  findBotComment,
+  queueReanalysis,
+} from "../../src/handlers/pull-request.js";
+import { overridePR } from "../../src/handlers/override.js";
+import { generateChecklist, skipRule } from "../../src/services/checklist.js";
+import type { AnalysisResult } from "../../src/schemas/analysis-result.js";
+
+const sampleResult: AnalysisResult = {
+  items: [
+    {
+      rule_id: "migration-review",
+      check: "Verify rollback exists",
+      description: "Verify migration rollback",
+      reasoning: "New migration file detected.",
+      priority: "high",
+    },
+    {
+      rule_id: "env-vars",
+      check: "Confirm env vars set",
+      description: "Add DATABASE_URL to production",
+      reasoning: "New env var referenced.",
+      priority: "medium",
+    },
+  ],
+  summary: "Medium risk.",
+  uncovered_files: [],
+  open_concerns: [],
+};
+
+function createMockContext(overrides: Record<string, any> = {}) {
+  return {
+    payload: {
+      comment: {
+        body: overrides.commentBody ?? "/checklist status",
+        user: { login: "alice", type: "User" },
+      },
+      sender: { login: "alice", type: overrides.senderType ?? "User" },
+      issue: {
+        number: 1,
+        pull_request: overrides.isPR !== false ? { url: "..." } : undefined,
+      },
+      repository: {
+        owner: { login: "owner" },
+        name: "repo",
+      },
+    },
+    octokit: {
+      rest: {
+        issues: {
+          createComment: vi.fn().mockResolvedValue({}),
+          updateComment: vi.fn().mockResolvedValue({}),
+        },
+        pulls: {
+          get: vi.fn().mockResolvedValue({
+            data: {
+              number: 1,
+              title: "Test PR",
+              body: null,
+              user: { login: "developer" },
+              head: { sha: "def4567890" },
+              base: { ref: "main" },
+            },
+          }),
+        },
+      },
+    },
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  } as any;
+}
+
+function replyBody(context: any): string {
+  return context.octokit.rest.issues.createComment.mock.calls[0][0].body;
+}
+
+function configWithSkills(custom: unknown[] = []) {
+  return {
+    config: {
+      settings: {},
+      rules: [],
+      skills: { disable: [], overrides: {}, custom },
+    },
+    headSha: "def4567890",
+    author: "developer",
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (loadConfigForPR as any).mockResolvedValue(configWithSkills());
+  (resolveGate as any).mockResolvedValue({
+    mode: "review",
+    headSha: "def4567890",
+    items: [],
+  });
+  (findBotComment as any).mockResolvedValue({
+    id: 99,
+    body: generateChecklist(sampleResult, "abc1234"),
+  });
+});
+
+describe("parseCommand", () => {
+  it("returns null for comments not addressed to the bot", () => {
+    expect(parseCommand("LGTM")).toBeNull();
+    expect(parseCommand("see /checklist status")).toBeNull();
+  });
+
+  it("parses commands without arguments", () => {
+    expect(parseCommand("/checklist reanalyze")).toEqual({ name: "reanalyze" });
+    expect(parseCommand("/checklist STATUS\nthanks!")).toEqual({
+      name: "status",
+    });
+  });
+
+  it("parses skip with a multi-word reason", () => {
+    expect(
+      parseCommand("/checklist skip env-vars already set in Vault")
+    ).toEqual({
+      name: "skip",
+      ruleId: "env-vars",
+      reason: "already set in Vault",
+    });
+  });
+
+  it("requires a reason for skip", () => {
+    expect(parseCommand("/checklist skip env-vars")).toMatchObject({
+      name: "help",
+      error: expect.stringContaining("reason"),
+    });
+  });
+
+  it("requires a reason for override", () => {
+    expect(parseCommand("/checklist override INC-123 db failover")).toEqual({
+      name: "override",
+      reason: "INC-123 db failover",
+    });
+    expect(parseCommand("/checklist override")).toMatchObject({
+      name: "help",
+      error: expect.stringContaining("reason"),
+    });
+  });
+
+  it("falls back to help for unknown commands", () => {
+    expect(parseCommand("/checklist deploy")).toMatchObject({
+      name: "help",
+      error: expect.stringContaining("deploy"),
+    });
+  });
+});
+
+describe("handleIssueCommentCreated — filtering", () => {
+  it("ignores comments from bots", async () => {
+    const context = createMockContext({ senderType: "Bot" });
+    await handleIssueCommentCreated(context);
+    expect(context.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it("ignores comments on regular issues", async () => {
+    const context = createMockContext({ isPR: false });
+    await handleIssueCommentCreated(context);
+    expect(context.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it("ignores comments without a command", async () => {
+    const context = createMockContext({ commentBody: "Looks good" });
+    await handleIssueCommentCreated(context);
+    expect(findBotComment).not.toHaveBeenCalled();
+  });
+});
+
+describe("handleIssueCommentCreated — commands", () => {
+  it("reanalyze loads the PR's effective config and queues a re-analysis", async () => {
+    const context = createMockContext({ commentBody: "/checklist reanalyze" });
+    const config = { version: 1, settings: {}, rules: [] };
+    (loadEffectiveConfig as any).mockResolvedValue({ config });
+    (queueReanalysis as any).mockResolvedValue(null);
+
+    await handleIssueCommentCreated(context);
+
+    expect(loadEffectiveConfig).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      expect.objectContaining({ head: { sha: "def4567890" } })
+    );
+    expect(queueReanalysis).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      expect.objectContaining({ number: 1 }),
+      config
+    );
+    expect(replyBody(context)).toContain("def4567");
+  });
+
+  it("reanalyze says why a skipped PR is not re-analyzed", async () => {
+    const context = createMockContext({ commentBody: "/checklist reanalyze" });
+    (loadEffectiveConfig as any).mockResolvedValue({
+      config: { version: 1, settings: {}, rules: [] },
+    });
+    (queueReanalysis as any).mockResolvedValue("it is a draft");
+
+    await handleIssueCommentCreated(context);
+
+    expect(replyBody(context)).toContain(
+      "Not re-analyzing this PR: it is a draft."
+    );
+    expect(replyBody(context)).not.toContain("def4567");
+  });
+
+  it("skip checks off the rule's items and re-evaluates the gate", async () => {
+    const context = createMockContext({
+      commentBody: "/checklist skip env-vars set in Vault",
+    });
+
+    await handleIssueCommentCreated(context);
+
+    const updated =
+      context.octokit.rest.issues.updateComment.mock.calls[0][0].body;
+    expect(updated).toContain("- [x] **Confirm env vars set**");
+    expect(updated).toContain("_Skipped by @alice: set in Vault_");
+    expect(updated).toContain("- [ ] **Verify rollback exists**");
+    expect(blockPR).toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+
+  it("skip refuses items the commenter may not sign off", async () => {
+    (loadConfigForPR as any).mockResolvedValue({
+      ...configWithSkills(),
+      config: {
+        ...configWithSkills().config,
+        rules: [{ id: "env-vars", approvers: ["bob"] }],
+      },
+    });
+    const context = createMockContext({
+      commentBody: "/checklist skip env-vars set in Vault",
+    });
+
+    await handleIssueCommentCreated(context);
+
+    expect(context.octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(replyBody(context)).toContain(
+      "Rule `env-vars` was not skipped: only @bob can sign off this item."
+    );
+    expect(approvePR).not.toHaveBeenCalled();
+    expect(blockPR).not.toHaveBeenCalled();
+  });
+
+  it("skip reports unknown rule ids without editing the checklist", async () => {
+    const context = createMockContext({
+      commentBody: "/checklist skip docker not used",
+    });
+
+    await handleIssueCommentCreated(context);
+
+    expect(context.octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(replyBody(context)).toContain("No checklist items found");
+  });
+
+  it("override runs the break-glass flow as the commenter and reports the follow-up", async () => {
+    (overridePR as any).mockResolvedValue({
+      overridden: true,
+      unchecked: 2,
+      followUpIssue: 7,
+    });
+    const context = createMockContext({
+      commentBody: "/checklist override INC-123 db failover",
+    });
+
+    await handleIssueCommentCreated(context);
+
+    expect(overridePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      configWithSkills().config,
+      "def4567890",
+      { by: "alice", reason: "INC-123 db failover", source: "command" }
+    );
+    expect(replyBody(context)).toContain("tracked in #7");
+  });
+
+  it("override explains a refusal", async () => {
+    (overridePR as any).mockResolvedValue({
+      overridden: false,
+      denied: "only `acme/sre` can override the deploy checklist",
+    });
+    const context = createMockContext({
+      commentBody: "/checklist override trust me",
+    });
+
+    await handleIssueCommentCreated(context);
+
+    expect(replyBody(context)).toContain(
+      "was not overridden: only `acme/sre` can override"
+    );
+  });
+
+  it("explain describes an item by number, including its skill", async () => {
+    const context = createMockContext({ commentBody: "/checklist explain 2" });
+
+    await handleIssueCommentCreated(context);
+
+    const body = replyBody(context);
+    expect(body).toContain("**Confirm env vars set**");
+    expect(body).toContain("New env var referenced.");
+    expect(body).toContain("built-in `env-vars` skill");
+  });
+
+  it("explain and status number items the way the comment lists them", async () => {
+    // Stored low-priority first; the comment shows the high-priority item first
+    const body = generateChecklist(
+      {
+        ...sampleResult,
+        items: [
+          { ...sampleResult.items[1], check: "Low thing", priority: "low" },
+          { ...sampleResult.items[0], check: "High thing", priority: "high" },
+        ],
+      },
+      "abc1234"
+    );
+    expect(body.indexOf("High thing")).toBeLessThan(body.indexOf("Low thing"));
+    (findBotComment as any).mockResolvedValue({ id: 99, body });
+
+    const explain = createMockContext({ commentBody: "/checklist explain 1" });
+    await handleIssueCommentCreated(explain);
+    expect(replyBody(explain)).toContain("**High thing**");
+
+    const status = createMockContext({ commentBody: "/checklist status" });
+    await handleIssueCommentCreated(status);
+    expect(replyBody(status)).toContain(
+      "- **1.** High thing (`migration-review`)\n- **2.** Low thing (`env-vars`)"
+    );
+  });
+
+  it("explain attributes items to custom skills from the repo config", async () => {
+    const context = createMockContext({ commentBody: "/checklist explain 2" });
+    (loadConfigForPR as any).mockResolvedValue(
+      configWithSkills([
+        {
+          id: "env-vars",
+          name: "Vault-managed env vars",
+          paths: [],
+          content: ["process\\.env"],
+          system_context: "Env vars live in Vault.",
+          checks: ["Confirm the Vault path exists"],
+        },
+      ])
+    );
+
+    await handleIssueCommentCreated(context);
+
+    const body = replyBody(context);
+    expect(body).toContain(
+      "`env-vars` skill defined in this repo's config (Vault-managed env vars)"
+    );
+    expect(body).toContain("- Confirm the Vault path exists");
+  });
+
+  it("audit exports the recorded history as a table and JSON", async () => {
+    const context = createMockContext({ commentBody: "/checklist audit" });
+    (findBotComment as any).mockResolvedValue({
+      id: 99,
+      body: skipRule(
+        generateChecklist(sampleResult, "abc1234"),
+        "env-vars",
+        "bob",
+        "set in Vault",
+        new Date("2026-10-12T09:30:00Z")
+      ).body,
+    });
+
+    await handleIssueCommentCreated(context);
+
+    const body = replyBody(context);
+    expect(body).toContain(
+      "| 2026-10-12T09:30:00.000Z | @bob | skipped | Confirm env vars set | `env-vars` | set in Vault |"
+    );
+    expect(body).toContain('"item_id"');
+  });
+
+  it("status lists progress and open items", async () => {
+    const context = createMockContext({ commentBody: "/checklist status" });
+
+    await handleIssueCommentCreated(context);
+
+    const body = replyBody(context);
+    expect(body).toContain("**0/2** items checked");
+    expect(body).toContain("- **1.** Verify rollback exists (`migration-review`)");
+  });
+});
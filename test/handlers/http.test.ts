@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  handleHttpRequest,
+  recordWebhookEvent,
+} from "../../src/handlers/http.js";
+import { Histogram, resetMetrics } from "../../src/utils/metrics.js";
+
+function request(
+  method: string,
+  url: string,
+  headers: Record<string, string> = {}
+) {
+  const res = {
+    status: 0,
+    headers: {} as Record<string, string>,
+    body: "",
+    writeHead(status: number, headers: Record<string, string>) {
+      res.status = status;
+      res.headers = headers;
+      return res;
+    },
+    end(body: string) {
+      res.body = body;
+      return res;
+    },
+  };
+  const handled = handleHttpRequest(
+    { method, url, headers } as any,
+    res as any
+  );
+  return { handled, res };
+}
+
+const auth = { authorization: "Bearer s3cret" };
+
+describe("handleHttpRequest", () => {
+  beforeEach(() => {
+    resetMetrics();
+    process.env.METRICS_TOKEN = "s3cret";
+  });
+
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+  });
+
+  it("requires the metrics token as a bearer token", () => {
+    expect(request("GET", "/metrics").res.status).toBe(401);
+    expect(
+      request("GET", "/metrics", { authorization: "Bearer wrong" }).res.status
+    ).toBe(401);
+
+    delete process.env.METRICS_TOKEN;
+    const { handled, res } = request("GET", "/metrics", {
+      authorization: "Bearer s3cret",
+    });
+    expect(handled).toBe(true);
+    expect(res.status).toBe(404);
+  });
+
+  it("serves registered metrics in the Prometheus text format", () => {
+    recordWebhookEvent("pull_request", "opened");
+    recordWebhookEvent("pull_request", "opened");
+    recordWebhookEvent("ping");
+
+    const { handled, res } = request("GET", "/metrics", auth);
+
+    expect(handled).toBe(true);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/plain");
+    expect(res.body).toContain(
+      'deploy_checklist_webhook_events_total{event="pull_request",action="opened"} 2'
+    );
+    expect(res.body).toContain(
+      'deploy_checklist_webhook_events_total{event="ping",action=""} 1'
+    );
+  });
+
+  it("reports health with the time of the last webhook", () => {
+    recordWebhookEvent("issue_comment", "created");
+
+    const { handled, res } = request("GET", "/healthz?probe=1");
+    const body = JSON.parse(res.body);
+
+    expect(handled).toBe(true);
+    expect(body.status).toBe("ok");
+    expect(body.uptime_seconds).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(body.last_webhook_at)).not.toBeNaN();
+  });
+
+  it("leaves other routes and methods to Probot", () => {
+    expect(request("GET", "/api/github/webhooks").handled).toBe(false);
+    expect(request("POST", "/metrics").handled).toBe(false);
+  });
+});
+
+describe("Histogram", () => {
+  it("renders cumulative buckets, sum and count per label set", () => {
+    const h = new Histogram("latency_seconds", "Latency", [1, 0.1], ["op"]);
+    h.observe({ op: "a" }, 0.05);
+    h.observe({ op: "a" }, 0.5);
+    h.observe({ op: "a" }, 3);
+
+    const text = h.render();
+
+    expect(text).toContain('latency_seconds_bucket{op="a",le="0.1"} 1');
+    expect(text).toContain('latency_seconds_bucket{op="a",le="1"} 2');
+    expect(text).toContain('latency_seconds_bucket{op="a",le="+Inf"} 3');
+    expect(text).toContain('latency_seconds_sum{op="a"} 3.55');
+    expect(text).toContain('latency_seconds_count{op="a"} 3');
+  });
+
+  it("times a function even when it throws", async () => {
+    const h = new Histogram("op_seconds", "Op", [1]);
+
+    await expect(
+      h.time({}, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(h.count()).toBe(1);
+  });
+});
@@ -2,8 +2,10 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 vi.mock("../../src/services/checklist.js", () => ({
   BOT_MARKER: "<!-- deploy-checklist-bot:v1 -->",
-  isComplete: vi.fn(),
   parseChecklist: vi.fn(),
+  recordToggles: vi.fn(),
+  renderChecklist: vi.fn(() => "rendered checklist"),
+  revertChecks: vi.fn(),
 }));
 
 vi.mock("../../src/services/review-manager.js", () => ({
@@ -11,9 +13,29 @@ vi.mock("../../src/services/review-manager.js", () => ({
   approvePR: vi.fn(),
 }));
 
+vi.mock("../../src/services/config-loader.js", () => ({
+  loadConfigForPR: vi.fn(),
+}));
+
+vi.mock("../../src/services/approvals.js", () => ({
+  findUnauthorizedChecks: vi.fn(),
+}));
+
 import { handleIssueCommentEdited } from "../../src/handlers/issue-comment.js";
-import { parseChecklist } from "../../src/services/checklist.js";
+import {
+  parseChecklist,
+  recordToggles,
+  revertChecks,
+} from "../../src/services/checklist.js";
 import { blockPR, approvePR } from "../../src/services/review-manager.js";
+import { loadConfigForPR } from "../../src/services/config-loader.js";
+import { findUnauthorizedChecks } from "../../src/services/approvals.js";
+
+const config = { settings: { gate_mode: "check_run" }, rules: [] };
+
+function gate(items: unknown[]) {
+  return { mode: "check_run", headSha: "head456", items };
+}
 
 function createMockContext(overrides: Record<string, any> = {}) {
   return {
@@ -22,8 +44,12 @@ function createMockContext(overrides: Record<string, any> = {}) {
         body:
           overrides.commentBody ??
           "<!-- deploy-checklist-bot:v1 -->\n- [x] Item",
+        id: 55,
         user: { login: "deploy-checklist-bot[bot]" },
+        updated_at: "2026-10-12T09:30:00Z",
       },
+      changes: overrides.changes ?? {},
+      sender: { login: "alice", type: overrides.senderType ?? "User" },
       issue: {
         number: 1,
         pull_request: overrides.isPR !== false ? { url: "..." } : undefined,
@@ -33,6 +59,14 @@ function createMockContext(overrides: Record<string, any> = {}) {
         name: "repo",
       },
     },
+    octokit: {
+      rest: {
+        issues: {
+          updateComment: vi.fn().mockResolvedValue({}),
+          createComment: vi.fn().mockResolvedValue({}),
+        },
+      },
+    },
     log: {
       info: vi.fn(),
       warn: vi.fn(),
@@ -43,6 +77,12 @@ function createMockContext(overrides: Record<string, any> = {}) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  (loadConfigForPR as any).mockResolvedValue({
+    config,
+    headSha: "head456",
+    author: "developer",
+  });
+  (findUnauthorizedChecks as any).mockResolvedValue(new Map());
 });
 
 describe("handleIssueCommentEdited — filtering", () => {
@@ -63,37 +103,151 @@ describe("handleIssueCommentEdited — filtering", () => {
     await handleIssueCommentEdited(context);
     expect(parseChecklist).not.toHaveBeenCalled();
   });
+
+  it("ignores edits made by bots (including its own re-renders)", async () => {
+    const context = createMockContext({ senderType: "Bot" });
+    await handleIssueCommentEdited(context);
+    expect(parseChecklist).not.toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+});
+
+describe("handleIssueCommentEdited — audit trail", () => {
+  const state = {
+    sha: "abc123",
+    items: [{ id: "a1", checked: true, item: { rule_id: "test" } }],
+    allComplete: true,
+  };
+
+  it("records toggles against the previous body and re-renders the comment", async () => {
+    const context = createMockContext({
+      changes: {
+        body: { from: "<!-- deploy-checklist-bot:v1 -->\n- [ ] Item" },
+      },
+    });
+    const recorded = {
+      ...state,
+      items: [{ ...state.items[0], checkedBy: "alice" }],
+    };
+    (parseChecklist as any).mockReturnValue(state);
+    (recordToggles as any).mockReturnValue({
+      state: recorded,
+      toggled: ["a1"],
+    });
+
+    await handleIssueCommentEdited(context);
+
+    expect(recordToggles).toHaveBeenCalledWith(
+      "<!-- deploy-checklist-bot:v1 -->\n- [ ] Item",
+      "<!-- deploy-checklist-bot:v1 -->\n- [x] Item",
+      "alice",
+      "2026-10-12T09:30:00Z"
+    );
+    expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      comment_id: 55,
+      body: "rendered checklist",
+    });
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      undefined,
+      gate(recorded.items)
+    );
+  });
+
+  it("restores an edited state block and gates on the restored state", async () => {
+    const context = createMockContext({
+      changes: {
+        body: { from: "<!-- deploy-checklist-bot:v1 -->\n- [ ] Item" },
+      },
+    });
+    const restored = {
+      ...state,
+      items: [{ ...state.items[0], checked: false }],
+      allComplete: false,
+    };
+    (parseChecklist as any).mockReturnValue(state);
+    (recordToggles as any).mockReturnValue({
+      state: restored,
+      toggled: [],
+      restored: true,
+    });
+
+    await handleIssueCommentEdited(context);
+
+    expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "rendered checklist" })
+    );
+    expect(context.log.warn).toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+    expect(blockPR).toHaveBeenCalled();
+  });
+
+  it("does not rewrite the comment when no checkbox changed", async () => {
+    const context = createMockContext({
+      changes: {
+        body: { from: "<!-- deploy-checklist-bot:v1 -->\n- [x] Item" },
+      },
+    });
+    (parseChecklist as any).mockReturnValue(state);
+    (recordToggles as any).mockReturnValue({ state, toggled: [] });
+
+    await handleIssueCommentEdited(context);
+
+    expect(context.octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(approvePR).toHaveBeenCalled();
+  });
 });
 
 describe("handleIssueCommentEdited — checklist evaluation", () => {
   it("approves PR when all items are checked", async () => {
     const context = createMockContext();
+    const items = [{ checked: true, item: { rule_id: "test" } }];
     (parseChecklist as any).mockReturnValue({
       sha: "abc123",
-      items: [{ checked: true, item: { rule_id: "test" } }],
+      items,
       allComplete: true,
     });
 
     await handleIssueCommentEdited(context);
 
-    expect(approvePR).toHaveBeenCalledWith(context, "owner", "repo", 1);
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      undefined,
+      gate(items)
+    );
     expect(blockPR).not.toHaveBeenCalled();
   });
 
   it("blocks PR when items are unchecked", async () => {
     const context = createMockContext();
+    const items = [
+      { checked: true, item: { rule_id: "test1" } },
+      { checked: false, item: { rule_id: "test2" } },
+    ];
     (parseChecklist as any).mockReturnValue({
       sha: "abc123",
-      items: [
-        { checked: true, item: { rule_id: "test1" } },
-        { checked: false, item: { rule_id: "test2" } },
-      ],
+      items,
       allComplete: false,
     });
 
     await handleIssueCommentEdited(context);
 
-    expect(blockPR).toHaveBeenCalled();
+    expect(blockPR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      expect.stringContaining("1 unchecked item(s)"),
+      gate(items)
+    );
     expect(approvePR).not.toHaveBeenCalled();
   });
 
@@ -106,4 +260,93 @@ describe("handleIssueCommentEdited — checklist evaluation", () => {
     expect(approvePR).not.toHaveBeenCalled();
     expect(blockPR).not.toHaveBeenCalled();
   });
+
+  it("loads config for the PR to resolve the gate", async () => {
+    const context = createMockContext();
+    (parseChecklist as any).mockReturnValue({
+      sha: "abc123",
+      items: [],
+      allComplete: false,
+    });
+
+    await handleIssueCommentEdited(context);
+
+    expect(loadConfigForPR).toHaveBeenCalledWith(context, "owner", "repo", 1);
+  });
+});
+
+describe("handleIssueCommentEdited — approver enforcement", () => {
+  const state = {
+    sha: "abc123",
+    items: [
+      {
+        id: "a1",
+        checked: true,
+        item: { rule_id: "migration-review", check: "Verify rollback" },
+      },
+    ],
+    allComplete: true,
+  };
+  const reverted = {
+    ...state,
+    items: [{ ...state.items[0], checked: false }],
+    allComplete: false,
+  };
+
+  it("reverts unauthorized checks, explains why, and keeps the PR blocked", async () => {
+    const context = createMockContext({
+      changes: {
+        body: { from: "<!-- deploy-checklist-bot:v1 -->\n- [ ] Item" },
+      },
+    });
+    const unauthorized = new Map([
+      ["a1", "only `acme/dba` can sign off this item"],
+    ]);
+    (parseChecklist as any).mockReturnValue(state);
+    (recordToggles as any).mockReturnValue({ state, toggled: ["a1"] });
+    (findUnauthorizedChecks as any).mockResolvedValue(unauthorized);
+    (revertChecks as any).mockReturnValue(reverted);
+
+    await handleIssueCommentEdited(context);
+
+    expect(findUnauthorizedChecks).toHaveBeenCalledWith(
+      context,
+      config,
+      state.items,
+      ["a1"],
+      "alice",
+      "developer"
+    );
+    expect(revertChecks).toHaveBeenCalledWith(
+      state,
+      unauthorized,
+      "alice",
+      "2026-10-12T09:30:00Z"
+    );
+    expect(context.octokit.rest.issues.updateComment).toHaveBeenCalled();
+    const explanation =
+      context.octokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(explanation).toContain("@alice");
+    expect(explanation).toContain(
+      "**Verify rollback** — only `acme/dba` can sign off this item"
+    );
+    expect(blockPR).toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+
+  it("does not post an explanation when every check is authorized", async () => {
+    const context = createMockContext({
+      changes: {
+        body: { from: "<!-- deploy-checklist-bot:v1 -->\n- [ ] Item" },
+      },
+    });
+    (parseChecklist as any).mockReturnValue(state);
+    (recordToggles as any).mockReturnValue({ state, toggled: ["a1"] });
+
+    await handleIssueCommentEdited(context);
+
+    expect(revertChecks).not.toHaveBeenCalled();
+    expect(context.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(approvePR).toHaveBeenCalled();
+  });
 });
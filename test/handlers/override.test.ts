@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/services/config-loader.js", () => ({
+  loadEffectiveConfig: vi.fn(),
+}));
+
+vi.mock("../../src/services/review-manager.js", () => ({
+  approvePR: vi.fn(),
+}));
+
+const cancel = vi.fn();
+vi.mock("../../src/services/job-queue.js", () => ({
+  getJobQueue: vi.fn(() => ({ cancel })),
+  prJobKey: vi.fn(
+    (owner: string, repo: string, prNumber: number) =>
+      `${owner}/${repo}#${prNumber}`
+  ),
+}));
+
+vi.mock("../../src/handlers/pull-request.js", () => ({
+  findBotComment: vi.fn(),
+  rejectLabel: vi.fn(),
+}));
+
+import {
+  overridePR,
+  handleOverrideLabel,
+} from "../../src/handlers/override.js";
+import { loadEffectiveConfig } from "../../src/services/config-loader.js";
+import { approvePR } from "../../src/services/review-manager.js";
+import {
+  findBotComment,
+  rejectLabel,
+} from "../../src/handlers/pull-request.js";
+import {
+  generateChecklist,
+  parseChecklist,
+  recordToggles,
+  renderChecklist,
+} from "../../src/services/checklist.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+import type { AnalysisResult } from "../../src/schemas/analysis-result.js";
+
+const sampleResult: AnalysisResult = {
+  items: [
+    {
+      rule_id: "migration-review",
+      check: "Verify rollback exists",
+      description: "Verify migration rollback",
+      reasoning: "New migration file detected.",
+      priority: "high",
+    },
+    {
+      rule_id: "env-vars",
+      check: "Confirm env vars set",
+      description: "Add DATABASE_URL to production",
+      reasoning: "New env var referenced.",
+      priority: "medium",
+    },
+  ],
+  summary: "Medium risk.",
+  uncovered_files: [],
+  open_concerns: [],
+};
+
+const config = DeployChecklistConfigSchema.parse({
+  settings: { override_approvers: ["acme/sre"] },
+});
+
+function createMockContext(membership: "active" | "missing" = "active") {
+  return {
+    payload: {
+      action: "labeled",
+      label: { name: "hotfix" },
+      sender: { login: "alice", type: "User" },
+      pull_request: {
+        number: 1,
+        body: "Roll back the payments cache.\n\nOverride reason: INC-123 payments outage",
+        head: { sha: "def4567890" },
+        base: { ref: "main" },
+      },
+      repository: { owner: { login: "owner" }, name: "repo" },
+    },
+    octokit: {
+      rest: {
+        issues: {
+          create: vi.fn().mockResolvedValue({ data: { number: 7 } }),
+          createComment: vi.fn().mockResolvedValue({}),
+          updateComment: vi.fn().mockResolvedValue({}),
+        },
+        teams: {
+          getMembershipForUserInOrg: vi.fn(async () => {
+            if (membership === "active") return { data: { state: "active" } };
+            throw Object.assign(new Error("Not Found"), { status: 404 });
+          }),
+        },
+      },
+    },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+/** A checklist with "Confirm env vars set" already ticked by bob. */
+function partlyCheckedChecklist(): string {
+  const unchecked = generateChecklist(sampleResult, "def4567890");
+  const ticked = unchecked.replace(
+    "- [ ] **Confirm env vars set**",
+    "- [x] **Confirm env vars set**"
+  );
+  return renderChecklist(
+    recordToggles(unchecked, ticked, "bob", "2026-10-17T12:00:00Z")!.state
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (loadEffectiveConfig as any).mockResolvedValue({ config });
+  (findBotComment as any).mockResolvedValue({
+    id: 99,
+    body: partlyCheckedChecklist(),
+  });
+});
+
+describe("overridePR", () => {
+  const request = {
+    by: "alice",
+    reason: "INC-123 payments outage",
+    source: "command" as const,
+  };
+
+  it("moves unchecked items to a follow-up issue, stamps the comment and approves", async () => {
+    const context = createMockContext();
+
+    const outcome = await overridePR(
+      context,
+      "owner",
+      "repo",
+      1,
+      config,
+      "def4567890",
+      request
+    );
+
+    expect(outcome).toEqual({
+      overridden: true,
+      unchecked: 1,
+      followUpIssue: 7,
+    });
+    expect(cancel).toHaveBeenCalledWith("owner/repo#1");
+
+    const issue = context.octokit.rest.issues.create.mock.calls[0][0];
+    expect(issue.title).toBe("Deploy checklist follow-up for #1");
+    expect(issue.body).toContain("> INC-123 payments outage");
+    expect(issue.body).toContain("- [ ] **Verify rollback exists**");
+    expect(issue.body).not.toContain("Confirm env vars set");
+
+    const body =
+      context.octokit.rest.issues.updateComment.mock.calls[0][0].body;
+    expect(body).toContain("⚠️ **Overridden** by @alice");
+    expect(body).toContain("tracked in #7");
+    const state = parseChecklist(body)!;
+    expect(state.override).toMatchObject({
+      by: "alice",
+      reason: "INC-123 payments outage",
+      follow_up_issue: 7,
+    });
+    expect(
+      state.items.find((i) => !i.checked)!.history!.map((e) => e.action)
+    ).toEqual(["overridden"]);
+
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      "Deploy checklist overridden by @alice: INC-123 payments outage. Unchecked items: #7.",
+      expect.objectContaining({ mode: "review", headSha: "def4567890" })
+    );
+  });
+
+  it("refuses users outside override_approvers", async () => {
+    const context = createMockContext("missing");
+
+    const outcome = await overridePR(
+      context,
+      "owner",
+      "repo",
+      1,
+      config,
+      "def4567890",
+      request
+    );
+
+    expect(outcome).toEqual({
+      overridden: false,
+      denied: "only `acme/sre` can override the deploy checklist",
+    });
+    expect(context.octokit.rest.issues.create).not.toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+});
+
+describe("handleOverrideLabel", () => {
+  it("overrides with the PR description's override reason", async () => {
+    const context = createMockContext();
+
+    await handleOverrideLabel(context);
+
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      "Deploy checklist overridden by @alice: INC-123 payments outage. Unchecked items: #7.",
+      expect.anything()
+    );
+  });
+
+  it("takes the label back when the user may not override", async () => {
+    const context = createMockContext("missing");
+
+    await handleOverrideLabel(context);
+
+    expect(rejectLabel).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      context.payload.pull_request,
+      config,
+      "hotfix",
+      "only `acme/sre` can override the deploy checklist"
+    );
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+
+  it("takes the label back without an override reason", async () => {
+    const context = createMockContext();
+    context.payload.pull_request.body = "Roll back the payments cache.";
+
+    await handleOverrideLabel(context);
+
+    expect(rejectLabel).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      context.payload.pull_request,
+      config,
+      "hotfix",
+      expect.stringContaining("add an `Override reason: …` line")
+    );
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+
+  it("leaves the label alone while override_approvers is empty", async () => {
+    (loadEffectiveConfig as any).mockResolvedValue({
+      config: DeployChecklistConfigSchema.parse({}),
+    });
+    const context = createMockContext();
+
+    await handleOverrideLabel(context);
+
+    expect(rejectLabel).not.toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+    expect(
+      context.octokit.rest.teams.getMembershipForUserInOrg
+    ).not.toHaveBeenCalled();
+  });
+
+  it("ignores other labels", async () => {
+    const context = createMockContext();
+    context.payload.label = { name: "bug" };
+
+    await handleOverrideLabel(context);
+
+    expect(approvePR).not.toHaveBeenCalled();
+    expect(rejectLabel).not.toHaveBeenCalled();
+  });
+});
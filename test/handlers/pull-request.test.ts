@@ -2,18 +2,28 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 vi.mock("../../src/services/config-loader.js", () => ({
   loadConfig: vi.fn(),
+  loadEffectiveConfig: vi.fn(),
+  isConfigPath: vi.fn(
+    (path: string) => path === ".github/deploy-checklist.yml"
+  ),
+  loadConfigChange: vi.fn(),
 }));
 
 vi.mock("../../src/services/diff-analyzer.js", () => ({
   fetchPRDiff: vi.fn(),
+  fetchCompareDiff: vi.fn(),
   analyzeDiff: vi.fn(),
+  analyzeIncrement: vi.fn(),
   extractFilesFromDiff: vi.fn(),
+  isBudgetSpent: vi.fn(),
 }));
 
 vi.mock("../../src/services/checklist.js", () => ({
   generateChecklist: vi.fn(),
   parseChecklist: vi.fn(),
   mergeChecklist: vi.fn(),
+  applyChecklistUpdate: vi.fn(),
+  mergeConcurrentEdits: vi.fn(),
   isComplete: vi.fn(),
   BOT_MARKER: "<!-- deploy-checklist-bot:v1 -->",
 }));
@@ -24,19 +34,42 @@ vi.mock("../../src/services/review-manager.js", () => ({
   postErrorComment: vi.fn(),
 }));
 
-vi.mock("../../src/utils/debounce.js", () => ({
-  debouncePR: vi.fn((key, delay, callback) => callback()),
-  debounceKey: vi.fn(() => "owner/repo#1"),
+const enqueue = vi.fn();
+const cancel = vi.fn();
+vi.mock("../../src/services/job-queue.js", () => ({
+  getJobQueue: vi.fn(() => ({ enqueue, cancel })),
+  prJobKey: vi.fn(
+    (owner: string, repo: string, prNumber: number) =>
+      `${owner}/${repo}#${prNumber}`
+  ),
 }));
 
-import { handlePullRequest } from "../../src/handlers/pull-request.js";
-import { loadConfig } from "../../src/services/config-loader.js";
+import {
+  handlePullRequest,
+  queueReanalysis,
+  runAnalysisJob,
+  ANALYZE_PR_JOB,
+} from "../../src/handlers/pull-request.js";
+import { AnalysisError } from "../../src/services/analysis-errors.js";
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  loadConfigChange,
+} from "../../src/services/config-loader.js";
 import {
   fetchPRDiff,
+  fetchCompareDiff,
   analyzeDiff,
+  analyzeIncrement,
   extractFilesFromDiff,
 } from "../../src/services/diff-analyzer.js";
-import { generateChecklist } from "../../src/services/checklist.js";
+import {
+  generateChecklist,
+  parseChecklist,
+  mergeChecklist,
+  applyChecklistUpdate,
+  mergeConcurrentEdits,
+} from "../../src/services/checklist.js";
 import {
   blockPR,
   approvePR,
@@ -52,6 +85,19 @@ const defaultConfig = {
       target_branches: ["main"],
       post_empty_checklist: false,
       max_diff_size: 100000,
+      large_diff_strategy: "truncate",
+      max_prompt_tokens: 60000,
+      gate_mode: "review",
+      config_source: "base",
+      analysis_mode: "llm",
+      max_output_tokens: 4000,
+      usage_footer: false,
+      labels: {
+        skip: "skip-deploy-checklist",
+        reanalyze: "deploy-checklist:reanalyze",
+        override: "hotfix",
+      },
+      override_approvers: [],
     },
     rules: [],
   },
@@ -61,6 +107,9 @@ function createMockContext(overrides: Record<string, any> = {}) {
   return {
     payload: {
       action: overrides.action ?? "opened",
+      changes: overrides.changes,
+      label: overrides.label,
+      sender: { login: "alice" },
       pull_request: {
         number: 1,
         title: "Test PR",
@@ -69,6 +118,7 @@ function createMockContext(overrides: Record<string, any> = {}) {
         user: { login: overrides.author ?? "developer" },
         head: { sha: "abc123" },
         base: { ref: overrides.baseBranch ?? "main" },
+        labels: overrides.labels ?? [],
         ...overrides.pr,
       },
       repository: {
@@ -81,7 +131,14 @@ function createMockContext(overrides: Record<string, any> = {}) {
         issues: {
           createComment: vi.fn().mockResolvedValue({}),
           listComments: vi.fn().mockResolvedValue({ data: [] }),
+          getComment: vi.fn(),
           updateComment: vi.fn().mockResolvedValue({}),
+          removeLabel: vi.fn().mockResolvedValue({}),
+        },
+        pulls: {
+          get: vi
+            .fn()
+            .mockResolvedValue({ data: { head: { sha: "abc123" } } }),
         },
       },
     },
@@ -95,7 +152,7 @@ function createMockContext(overrides: Record<string, any> = {}) {
 
 beforeEach(() => {
   vi.clearAllMocks();
-  (loadConfig as any).mockResolvedValue(defaultConfig);
+  (loadEffectiveConfig as any).mockResolvedValue(defaultConfig);
   (fetchPRDiff as any).mockResolvedValue("diff content");
   (extractFilesFromDiff as any).mockReturnValue(["src/file.ts"]);
   (generateChecklist as any).mockReturnValue("## Deploy Checklist\n...");
@@ -169,19 +226,707 @@ describe("handlePullRequest — opened event", () => {
 
   it("posts error comment and does not block on analysis failure", async () => {
     const context = createMockContext();
-    (analyzeDiff as any).mockResolvedValue(null);
+    const failure = new AnalysisError("429", "rate_limited", 4);
+    (analyzeDiff as any).mockRejectedValue(failure);
 
     await handlePullRequest(context);
 
-    expect(postErrorComment).toHaveBeenCalled();
+    expect(postErrorComment).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      "Analysis failed after 4 attempt(s).",
+      failure
+    );
     expect(blockPR).not.toHaveBeenCalled();
   });
 });
 
 describe("handlePullRequest — ignored actions", () => {
   it("ignores unhandled action types", async () => {
-    const context = createMockContext({ action: "closed" });
+    const context = createMockContext({ action: "assigned" });
+    await handlePullRequest(context);
+    expect(analyzeDiff).not.toHaveBeenCalled();
+  });
+});
+
+describe("handlePullRequest — edits, closes and labels", () => {
+  function installed(overrides: Record<string, any>) {
+    const context = createMockContext(overrides);
+    context.payload.installation = { id: 42 };
+    return context;
+  }
+
+  it("cancels queued analysis when the PR is closed", async () => {
+    const context = installed({ action: "closed" });
+
+    await handlePullRequest(context);
+
+    expect(cancel).toHaveBeenCalledWith("owner/repo#1");
+    expect(loadEffectiveConfig).not.toHaveBeenCalled();
+  });
+
+  it("re-analyzes when the description is edited", async () => {
+    const context = installed({
+      action: "edited",
+      changes: { body: { from: "Old description" } },
+    });
+
+    await handlePullRequest(context);
+
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "owner/repo#1", type: ANALYZE_PR_JOB })
+    );
+  });
+
+  it("ignores description edits when the analysis is deterministic", async () => {
+    (loadEffectiveConfig as any).mockResolvedValue({
+      config: {
+        ...defaultConfig.config,
+        settings: {
+          ...defaultConfig.config.settings,
+          analysis_mode: "deterministic",
+        },
+      },
+    });
+    const context = installed({
+      action: "edited",
+      changes: { title: { from: "Old title" } },
+    });
+
+    await handlePullRequest(context);
+
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it("releases the gate when the PR is retargeted off the configured branches", async () => {
+    const context = installed({
+      action: "edited",
+      baseBranch: "release/1.x",
+      changes: { base: { ref: { from: "main" } } },
+    });
+    context.octokit.rest.issues.listComments.mockResolvedValue({
+      data: [{ id: 99, body: "<!-- deploy-checklist-bot:v1 --> old" }],
+    });
+
+    await handlePullRequest(context);
+
+    expect(cancel).toHaveBeenCalledWith("owner/repo#1");
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      expect.stringContaining("`release/1.x`"),
+      expect.anything()
+    );
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it("approves without a checklist when an override approver adds the skip label", async () => {
+    (loadEffectiveConfig as any).mockResolvedValue({
+      config: {
+        ...defaultConfig.config,
+        settings: {
+          ...defaultConfig.config.settings,
+          override_approvers: ["alice"],
+        },
+      },
+    });
+    const context = installed({
+      action: "labeled",
+      label: { name: "skip-deploy-checklist" },
+      labels: [{ name: "skip-deploy-checklist" }],
+    });
+
+    await handlePullRequest(context);
+
+    expect(cancel).toHaveBeenCalledWith("owner/repo#1");
+    expect(approvePR).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      1,
+      "Deploy checklist skipped — @alice added the `skip-deploy-checklist` label.",
+      expect.anything()
+    );
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it("takes back a skip label from anyone else and re-analyzes", async () => {
+    const context = installed({
+      action: "labeled",
+      label: { name: "skip-deploy-checklist" },
+      labels: [{ name: "skip-deploy-checklist" }],
+    });
+
+    await handlePullRequest(context);
+
+    expect(approvePR).not.toHaveBeenCalled();
+    expect(context.octokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "skip-deploy-checklist" })
+    );
+    expect(context.octokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(
+          "@alice the `skip-deploy-checklist` label was removed: overrides are not enabled"
+        ),
+      })
+    );
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ANALYZE_PR_JOB })
+    );
+  });
+
+  it("does not analyze while the skip label or a recorded override label is on", async () => {
+    (parseChecklist as any).mockReturnValue({
+      items: [],
+      override: { by: "alice", at: "2026-10-18T08:00:00Z", reason: "INC-1" },
+    });
+    for (const name of ["skip-deploy-checklist", "hotfix"]) {
+      const context = installed({
+        action: "synchronize",
+        labels: [{ name }],
+      });
+      context.octokit.rest.issues.listComments.mockResolvedValue({
+        data: [{ id: 99, body: "<!-- deploy-checklist-bot:v1 --> old" }],
+      });
+
+      await handlePullRequest(context);
+    }
+
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it("still analyzes a PR opened with the override label until an override is recorded", async () => {
+    const context = installed({
+      action: "opened",
+      labels: [{ name: "hotfix" }],
+    });
+
+    await handlePullRequest(context);
+
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ANALYZE_PR_JOB })
+    );
+  });
+
+  it("re-analyzes and removes the label when the reanalyze label is added", async () => {
+    const context = installed({
+      action: "labeled",
+      label: { name: "deploy-checklist:reanalyze" },
+      labels: [{ name: "deploy-checklist:reanalyze" }],
+    });
+
+    await handlePullRequest(context);
+
+    expect(context.octokit.rest.issues.removeLabel).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      issue_number: 1,
+      name: "deploy-checklist:reanalyze",
+    });
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ type: ANALYZE_PR_JOB })
+    );
+  });
+});
+
+describe("handlePullRequest — config changes under review", () => {
+  const configChange = { changes: ["Rule `payments` removed"] };
+
+  function withConfig(settings: Record<string, unknown>) {
+    (loadEffectiveConfig as any).mockResolvedValue({
+      config: {
+        ...defaultConfig.config,
+        settings: { ...defaultConfig.config.settings, ...settings },
+      },
+    });
+  }
+
+  beforeEach(() => {
+    (extractFilesFromDiff as any).mockReturnValue([
+      ".github/deploy-checklist.yml",
+    ]);
+    (loadConfigChange as any).mockResolvedValue(configChange);
+    (analyzeDiff as any).mockResolvedValue({ items: [], summary: "Clean" });
+  });
+
+  it("loads config for the PR via the effective config source", async () => {
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    expect(loadEffectiveConfig).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      context.payload.pull_request
+    );
+  });
+
+  it("adds a mandatory review item when the PR edits the config", async () => {
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    const result = (generateChecklist as any).mock.calls[0][0];
+    expect(result.items[0]).toMatchObject({
+      rule_id: "deploy-checklist-config",
+      description: "Rule `payments` removed",
+      priority: "high",
+    });
+    expect(blockPR).toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+
+  it("lists the changes only in the review item under the default base enforcement", async () => {
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    const bodies = context.octokit.rest.issues.createComment.mock.calls.map(
+      (c: any) => c[0].body
+    );
+    expect(bodies.some((b: string) => b.includes("Config Change Preview"))).toBe(
+      false
+    );
+    expect(blockPR).toHaveBeenCalled();
+  });
+
+  it("posts the effective diff with config_source: base_with_head_preview", async () => {
+    withConfig({ config_source: "base_with_head_preview" });
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    const bodies = context.octokit.rest.issues.createComment.mock.calls.map(
+      (c: any) => c[0].body
+    );
+    expect(bodies[0]).toContain("Config Change Preview");
+    expect(bodies[0]).toContain("still enforced");
+    expect(bodies[0]).toContain("- Rule `payments` removed");
+  });
+
+  it("does not post the diff from a superseded run", async () => {
+    withConfig({ config_source: "base_with_head_preview" });
+    const context = createMockContext();
+    context.octokit.rest.pulls.get.mockResolvedValue({
+      data: { head: { sha: "newer99" } },
+    });
+    await handlePullRequest(context);
+
+    expect(context.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it("posts the diff against the base config without a review item when config_source is head", async () => {
+    withConfig({ config_source: "head" });
+    const baseConfig = { ...defaultConfig.config, rules: [{ id: "payments" }] };
+    (loadConfig as any).mockResolvedValue({ config: baseConfig });
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    expect(loadConfig).toHaveBeenCalledWith(context, "owner", "repo", "main");
+    expect(loadConfigChange).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      baseConfig,
+      "abc123"
+    );
+    expect(
+      context.octokit.rest.issues.createComment.mock.calls[0][0].body
+    ).toContain("is analyzed with it");
+    expect(approvePR).toHaveBeenCalled();
+  });
+
+  it("skips the config review when the config file is untouched", async () => {
+    (extractFilesFromDiff as any).mockReturnValue(["src/file.ts"]);
+    const context = createMockContext();
+    await handlePullRequest(context);
+
+    expect(loadConfigChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("handlePullRequest — incremental re-analysis", () => {
+  const oldState = {
+    version: 2,
+    sha: "old111",
+    summary: "Some risk.",
+    items: [
+      {
+        id: "a1",
+        checked: true,
+        item: { rule_id: "test", check: "Check", files: ["src/file.ts"] },
+      },
+    ],
+  };
+  const fileDelta = [
+    "diff --git a/src/file.ts b/src/file.ts",
+    "--- a/src/file.ts",
+    "+++ b/src/file.ts",
+    "@@ -1 +1 @@",
+    "-old",
+    "+new",
+    "",
+  ].join("\n");
+
+  function syncContext() {
+    const context = createMockContext({ action: "synchronize" });
+    context.octokit.rest.issues.listComments.mockResolvedValue({
+      data: [{ id: 99, body: "<!-- deploy-checklist-bot:v1 --> old" }],
+    });
+    context.octokit.rest.issues.getComment.mockResolvedValue({
+      data: { id: 99, body: "<!-- deploy-checklist-bot:v1 --> old" },
+    });
+    return context;
+  }
+
+  beforeEach(() => {
+    (parseChecklist as any).mockReturnValue(oldState);
+    (applyChecklistUpdate as any).mockReturnValue("updated body");
+    (mergeChecklist as any).mockReturnValue("merged body");
+  });
+
+  it("analyzes only the commits since the stored SHA and edits the checklist", async () => {
+    const context = syncContext();
+    const update = {
+      items: [],
+      retired_item_ids: [],
+      summary: "Still some risk.",
+      open_concerns: [],
+    };
+    (fetchCompareDiff as any).mockResolvedValue(fileDelta);
+    (analyzeIncrement as any).mockResolvedValue(update);
+
+    await handlePullRequest(context);
+
+    await vi.waitFor(() =>
+      expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 99, body: "updated body" })
+      )
+    );
+    expect(fetchCompareDiff).toHaveBeenCalledWith(
+      context,
+      "owner",
+      "repo",
+      "old111",
+      "abc123"
+    );
+    expect(analyzeIncrement).toHaveBeenCalledWith(
+      context,
+      fileDelta,
+      defaultConfig.config,
+      expect.objectContaining({ headSha: "abc123" }),
+      "old111",
+      oldState.items,
+      { owner: "owner", repo: "repo", pullNumber: 1 }
+    );
+    expect(applyChecklistUpdate).toHaveBeenCalledWith(
+      oldState,
+      update,
+      "abc123"
+    );
+    expect(analyzeDiff).not.toHaveBeenCalled();
+  });
+
+  it("skips Claude when the new commits only touch files outside the PR", async () => {
+    const context = syncContext();
+    (fetchCompareDiff as any).mockResolvedValue(
+      fileDelta.replaceAll("src/file.ts", "vendor/merged-from-main.ts")
+    );
+
+    await handlePullRequest(context);
+
+    await vi.waitFor(() => expect(applyChecklistUpdate).toHaveBeenCalled());
+    expect(analyzeIncrement).not.toHaveBeenCalled();
+    expect((applyChecklistUpdate as any).mock.calls[0][1].items).toEqual([]);
+  });
+
+  it("falls back to a full re-analysis after a force-push", async () => {
+    const context = syncContext();
+    (fetchCompareDiff as any).mockResolvedValue(null);
+    (analyzeDiff as any).mockResolvedValue({
+      items: [{ rule_id: "test", check: "Check" }],
+      summary: "Some risk.",
+    });
+
+    await handlePullRequest(context);
+
+    await vi.waitFor(() =>
+      expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ body: "merged body" })
+      )
+    );
+    expect(analyzeIncrement).not.toHaveBeenCalled();
+    expect(analyzeDiff).toHaveBeenCalled();
+  });
+
+  it("merges checkboxes ticked during the analysis before writing", async () => {
+    const context = syncContext();
+    const ticked = "<!-- deploy-checklist-bot:v1 --> old, ticked";
+    context.octokit.rest.issues.getComment
+      .mockResolvedValueOnce({ data: { id: 99, body: ticked } })
+      .mockResolvedValueOnce({ data: { id: 99, body: ticked } });
+    (fetchCompareDiff as any).mockResolvedValue(fileDelta);
+    (analyzeIncrement as any).mockResolvedValue({
+      items: [],
+      retired_item_ids: [],
+      summary: "Still some risk.",
+      open_concerns: [],
+    });
+    (mergeConcurrentEdits as any).mockReturnValue("updated body, ticked");
+
+    await handlePullRequest(context);
+
+    await vi.waitFor(() =>
+      expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          comment_id: 99,
+          body: "updated body, ticked",
+        })
+      )
+    );
+    expect(mergeConcurrentEdits).toHaveBeenCalledWith(
+      "<!-- deploy-checklist-bot:v1 --> old",
+      ticked,
+      "updated body"
+    );
+    expect(context.octokit.rest.issues.getComment).toHaveBeenCalledTimes(2);
+    expect(context.octokit.rest.issues.updateComment).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to a full re-analysis when the checklist is already at head", async () => {
+    const context = syncContext();
+    (parseChecklist as any).mockReturnValue({ ...oldState, sha: "abc123" });
+    (analyzeDiff as any).mockResolvedValue({ items: [], summary: "Clean." });
+
+    await handlePullRequest(context);
+
+    await vi.waitFor(() => expect(approvePR).toHaveBeenCalled());
+    expect(fetchCompareDiff).not.toHaveBeenCalled();
+  });
+});
+
+describe("handlePullRequest — queued analysis", () => {
+  function queuedContext(action = "synchronize") {
+    const context = createMockContext({ action });
+    context.id = "delivery-1";
+    context.name = "pull_request";
+    context.payload.installation = { id: 42 };
+    context.octokit.hook = { before: vi.fn() };
+    context.octokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+    return context;
+  }
+
+  function fakeApp(context: any) {
+    return {
+      auth: vi.fn().mockResolvedValue(context.octokit),
+      log: { child: vi.fn(() => context.log) },
+    } as any;
+  }
+
+  async function queuedJob(context: any) {
+    process.env.ANALYSIS_DEBOUNCE_MS = "2000";
+    await handlePullRequest(context);
+    delete process.env.ANALYSIS_DEBOUNCE_MS;
+    const input = enqueue.mock.calls[0][0];
+    return { ...input, id: "job-1", attempts: 1, runAt: 0, state: "running" };
+  }
+
+  it("queues a debounced job keyed by PR instead of analyzing inline", async () => {
+    const context = queuedContext();
+
     await handlePullRequest(context);
+
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: "owner/repo#1",
+        type: ANALYZE_PR_JOB,
+        installationId: 42,
+        delayMs: 5000,
+      })
+    );
+    expect(analyzeDiff).not.toHaveBeenCalled();
+  });
+
+  it("queues newly opened PRs too", async () => {
+    const context = queuedContext("opened");
+
+    await handlePullRequest(context);
+
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "owner/repo#1", type: ANALYZE_PR_JOB })
+    );
     expect(analyzeDiff).not.toHaveBeenCalled();
   });
+
+  it("runs the job as the installation with the queued event and config", async () => {
+    const context = queuedContext();
+    const job = await queuedJob(context);
+    (analyzeDiff as any).mockResolvedValue({ items: [], summary: "Clean." });
+    const app = fakeApp(context);
+
+    await runAnalysisJob(app, job, { final: false });
+
+    expect(job.delayMs).toBe(2000);
+    expect(app.auth).toHaveBeenCalledWith(42);
+    expect(analyzeDiff).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "delivery-1" }),
+      "diff content",
+      defaultConfig.config,
+      expect.objectContaining({ headSha: "abc123" }),
+      expect.objectContaining({ owner: "owner", repo: "repo" })
+    );
+    expect(approvePR).toHaveBeenCalled();
+  });
+
+  it("rethrows unexpected errors for the queue to retry until the last attempt", async () => {
+    const context = queuedContext();
+    const job = await queuedJob(context);
+    (fetchPRDiff as any).mockRejectedValue(new Error("GitHub 502"));
+
+    await expect(
+      runAnalysisJob(fakeApp(context), job, { final: false })
+    ).rejects.toThrow("GitHub 502");
+    expect(postErrorComment).not.toHaveBeenCalled();
+
+    await runAnalysisJob(fakeApp(context), job, { final: true });
+    expect(postErrorComment).toHaveBeenCalledWith(
+      expect.anything(),
+      "owner",
+      "repo",
+      1,
+      "An unexpected error occurred during re-analysis."
+    );
+  });
+
+  it("drops a job whose head moved while it was queued", async () => {
+    const context = queuedContext("opened");
+    const job = await queuedJob(context);
+    context.octokit.rest.pulls.get.mockResolvedValue({
+      data: { head: { sha: "def456" } },
+    });
+
+    await runAnalysisJob(fakeApp(context), job, { final: false });
+
+    expect(fetchPRDiff).not.toHaveBeenCalled();
+    expect(analyzeDiff).not.toHaveBeenCalled();
+  });
+
+  it("discards a slow analysis when a newer commit lands before it posts", async () => {
+    const context = queuedContext("opened");
+    const job = await queuedJob(context);
+    (analyzeDiff as any).mockImplementation(async () => {
+      context.octokit.rest.pulls.get.mockResolvedValue({
+        data: { head: { sha: "def456" } },
+      });
+      return { items: [{ id: "item-1" }], summary: "Risky." };
+    });
+
+    await runAnalysisJob(fakeApp(context), job, { final: false });
+
+    expect(analyzeDiff).toHaveBeenCalled();
+    expect(context.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(blockPR).not.toHaveBeenCalled();
+    expect(approvePR).not.toHaveBeenCalled();
+  });
+});
+
+describe("queueReanalysis", () => {
+  function commentContext() {
+    const context = createMockContext();
+    context.id = "delivery-2";
+    context.name = "issue_comment";
+    context.payload.action = "created";
+    context.payload.installation = { id: 42 };
+    context.octokit.hook = { before: vi.fn() };
+    return context;
+  }
+
+  function pr(overrides: Record<string, any> = {}) {
+    return {
+      number: 1,
+      title: "Test PR",
+      body: null,
+      draft: false,
+      user: { login: "developer" },
+      head: { sha: "abc123" },
+      base: { ref: "main" },
+      labels: [],
+      ...overrides,
+    };
+  }
+
+  it("queues a full re-analysis under the PR's job key without a delay", async () => {
+    const context = commentContext();
+
+    const skipped = await queueReanalysis(
+      context,
+      "owner",
+      "repo",
+      pr(),
+      defaultConfig.config as any
+    );
+
+    expect(skipped).toBeNull();
+    const input = enqueue.mock.calls[0][0];
+    expect(input).toMatchObject({
+      key: "owner/repo#1",
+      type: ANALYZE_PR_JOB,
+      installationId: 42,
+      data: { reanalyze: true },
+    });
+    expect(input.delayMs).toBeUndefined();
+
+    (parseChecklist as any).mockReturnValue({ items: [], summary: "" });
+    (analyzeDiff as any).mockResolvedValue({ items: [], summary: "Clean." });
+    context.octokit.rest.issues.listComments.mockResolvedValue({
+      data: [{ id: 7, body: "<!-- deploy-checklist-bot:v1 -->" }],
+    });
+    const app = {
+      auth: vi.fn().mockResolvedValue(context.octokit),
+      log: { child: vi.fn(() => context.log) },
+    } as any;
+    await runAnalysisJob(
+      app,
+      { ...input, id: "job-1", attempts: 1, runAt: 0, state: "running" },
+      { final: false }
+    );
+
+    expect(analyzeDiff).toHaveBeenCalled();
+    expect(analyzeIncrement).not.toHaveBeenCalled();
+    expect(approvePR).toHaveBeenCalled();
+  });
+
+  it("refuses PRs the pull_request events would skip", async () => {
+    const config = defaultConfig.config as any;
+
+    expect(
+      await queueReanalysis(
+        commentContext(),
+        "owner",
+        "repo",
+        pr({ draft: true }),
+        config
+      )
+    ).toBe("it is a draft");
+    expect(
+      await queueReanalysis(
+        commentContext(),
+        "owner",
+        "repo",
+        pr({ base: { ref: "develop" } }),
+        config
+      )
+    ).toContain("`develop`");
+    expect(
+      await queueReanalysis(
+        commentContext(),
+        "owner",
+        "repo",
+        pr({ labels: [{ name: "skip-deploy-checklist" }] }),
+        config
+      )
+    ).toBe("it is labeled `skip-deploy-checklist`");
+    expect(enqueue).not.toHaveBeenCalled();
+  });
 });
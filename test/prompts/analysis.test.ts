@@ -12,6 +12,19 @@ const baseConfig: DeployChecklistConfig = {
     target_branches: [],
     post_empty_checklist: false,
     max_diff_size: 100000,
+    large_diff_strategy: "truncate",
+    max_prompt_tokens: 60000,
+    gate_mode: "review",
+    config_source: "base",
+    analysis_mode: "llm",
+    max_output_tokens: 4000,
+    usage_footer: false,
+    labels: {
+      skip: "",
+      reanalyze: "deploy-checklist:reanalyze",
+      override: "hotfix",
+    },
+    override_approvers: [],
   },
   rules: [
     {
@@ -182,6 +195,30 @@ describe("buildUserPrompt — custom rules", () => {
   });
 });
 
+describe("buildUserPrompt — chunked analysis", () => {
+  it("includes the Partial Diff section before the diff for a chunk", () => {
+    const prompt = buildUserPrompt(
+      baseConfig,
+      basePRMeta,
+      "diff content",
+      [],
+      [],
+      undefined,
+      { index: 2, total: 3 }
+    );
+    expect(prompt).toContain("## Partial Diff");
+    expect(prompt).toContain("This is part 2 of 3");
+    expect(prompt.indexOf("## Partial Diff")).toBeLessThan(
+      prompt.indexOf("## Diff")
+    );
+  });
+
+  it("omits Partial Diff section for a single-pass analysis", () => {
+    const prompt = buildUserPrompt(baseConfig, basePRMeta, "diff content");
+    expect(prompt).not.toContain("## Partial Diff");
+  });
+});
+
 describe("buildUserPrompt — instructions", () => {
   it("includes tool use instruction", () => {
     const prompt = buildUserPrompt(baseConfig, basePRMeta, "diff content");
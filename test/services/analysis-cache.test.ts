@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import {
+  FileAnalysisCache,
+  MemoryAnalysisCache,
+  analysisCacheKey,
+  normalizeDiff,
+} from "../../src/services/analysis-cache.js";
+import { analyzeDiff } from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const diff = [
+  "diff --git a/src/app.ts b/src/app.ts",
+  "index 1a2b3c4..5d6e7f8 100644",
+  "--- a/src/app.ts",
+  "+++ b/src/app.ts",
+  "@@ -10,2 +10,2 @@ export function main() {",
+  "-old",
+  "+new",
+].join("\n");
+
+const config = DeployChecklistConfigSchema.parse({});
+const result = {
+  items: [],
+  summary: "Low risk.",
+  uncovered_files: [],
+  open_concerns: [],
+};
+
+function keyFor(overrides: Record<string, unknown> = {}) {
+  return analysisCacheKey({
+    diff,
+    description: "Add app\nShips the new thing.",
+    config,
+    skillIds: ["env-vars", "migration-review"],
+    model: "claude-sonnet",
+    ...overrides,
+  });
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  dir = await mkdtemp(join(tmpdir(), "analysis-cache-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("analysisCacheKey", () => {
+  it("ignores blob hashes and hunk line numbers", () => {
+    const rebased = diff
+      .replace("index 1a2b3c4..5d6e7f8", "index 9f9f9f9..0e0e0e0")
+      .replace("@@ -10,2 +10,2 @@", "@@ -42,2 +42,2 @@");
+
+    expect(normalizeDiff(rebased)).toBe(normalizeDiff(diff));
+    expect(keyFor({ diff: rebased })).toBe(keyFor());
+  });
+
+  it("does not depend on skill order", () => {
+    expect(keyFor({ skillIds: ["migration-review", "env-vars"] })).toBe(
+      keyFor()
+    );
+  });
+
+  it("changes with the diff content, description, config, skills or model", () => {
+    const key = keyFor();
+    expect(keyFor({ diff: diff.replace("+new", "+newer") })).not.toBe(key);
+    expect(keyFor({ description: "Add app\nNow behind a flag." })).not.toBe(key);
+    expect(
+      keyFor({
+        config: DeployChecklistConfigSchema.parse({ context: "Helm" }),
+      })
+    ).not.toBe(key);
+    expect(keyFor({ skillIds: ["env-vars"] })).not.toBe(key);
+    expect(keyFor({ model: "claude-opus" })).not.toBe(key);
+  });
+});
+
+describe("MemoryAnalysisCache", () => {
+  it("evicts the least recently used entry", async () => {
+    const cache = new MemoryAnalysisCache(2);
+    await cache.set("a", result);
+    await cache.set("b", result);
+    await cache.get("a");
+    await cache.set("c", result);
+
+    expect(await cache.get("a")).toEqual(result);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toEqual(result);
+  });
+});
+
+describe("FileAnalysisCache", () => {
+  it("round-trips results through the cache directory", async () => {
+    const cache = new FileAnalysisCache(join(dir, "nested"));
+    await cache.set("k1", result);
+
+    expect(await new FileAnalysisCache(join(dir, "nested")).get("k1")).toEqual(
+      result
+    );
+    expect(await cache.get("missing")).toBeUndefined();
+  });
+
+  it("treats corrupt or invalid entries as misses", async () => {
+    await writeFile(join(dir, "bad.json"), "{not json");
+    await writeFile(join(dir, "old.json"), JSON.stringify({ items: "x" }));
+    const cache = new FileAnalysisCache(dir);
+
+    expect(await cache.get("bad")).toBeUndefined();
+    expect(await cache.get("old")).toBeUndefined();
+  });
+});
+
+describe("analyzeDiff — caching", () => {
+  const prMeta = {
+    title: "Tweak app",
+    body: "",
+    baseBranch: "main",
+    headSha: "abc123",
+    author: "developer",
+    isDraft: false,
+    filesChanged: ["src/app.ts"],
+  };
+  const repoInfo = { owner: "owner", repo: "repo", ref: "abc123" };
+
+  function createMockContext() {
+    return {
+      octokit: { rest: { repos: { getContent: vi.fn() } } },
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    } as any;
+  }
+
+  beforeEach(() => {
+    // A fresh directory per test gives each test its own cache instance
+    process.env.ANALYSIS_CACHE = "file";
+    process.env.ANALYSIS_CACHE_DIR = dir;
+    process.env.ANALYSIS_RETRY_BASE_MS = "0";
+  });
+
+  it("reuses the stored result for an identical analysis and logs the hit", async () => {
+    create.mockResolvedValue({
+      content: [
+        { type: "tool_use", id: "t1", name: "submit_analysis", input: result },
+      ],
+    });
+
+    await analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo);
+    const context = createMockContext();
+    const second = await analyzeDiff(context, diff, config, prMeta, repoInfo);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(result);
+    expect(context.log.info).toHaveBeenCalledWith(
+      expect.stringContaining("Analysis cache hit")
+    );
+  });
+
+  it("does not cache the deterministic fallback in hybrid mode", async () => {
+    const hybrid = DeployChecklistConfigSchema.parse({
+      settings: { analysis_mode: "hybrid" },
+    });
+    create.mockRejectedValue(Object.assign(new Error("x"), { status: 401 }));
+
+    await analyzeDiff(createMockContext(), diff, hybrid, prMeta, repoInfo);
+    await analyzeDiff(createMockContext(), diff, hybrid, prMeta, repoInfo);
+
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  AnalysisError,
+  classifyError,
+  isRetryable,
+  toAnalysisError,
+} from "../../src/services/analysis-errors.js";
+import { withRetry } from "../../src/utils/retry.js";
+
+function apiError(status: number, message = "error") {
+  return Object.assign(new Error(message), { status });
+}
+
+const fastRetry = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe("classifyError", () => {
+  it.each([
+    [apiError(429), "rate_limited"],
+    [apiError(529), "overloaded"],
+    [apiError(500), "server_error"],
+    [apiError(401), "auth"],
+    [apiError(403), "auth"],
+    [apiError(400), "invalid_request"],
+    [apiError(408), "network"],
+    [new Error("Connection error."), "network"],
+    [new Error("Request timed out."), "network"],
+    [new Error("something else"), "unknown"],
+    ["not an error", "unknown"],
+  ])("classifies %s as %s", (error, expected) => {
+    expect(classifyError(error)).toBe(expected);
+  });
+
+  it("keeps the class of an existing AnalysisError", () => {
+    expect(classifyError(new AnalysisError("x", "invalid_response"))).toBe(
+      "invalid_response"
+    );
+  });
+
+  it("treats only transient failures as retryable", () => {
+    expect(isRetryable(apiError(429))).toBe(true);
+    expect(isRetryable(apiError(503))).toBe(true);
+    expect(isRetryable(apiError(408))).toBe(true);
+    expect(isRetryable(apiError(401))).toBe(false);
+    expect(isRetryable(apiError(400))).toBe(false);
+  });
+
+  it("wraps plain errors with their class and attempt count", () => {
+    const wrapped = toAnalysisError(apiError(529, "Overloaded"), 4);
+    expect(wrapped).toBeInstanceOf(AnalysisError);
+    expect(wrapped).toMatchObject({
+      message: "Overloaded",
+      failureClass: "overloaded",
+      attempts: 4,
+    });
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable errors until the call succeeds", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    const result = await withRetry(fn, {
+      ...fastRetry,
+      shouldRetry: isRetryable,
+      onRetry,
+    });
+
+    expect(result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+  });
+
+  it("gives up after maxAttempts and rethrows the last error", async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(503));
+
+    await expect(
+      withRetry(fn, { ...fastRetry, shouldRetry: isRetryable })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry errors the predicate rejects", async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(401));
+
+    await expect(
+      withRetry(fn, { ...fastRetry, shouldRetry: isRetryable })
+    ).rejects.toMatchObject({ status: 401 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  resolveApprovalPolicy,
+  checkAuthorization,
+  checkOverrideAuthorization,
+  findUnauthorizedChecks,
+} from "../../src/services/approvals.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+function createMockContext(
+  membership: "active" | "missing" | "error" = "missing"
+) {
+  const getMembershipForUserInOrg = vi.fn(async () => {
+    if (membership === "active") return { data: { state: "active" } };
+    const error = Object.assign(
+      new Error(membership === "missing" ? "Not Found" : "Forbidden"),
+      {
+        status: membership === "missing" ? 404 : 403,
+      }
+    );
+    throw error;
+  });
+
+  return {
+    octokit: { rest: { teams: { getMembershipForUserInOrg } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+const config = DeployChecklistConfigSchema.parse({
+  version: 1,
+  rules: [
+    {
+      id: "payments-review",
+      description: "Payments changes",
+      trigger: { paths: ["src/payments/**"] },
+      checks: ["Sign-off from payments"],
+      approvers: ["acme/payments", "carol"],
+      allow_author_check: false,
+    },
+  ],
+  skills: {
+    overrides: {
+      "migration-review": { approvers: ["acme/dba"] },
+    },
+  },
+});
+
+describe("resolveApprovalPolicy", () => {
+  it("reads approvers from a custom rule", () => {
+    expect(resolveApprovalPolicy("payments-review", config)).toEqual({
+      approvers: ["acme/payments", "carol"],
+      allowAuthorCheck: false,
+    });
+  });
+
+  it("applies skill overrides from config", () => {
+    expect(resolveApprovalPolicy("migration-review", config)).toEqual({
+      approvers: ["acme/dba"],
+      allowAuthorCheck: true,
+    });
+  });
+
+  it("reads approvers declared on a custom skill", () => {
+    const withSkill = DeployChecklistConfigSchema.parse({
+      skills: {
+        custom: [
+          {
+            id: "feature-flags",
+            paths: ["src/flags/**"],
+            system_context: "Flags default to off.",
+            checks: ["Verify the flag defaults to off"],
+            approvers: ["acme/growth"],
+          },
+        ],
+      },
+    });
+
+    expect(resolveApprovalPolicy("feature-flags", withSkill)).toEqual({
+      approvers: ["acme/growth"],
+      allowAuthorCheck: true,
+    });
+  });
+
+  it("allows anyone when nothing is configured", () => {
+    expect(resolveApprovalPolicy("env-vars", config)).toEqual({
+      approvers: [],
+      allowAuthorCheck: true,
+    });
+  });
+});
+
+describe("checkAuthorization", () => {
+  it("blocks the PR author when allow_author_check is false", async () => {
+    const reason = await checkAuthorization(
+      createMockContext("active"),
+      { approvers: [], allowAuthorCheck: false },
+      "Developer",
+      "developer"
+    );
+    expect(reason).toContain("PR author");
+  });
+
+  it("allows listed users case-insensitively", async () => {
+    const reason = await checkAuthorization(
+      createMockContext(),
+      { approvers: ["@Carol"], allowAuthorCheck: true },
+      "carol",
+      "developer"
+    );
+    expect(reason).toBeNull();
+  });
+
+  it("allows active members of a listed team", async () => {
+    const context = createMockContext("active");
+    const reason = await checkAuthorization(
+      context,
+      { approvers: ["acme/dba"], allowAuthorCheck: true },
+      "dave",
+      "developer"
+    );
+    expect(reason).toBeNull();
+    expect(
+      context.octokit.rest.teams.getMembershipForUserInOrg
+    ).toHaveBeenCalledWith({
+      org: "acme",
+      team_slug: "dba",
+      username: "dave",
+    });
+  });
+
+  it("rejects non-members and names the approvers", async () => {
+    const context = createMockContext("missing");
+    const reason = await checkAuthorization(
+      context,
+      { approvers: ["acme/dba", "carol"], allowAuthorCheck: true },
+      "mallory",
+      "developer"
+    );
+    expect(reason).toBe("only `acme/dba`, @carol can sign off this item");
+    expect(context.log.warn).not.toHaveBeenCalled();
+  });
+
+  it("logs membership lookups that fail for reasons other than 404", async () => {
+    const context = createMockContext("error");
+    const reason = await checkAuthorization(
+      context,
+      { approvers: ["acme/dba"], allowAuthorCheck: true },
+      "mallory",
+      "developer"
+    );
+    expect(reason).not.toBeNull();
+    expect(context.log.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Forbidden")
+    );
+  });
+});
+
+describe("checkOverrideAuthorization", () => {
+  const withOverriders = DeployChecklistConfigSchema.parse({
+    settings: { override_approvers: ["acme/sre"] },
+  });
+
+  it("refuses everyone while override_approvers is empty", async () => {
+    const context = createMockContext("active");
+    expect(await checkOverrideAuthorization(context, config, "alice")).toContain(
+      "not enabled"
+    );
+    expect(
+      context.octokit.rest.teams.getMembershipForUserInOrg
+    ).not.toHaveBeenCalled();
+  });
+
+  it("allows members of a listed team", async () => {
+    const context = createMockContext("active");
+    expect(
+      await checkOverrideAuthorization(context, withOverriders, "alice")
+    ).toBeNull();
+  });
+
+  it("rejects non-members and names who can override", async () => {
+    const context = createMockContext("missing");
+    expect(
+      await checkOverrideAuthorization(context, withOverriders, "mallory")
+    ).toBe("only `acme/sre` can override the deploy checklist");
+  });
+});
+
+describe("findUnauthorizedChecks", () => {
+  const items = [
+    {
+      id: "p1",
+      checked: true,
+      item: { rule_id: "payments-review", check: "Sign-off from payments" },
+    },
+    {
+      id: "e1",
+      checked: true,
+      item: { rule_id: "env-var-check", check: "Confirm env vars set" },
+    },
+    {
+      id: "p2",
+      checked: false,
+      item: { rule_id: "payments-review", check: "Unchecked" },
+    },
+  ] as any;
+
+  it("only flags items the user just checked without authorization", async () => {
+    const unauthorized = await findUnauthorizedChecks(
+      createMockContext(),
+      config,
+      items,
+      ["p1", "e1", "p2"],
+      "mallory",
+      "developer"
+    );
+
+    expect([...unauthorized.keys()]).toEqual(["p1"]);
+  });
+
+  it("ignores items that were not toggled in this edit", async () => {
+    const unauthorized = await findUnauthorizedChecks(
+      createMockContext(),
+      config,
+      items,
+      ["e1"],
+      "mallory",
+      "developer"
+    );
+
+    expect(unauthorized.size).toBe(0);
+  });
+});
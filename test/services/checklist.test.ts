@@ -3,6 +3,14 @@ import {
   generateChecklist,
   parseChecklist,
   mergeChecklist,
+  applyChecklistUpdate,
+  mergeConcurrentEdits,
+  renderChecklist,
+  skipRule,
+  recordToggles,
+  recordOverride,
+  revertChecks,
+  auditTrail,
   isComplete,
   BOT_MARKER,
 } from "../../src/services/checklist.js";
@@ -80,6 +88,46 @@ describe("generateChecklist", () => {
     const md = generateChecklist(sampleResult, "abc123");
     expect(md).toContain("Re-analyze: push a new commit");
   });
+
+  it("lists what the prompt budget left out in a collapsed section", () => {
+    const md = generateChecklist(
+      { ...sampleResult, omitted_context: ["Full file contents left out: `a.ts`"] },
+      "abc123"
+    );
+
+    expect(md).toContain(
+      "<summary>Not everything fit in the analysis budget</summary>"
+    );
+    expect(md).toContain("- Full file contents left out: `a.ts`");
+    expect(parseChecklist(md)!.omittedContext).toEqual([
+      "Full file contents left out: `a.ts`",
+    ]);
+  });
+
+  it("omits the budget section when nothing was left out", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    expect(md).not.toContain("analysis budget");
+  });
+
+  it("renders a cost footer only when the result carries usage", () => {
+    const usage = {
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      calls: 2,
+      input_tokens: 12000,
+      output_tokens: 900,
+      cache_read_tokens: 3000,
+      cache_write_tokens: 0,
+      cost_usd: 0.0504,
+    };
+    const md = generateChecklist({ ...sampleResult, usage }, "abc123");
+
+    expect(md).toContain("_Analysis cost: claude-sonnet-4-5 · 2 call(s) ·");
+    expect(md).toContain("(3,000 cached)");
+    expect(md).toContain("~$0.0504_");
+    expect(parseChecklist(md)!.usage).toEqual(usage);
+    expect(generateChecklist(sampleResult, "abc123")).not.toContain("Analysis cost");
+  });
 });
 
 describe("parseChecklist", () => {
@@ -128,6 +176,90 @@ describe("parseChecklist", () => {
   });
 });
 
+describe("parseChecklist — hidden state block", () => {
+  const trickyResult: AnalysisResult = {
+    items: [
+      {
+        rule_id: "api-contract",
+        check: "Confirm **all** clients updated",
+        description: "Response shape changed without an em-dash anywhere",
+        reasoning: "Field renamed in src/api/users.ts",
+        priority: "low",
+        files: ["src/api/users.ts"],
+      },
+    ],
+    summary: "Low risk.",
+    uncovered_files: ["scripts/seed.ts"],
+    open_concerns: [{ file: "scripts/seed.ts", concern: "Seeds prod data" }],
+  };
+
+  it("embeds a versioned base64 state block", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    expect(md).toMatch(/<!-- deploy-checklist-state:v2 [A-Za-z0-9+/=]+ -->/);
+  });
+
+  it("round-trips priority, files and report sections losslessly", () => {
+    const state = parseChecklist(generateChecklist(trickyResult, "abc123"))!;
+
+    expect(state.version).toBe(2);
+    expect(state.items).toHaveLength(1);
+    expect(state.items[0].item).toEqual(trickyResult.items[0]);
+    expect(state.summary).toBe("Low risk.");
+    expect(state.uncoveredFiles).toEqual(["scripts/seed.ts"]);
+    expect(state.openConcerns).toEqual(trickyResult.open_concerns);
+  });
+
+  it("reads checked state from the rendered checkboxes", () => {
+    const md = generateChecklist(trickyResult, "abc123").replace(
+      "- [ ]",
+      "- [x]"
+    );
+
+    const state = parseChecklist(md)!;
+    expect(state.items[0].checked).toBe(true);
+    expect(state.allComplete).toBe(true);
+  });
+
+  it("assigns stable IDs to items", () => {
+    const first = parseChecklist(generateChecklist(sampleResult, "abc123"))!;
+    const second = parseChecklist(generateChecklist(sampleResult, "def456"))!;
+
+    expect(first.items[0].id).toMatch(/^[0-9a-f]{12}$/);
+    expect(first.items.map((i) => i.id)).toEqual(second.items.map((i) => i.id));
+  });
+
+  it("falls back to the v1 regex parser when the state block is corrupt", () => {
+    const md = generateChecklist(sampleResult, "abc123").replace(
+      /deploy-checklist-state:v2 [A-Za-z0-9+/=]+/,
+      "deploy-checklist-state:v2 bm90IGpzb24="
+    );
+
+    const state = parseChecklist(md)!;
+    expect(state.version).toBe(1);
+    expect(state.items).toHaveLength(2);
+  });
+
+  it("parses legacy v1 comments without a state block", () => {
+    const legacy = [
+      "## Deploy Checklist",
+      "",
+      BOT_MARKER,
+      "<!-- sha:abc123 -->",
+      "",
+      "- [x] **Verify rollback exists** 🔴",
+      "  Verify migration rollback — New migration file detected.",
+      "  _Rule: migration-safety_",
+      "",
+    ].join("\n");
+
+    const state = parseChecklist(legacy)!;
+    expect(state.version).toBe(1);
+    expect(state.sha).toBe("abc123");
+    expect(state.items[0].checked).toBe(true);
+    expect(state.items[0].item.priority).toBe("medium");
+  });
+});
+
 describe("mergeChecklist", () => {
   it("preserves check state for items that still apply", () => {
     let md = generateChecklist(sampleResult, "abc123");
@@ -179,8 +311,537 @@ describe("mergeChecklist", () => {
 
     const merged = mergeChecklist(oldState, newResult, "def456");
 
-    expect(merged).not.toContain("migration-safety");
-    expect(merged).toContain("env-var-check");
+    expect(parseChecklist(merged)!.items.map((i) => i.item.rule_id)).toEqual([
+      "env-var-check",
+    ]);
+    expect(merged).not.toContain("**Verify rollback exists**");
+  });
+
+  it("lists dropped items in a collapsed resolved section", () => {
+    const md = generateChecklist(sampleResult, "abc123").replace("- [ ]", "- [x]");
+    const oldState = parseChecklist(md)!;
+
+    const merged = mergeChecklist(
+      oldState,
+      { ...sampleResult, items: [sampleResult.items[1]] },
+      "def456"
+    );
+
+    expect(merged).toContain("<summary>Resolved since last push (1)</summary>");
+    expect(merged).toContain("- ~~Verify rollback exists~~ (`migration-safety`)");
+    expect(parseChecklist(merged)!.resolvedItems).toEqual([
+      expect.objectContaining({ rule_id: "migration-safety", checked: true }),
+    ]);
+  });
+
+  it("marks retained items as carried over, but not new ones", () => {
+    const oldState = parseChecklist(generateChecklist(sampleResult, "abc123"))!;
+    const newItem = {
+      rule_id: "docker-change",
+      check: "Verify base image",
+      description: "Check Docker base image is pinned",
+      reasoning: "Dockerfile modified.",
+      priority: "low" as const,
+    };
+
+    const merged = mergeChecklist(
+      oldState,
+      { ...sampleResult, items: [...sampleResult.items, newItem] },
+      "def456"
+    );
+    const state = parseChecklist(merged)!;
+
+    expect(merged.match(/Carried over from previous analysis/g)).toHaveLength(2);
+    const added = state.items.find((i) => i.item.rule_id === "docker-change")!;
+    expect(added.carriedOver).toBeUndefined();
+    expect(merged).not.toContain("Resolved since last push");
+  });
+
+  it("keeps check state when the model rewords an item", () => {
+    const md = generateChecklist(sampleResult, "abc123").replace("- [ ]", "- [x]");
+    const oldState = parseChecklist(md)!;
+
+    const reworded = {
+      ...sampleResult.items[0],
+      check: "Confirm the rollback exists",
+    };
+    const merged = parseChecklist(
+      mergeChecklist(oldState, { ...sampleResult, items: [reworded] }, "def456")
+    )!;
+
+    expect(merged.items[0].item.check).toBe("Confirm the rollback exists");
+    expect(merged.items[0].id).toBe(oldState.items[0].id);
+    expect(merged.items[0].checked).toBe(true);
+  });
+
+  it("matches on the semantic key even when the wording changes completely", () => {
+    const keyed = {
+      ...sampleResult,
+      items: [
+        {
+          ...sampleResult.items[0],
+          key: "users-migration-rollback",
+          files: ["migrations/1.sql"],
+        },
+      ],
+    };
+    const md = generateChecklist(keyed, "abc123").replace("- [ ]", "- [x]");
+    const oldState = parseChecklist(md)!;
+
+    const rewritten = {
+      ...keyed.items[0],
+      check: "Test down migration",
+      description: "Something else entirely",
+      files: ["migrations/1.sql", "migrations/2.sql"],
+    };
+    const merged = parseChecklist(
+      mergeChecklist(oldState, { ...sampleResult, items: [rewritten] }, "def456")
+    )!;
+
+    expect(merged.items[0].checked).toBe(true);
+    expect(merged.resolvedItems).toEqual([]);
+  });
+
+  it("does not match the same wording about unrelated files", () => {
+    const forFile = (file: string) => ({ ...sampleResult.items[0], files: [file] });
+    const md = generateChecklist(
+      { ...sampleResult, items: [forFile("migrations/1.sql")] },
+      "abc123"
+    ).replace("- [ ]", "- [x]");
+    const oldState = parseChecklist(md)!;
+
+    const merged = parseChecklist(
+      mergeChecklist(
+        oldState,
+        { ...sampleResult, items: [forFile("migrations/2.sql")] },
+        "def456"
+      )
+    )!;
+
+    expect(merged.items[0].checked).toBe(false);
+    expect(merged.resolvedItems).toHaveLength(1);
+  });
+
+  it("carries over who checked an item and preserves priority", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    const { body } = skipRule(md, "migration-safety", "alice", "no-op migration");
+    const oldState = parseChecklist(body)!;
+
+    const merged = parseChecklist(
+      mergeChecklist(oldState, sampleResult, "def456")
+    )!;
+
+    const item = merged.items.find((i) => i.item.rule_id === "migration-safety")!;
+    expect(item.checked).toBe(true);
+    expect(item.checkedBy).toBe("alice");
+    expect(item.skipReason).toBe("no-op migration");
+    expect(item.item.priority).toBe("high");
+  });
+});
+
+describe("applyChecklistUpdate", () => {
+  function checkedState() {
+    const md = generateChecklist(sampleResult, "abc123").replace("- [ ]", "- [x]");
+    return parseChecklist(md)!;
+  }
+
+  const noChange = {
+    items: [],
+    retired_item_ids: [],
+    summary: "",
+    open_concerns: [],
+  };
+
+  it("keeps existing items and their check state, stamping the new SHA", () => {
+    const oldState = checkedState();
+
+    const md = applyChecklistUpdate(oldState, noChange, "def456");
+    const state = parseChecklist(md)!;
+
+    expect(md).toContain("<!-- sha:def456 -->");
+    expect(state.items.map((i) => i.id)).toEqual(oldState.items.map((i) => i.id));
+    expect(state.items[0].checked).toBe(true);
+    expect(state.summary).toBe(sampleResult.summary);
+  });
+
+  it("removes retired items and appends new ones unchecked", () => {
+    const oldState = checkedState();
+    const retired = oldState.items[1].id;
+
+    const md = applyChecklistUpdate(
+      oldState,
+      {
+        ...noChange,
+        items: [
+          {
+            rule_id: "docker-change",
+            check: "Verify base image",
+            description: "Check Docker base image is pinned",
+            reasoning: "Dockerfile modified.",
+            priority: "low",
+          },
+        ],
+        retired_item_ids: [retired],
+        summary: "New summary.",
+      },
+      "def456"
+    );
+    const state = parseChecklist(md)!;
+
+    expect(state.items.map((i) => i.item.rule_id)).toEqual([
+      "migration-safety",
+      "docker-change",
+    ]);
+    expect(md).toContain("- [ ] **Verify base image**");
+    expect(state.summary).toBe("New summary.");
+    expect(state.resolvedItems!.map((r) => r.id)).toEqual([retired]);
+  });
+
+  it("adds the update's omitted context to the earlier notes", () => {
+    const oldState = parseChecklist(
+      generateChecklist(
+        { ...sampleResult, omitted_context: ["Repository `context` left out"] },
+        "abc123"
+      )
+    )!;
+
+    const md = applyChecklistUpdate(
+      oldState,
+      {
+        ...noChange,
+        omitted_context: ["New commits: Parts of large files in the diff were truncated"],
+      },
+      "def456"
+    );
+
+    expect(parseChecklist(md)!.omittedContext).toEqual([
+      "Repository `context` left out",
+      "New commits: Parts of large files in the diff were truncated",
+    ]);
+  });
+
+  it("does not duplicate an added item that already exists", () => {
+    const oldState = checkedState();
+
+    const md = applyChecklistUpdate(
+      oldState,
+      { ...noChange, items: [sampleResult.items[0]] },
+      "def456"
+    );
+
+    expect(parseChecklist(md)!.items).toHaveLength(2);
+    expect(parseChecklist(md)!.items[0].checked).toBe(true);
+  });
+});
+
+describe("mergeConcurrentEdits", () => {
+  const base = generateChecklist(sampleResult, "abc123");
+  const ticked = base.replace("- [ ]", "- [x]");
+
+  it("keeps a checkbox ticked while the bot was re-analyzing", () => {
+    const next = mergeChecklist(parseChecklist(base)!, sampleResult, "def456");
+
+    const merged = parseChecklist(mergeConcurrentEdits(base, ticked, next))!;
+
+    expect(merged.sha).toBe("def456");
+    expect(merged.items.find((i) => i.checked)!.item.check).toBe(
+      "Verify rollback exists"
+    );
+  });
+
+  it("carries over the edit handler's attribution", () => {
+    const stamped = renderChecklist(
+      recordToggles(base, ticked, "alice", "2026-10-12T09:30:00Z")!.state
+    );
+    const next = mergeChecklist(parseChecklist(base)!, sampleResult, "def456");
+
+    const item = parseChecklist(mergeConcurrentEdits(base, stamped, next))!
+      .items.find((i) => i.checked)!;
+
+    expect(item.checkedBy).toBe("alice");
+    expect(item.history).toHaveLength(1);
+  });
+
+  it("lets the bot's own change to an item win", () => {
+    const { body: next } = skipRule(base, "migration-safety", "bob", "n/a");
+
+    expect(mergeConcurrentEdits(base, ticked, next)).toBe(next);
+  });
+});
+
+describe("skipRule", () => {
+  it("checks off the rule's items and appends the skip note", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    const { body, skipped } = skipRule(
+      md,
+      "env-var-check",
+      "alice",
+      "set in Vault"
+    );
+
+    expect(skipped).toBe(1);
+    expect(body).toContain("- [x] **Confirm env vars set**");
+    expect(body).toContain("_Skipped by @alice: set in Vault_");
+    expect(body).toContain("- [ ] **Verify rollback exists**");
+  });
+
+  it("records who skipped the item and when in the state", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    const now = new Date("2026-10-12T09:30:00Z");
+    const { body } = skipRule(md, "env-var-check", "alice", "not needed", now);
+
+    const state = parseChecklist(body)!;
+    const skipped = state.items.find((i) => i.item.rule_id === "env-var-check")!;
+    expect(state.items).toHaveLength(2);
+    expect(skipped.checked).toBe(true);
+    expect(skipped.checkedBy).toBe("alice");
+    expect(skipped.checkedAt).toBe("2026-10-12T09:30:00.000Z");
+    expect(skipped.skipReason).toBe("not needed");
+  });
+
+  it("returns the body unchanged for unknown rules", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    expect(skipRule(md, "docker", "alice", "n/a")).toEqual({
+      body: md,
+      skipped: 0,
+    });
+  });
+});
+
+describe("recordToggles", () => {
+  it("attributes newly checked items to the editor and renders the stamp", () => {
+    const before = generateChecklist(sampleResult, "abc123");
+    const after = before.replace("- [ ]", "- [x]");
+
+    const { state, toggled } = recordToggles(
+      before,
+      after,
+      "alice",
+      "2026-10-12T09:30:00Z"
+    )!;
+
+    expect(toggled).toHaveLength(1);
+    const item = state.items.find((i) => i.checked)!;
+    expect(item.checkedBy).toBe("alice");
+    expect(item.history).toEqual([
+      { action: "checked", by: "alice", at: "2026-10-12T09:30:00Z" },
+    ]);
+    expect(renderChecklist(state)).toContain("✔ checked by @alice 2026-10-12");
+  });
+
+  it("clears attribution when an item is unchecked but keeps its history", () => {
+    const unchecked = generateChecklist(sampleResult, "abc123");
+    const checked = renderChecklist(
+      recordToggles(
+        unchecked,
+        unchecked.replace("- [ ]", "- [x]"),
+        "alice",
+        "2026-10-12T09:30:00Z"
+      )!.state
+    );
+
+    const { state } = recordToggles(
+      checked,
+      checked.replace("- [x]", "- [ ]"),
+      "bob",
+      "2026-10-13T10:00:00Z"
+    )!;
+
+    const item = state.items.find((i) => (i.history ?? []).length > 0)!;
+    expect(item.checked).toBe(false);
+    expect(item.checkedBy).toBeUndefined();
+    expect(item.history!.map((e) => `${e.action}:${e.by}`)).toEqual([
+      "checked:alice",
+      "unchecked:bob",
+    ]);
+  });
+
+  it("reports zero toggles when checkboxes are unchanged", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    expect(recordToggles(md, md, "alice", "2026-10-12T09:30:00Z")!.toggled).toEqual([]);
+  });
+
+  /** Rewrite the hidden state block the way a hand edit of the comment could. */
+  function editStateBlock(body: string, edit: (state: any) => void): string {
+    return body.replace(
+      /(<!-- deploy-checklist-state:v2 )([A-Za-z0-9+/=]+)( -->)/,
+      (_, open: string, encoded: string, close: string) => {
+        const state = JSON.parse(Buffer.from(encoded, "base64").toString("utf-8"));
+        edit(state);
+        return open + Buffer.from(JSON.stringify(state)).toString("base64") + close;
+      }
+    );
+  }
+
+  it("rejects item ids missing from the previous state", () => {
+    const before = generateChecklist(sampleResult, "abc123");
+    const [id] = parseChecklist(before)!.items.map((i) => i.id);
+    const after = editStateBlock(before, (state) => {
+      state.items[0].id = "forged000000";
+    })
+      .replace(`<!-- item:${id} -->`, "<!-- item:forged000000 -->")
+      .replace("- [ ] **Verify rollback exists**", "- [x] **Verify rollback exists**");
+
+    const { state, toggled, restored } = recordToggles(
+      before,
+      after,
+      "mallory",
+      "2026-10-12T09:30:00Z"
+    )!;
+
+    expect(restored).toBe(true);
+    expect(toggled).toEqual([]);
+    expect(state.items.map((i) => [i.id, i.checked])).toEqual(
+      parseChecklist(before)!.items.map((i) => [i.id, false])
+    );
+  });
+
+  it("keeps the previous rule of an item re-ruled in the state block", () => {
+    const before = generateChecklist(sampleResult, "abc123");
+    const after = editStateBlock(before, (state) => {
+      state.items[0].rule_id = "env-var-check";
+    }).replace("- [ ] **Verify rollback exists**", "- [x] **Verify rollback exists**");
+
+    const { state, toggled, restored } = recordToggles(
+      before,
+      after,
+      "mallory",
+      "2026-10-12T09:30:00Z"
+    )!;
+
+    expect(restored).toBe(true);
+    expect(toggled).toHaveLength(1);
+    const item = state.items.find((i) => i.id === toggled[0])!;
+    expect(item.item.rule_id).toBe("migration-safety");
+    expect(item.checked).toBe(true);
+  });
+
+  it("counts every checked item as toggled when there is no previous checklist", () => {
+    const after = generateChecklist(sampleResult, "abc123").replace(
+      /- \[ \]/g,
+      "- [x]"
+    );
+
+    const { toggled } = recordToggles(
+      "Deploy checklist coming soon",
+      after,
+      "alice",
+      "2026-10-12T09:30:00Z"
+    )!;
+
+    expect(toggled).toHaveLength(2);
+  });
+});
+
+describe("recordOverride", () => {
+  it("stamps the comment and audits each unchecked item without checking it", () => {
+    const md = skipRule(
+      generateChecklist(sampleResult, "abc123"),
+      "env-var-check",
+      "bob",
+      "set in Vault"
+    ).body;
+
+    const state = recordOverride(
+      parseChecklist(md)!,
+      "alice",
+      "INC-123 outage",
+      7,
+      "2026-10-18T08:00:00Z"
+    );
+    const body = renderChecklist(state);
+
+    expect(body).toContain(
+      "> ⚠️ **Overridden** by @alice on 2026-10-18: INC-123 outage — unchecked items are tracked in #7"
+    );
+    const reparsed = parseChecklist(body)!;
+    expect(reparsed.override).toEqual({
+      by: "alice",
+      at: "2026-10-18T08:00:00Z",
+      reason: "INC-123 outage",
+      follow_up_issue: 7,
+    });
+    expect(reparsed.allComplete).toBe(false);
+    expect(
+      reparsed.items.map((i) => (i.history ?? []).map((e) => e.action))
+    ).toEqual([["overridden"], ["skipped"]]);
+  });
+
+  it("is cleared by the next incremental analysis", () => {
+    const overridden = recordOverride(
+      parseChecklist(generateChecklist(sampleResult, "abc123"))!,
+      "alice",
+      "INC-123 outage",
+      undefined,
+      "2026-10-18T08:00:00Z"
+    );
+
+    const updated = applyChecklistUpdate(
+      overridden,
+      { items: [], retired_item_ids: [], summary: "", open_concerns: [] },
+      "def456"
+    );
+
+    expect(parseChecklist(updated)!.override).toBeUndefined();
+  });
+});
+
+describe("revertChecks", () => {
+  it("un-checks reverted items and records the reason", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    const { state, toggled } = recordToggles(
+      md,
+      md.replace("- [ ]", "- [x]"),
+      "mallory",
+      "2026-10-12T09:30:00Z"
+    )!;
+
+    const reverted = revertChecks(
+      state,
+      new Map([[toggled[0], "only @dba can sign off this item"]]),
+      "mallory",
+      "2026-10-12T09:30:00Z"
+    );
+
+    const item = reverted.items.find((i) => i.id === toggled[0])!;
+    expect(item.checked).toBe(false);
+    expect(item.checkedBy).toBeUndefined();
+    expect(item.history!.map((e) => e.action)).toEqual(["checked", "reverted"]);
+    expect(item.history![1].reason).toBe("only @dba can sign off this item");
+    expect(reverted.allComplete).toBe(false);
+    expect(renderChecklist(reverted)).not.toContain("- [x]");
+  });
+});
+
+describe("auditTrail", () => {
+  it("flattens item histories into chronological export rows", () => {
+    const md = generateChecklist(sampleResult, "abc123");
+    const checked = renderChecklist(
+      recordToggles(
+        md,
+        md.replace("- [ ]", "- [x]"),
+        "alice",
+        "2026-10-12T09:30:00Z"
+      )!.state
+    );
+    const { body } = skipRule(
+      checked,
+      "env-var-check",
+      "bob",
+      "set in Vault",
+      new Date("2026-10-11T08:00:00Z")
+    );
+
+    const records = auditTrail(parseChecklist(body)!);
+
+    expect(records.map((r) => [r.action, r.by, r.rule_id])).toEqual([
+      ["skipped", "bob", "env-var-check"],
+      ["checked", "alice", "migration-safety"],
+    ]);
+    expect(records[0]).toMatchObject({
+      check: "Confirm env vars set",
+      reason: "set in Vault",
+    });
   });
 });
 
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffConfigs,
+  formatConfigPreview,
+  withConfigChangeItem,
+  CONFIG_CHANGE_RULE_ID,
+  CONFIG_PREVIEW_MARKER,
+} from "../../src/services/config-diff.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const rule = {
+  id: "payments",
+  description: "Payments sign-off",
+  trigger: { paths: ["src/payments/**"] },
+  checks: ["Payments team reviewed"],
+};
+
+const base = DeployChecklistConfigSchema.parse({
+  rules: [rule, { ...rule, id: "flags" }],
+  context: "Argo CD deploys.",
+});
+
+describe("diffConfigs", () => {
+  it("returns nothing for identical configs", () => {
+    expect(diffConfigs(base, base)).toEqual([]);
+  });
+
+  it("describes rule, setting, skill override and context changes", () => {
+    const head = DeployChecklistConfigSchema.parse({
+      settings: { ignore_authors: ["mallory"] },
+      rules: [
+        { ...rule, checks: ["Anyone reviewed"] },
+        { ...rule, id: "cache" },
+      ],
+      skills: {
+        overrides: { "migration-review": { approvers: ["acme/dba"] } },
+      },
+    });
+
+    expect(diffConfigs(base, head)).toEqual([
+      "Rule `payments` modified (checks)",
+      "Rule `flags` removed",
+      "Rule `cache` added",
+      'Setting `ignore_authors`: `[]` → `["mallory"]`',
+      "Skill override `migration-review` changed",
+      "Repository `context` changed",
+    ]);
+  });
+
+  it("describes skills being disabled and re-enabled", () => {
+    const withDocker = DeployChecklistConfigSchema.parse({
+      ...base,
+      skills: { disable: ["docker"] },
+    });
+    const head = DeployChecklistConfigSchema.parse({
+      ...base,
+      skills: { disable: ["migration-review", "secrets"] },
+    });
+
+    expect(diffConfigs(withDocker, head)).toEqual([
+      "Skill `migration-review` disabled",
+      "Skill `secrets` disabled",
+      "Skill `docker` re-enabled",
+    ]);
+  });
+
+  it("describes custom skills added, removed and modified", () => {
+    const skill = {
+      id: "feature-flags",
+      paths: ["src/flags/**"],
+      system_context: "Flags are served by LaunchDarkly.",
+      checks: ["Flag defaults to off"],
+    };
+    const withSkills = DeployChecklistConfigSchema.parse({
+      ...base,
+      skills: { custom: [skill, { ...skill, id: "queues" }] },
+    });
+    const head = DeployChecklistConfigSchema.parse({
+      ...base,
+      skills: {
+        custom: [
+          { ...skill, checks: ["Nothing to check"] },
+          { ...skill, id: "cron" },
+        ],
+      },
+    });
+
+    expect(diffConfigs(withSkills, head)).toEqual([
+      "Custom skill `feature-flags` modified (checks)",
+      "Custom skill `queues` removed",
+      "Custom skill `cron` added",
+    ]);
+  });
+
+  it("describes rules being disabled and re-enabled", () => {
+    const withFlags = DeployChecklistConfigSchema.parse({
+      ...base,
+      disable_rules: ["flags"],
+    });
+    const head = DeployChecklistConfigSchema.parse({
+      ...base,
+      disable_rules: ["payments"],
+    });
+
+    expect(diffConfigs(withFlags, head)).toEqual([
+      "Rule `payments` disabled",
+      "Rule `flags` re-enabled",
+    ]);
+  });
+});
+
+describe("formatConfigPreview", () => {
+  it("lists each change under a hidden marker", () => {
+    const body = formatConfigPreview({ changes: ["Rule `flags` removed"] });
+    expect(body).toContain(CONFIG_PREVIEW_MARKER);
+    expect(body).toContain("- Rule `flags` removed");
+  });
+
+  it("says the PR already runs on its config under config_source: head", () => {
+    const body = formatConfigPreview(
+      { changes: ["Rule `flags` removed"] },
+      "head"
+    );
+    expect(body).toContain("is analyzed with it");
+    expect(body).not.toContain("still enforced");
+  });
+
+  it("shows the load error when the head config is broken", () => {
+    const body = formatConfigPreview({
+      changes: [],
+      headWarning: "Failed to load config file",
+    });
+    expect(body).toContain("fails to load");
+    expect(body).toContain("Failed to load config file");
+  });
+});
+
+describe("withConfigChangeItem", () => {
+  const result = {
+    items: [],
+    summary: "Clean",
+    uncovered_files: [],
+    open_concerns: [],
+  };
+
+  it("prepends a high-priority sign-off item summarizing the changes", () => {
+    const changes = Array.from({ length: 7 }, (_, i) => `Rule \`r${i}\` added`);
+    const { items } = withConfigChangeItem(result, { changes });
+
+    expect(items).toHaveLength(1);
+    expect(items[0].rule_id).toBe(CONFIG_CHANGE_RULE_ID);
+    expect(items[0].priority).toBe("high");
+    expect(items[0].description).toContain("Rule `r4` added; and 2 more");
+  });
+});
@@ -1,8 +1,50 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   DeployChecklistConfigSchema,
   type DeployChecklistConfig,
 } from "../../src/schemas/config.js";
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  loadConfigChange,
+} from "../../src/services/config-loader.js";
+
+/**
+ * Mock context whose getContent serves files keyed by "owner/repo:path",
+ * or "owner/repo@ref:path" for files that only exist at one ref.
+ */
+function createMockContext(files: Record<string, string>) {
+  const getContent = vi.fn(async ({ owner, repo, path, ref }: any) => {
+    const content =
+      files[`${owner}/${repo}@${ref}:${path}`] ??
+      files[`${owner}/${repo}:${path}`];
+    if (content === undefined) {
+      throw Object.assign(new Error("Not Found"), { status: 404 });
+    }
+    return { data: { content: Buffer.from(content).toString("base64") } };
+  });
+
+  return {
+    octokit: { rest: { repos: { getContent } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+const ORG_CONFIG = `
+settings:
+  analyze_drafts: true
+  target_branches: [main]
+rules:
+  - id: payments
+    description: Payments sign-off
+    trigger: { paths: ["src/payments/**"] }
+    checks: ["Payments team reviewed"]
+  - id: feature-flags
+    description: Flag hygiene
+    trigger: { content: ['isEnabled\\('] }
+    checks: ["Flag defaults to off"]
+context: Org-wide deploys go through Argo CD.
+`;
 
 describe("DeployChecklistConfigSchema", () => {
   it("parses a complete valid config", () => {
@@ -45,7 +87,11 @@ describe("DeployChecklistConfigSchema", () => {
     expect(result.settings.target_branches).toEqual([]);
     expect(result.settings.post_empty_checklist).toBe(false);
     expect(result.settings.max_diff_size).toBe(100000);
+    expect(result.settings.gate_mode).toBe("review");
     expect(result.rules).toEqual([]);
+    expect(result.skills.overrides).toEqual({});
+    expect(result.skills.custom).toEqual([]);
+    expect(result.skills.disable).toEqual([]);
   });
 
   it("applies setting defaults when settings is partial", () => {
@@ -58,6 +104,67 @@ describe("DeployChecklistConfigSchema", () => {
     expect(result.settings.max_diff_size).toBe(100000);
   });
 
+  it("accepts a check_run gate mode and rejects unknown modes", () => {
+    const result = DeployChecklistConfigSchema.parse({
+      settings: { gate_mode: "check_run" },
+    });
+    expect(result.settings.gate_mode).toBe("check_run");
+
+    expect(() =>
+      DeployChecklistConfigSchema.parse({ settings: { gate_mode: "label" } })
+    ).toThrow();
+  });
+
+  it("accepts approver lists on rules and skill overrides", () => {
+    const result = DeployChecklistConfigSchema.parse({
+      rules: [
+        {
+          id: "payments",
+          description: "Payments sign-off",
+          trigger: { paths: ["src/payments/**"] },
+          checks: ["Payments team reviewed"],
+          approvers: ["acme/payments"],
+          allow_author_check: false,
+        },
+      ],
+      skills: {
+        overrides: { "migration-review": { approvers: ["acme/dba"] } },
+      },
+    });
+
+    expect(result.rules[0].approvers).toEqual(["acme/payments"]);
+    expect(result.rules[0].allow_author_check).toBe(false);
+    expect(result.skills.overrides["migration-review"].approvers).toEqual([
+      "acme/dba",
+    ]);
+  });
+
+  it("validates custom skills", () => {
+    const skill = {
+      id: "feature-flags",
+      content: ["isEnabled\\("],
+      system_context: "Flags default to off.",
+      checks: ["Verify the flag defaults to off"],
+    };
+
+    const result = DeployChecklistConfigSchema.parse({
+      skills: { custom: [skill] },
+    });
+    expect(result.skills.custom[0].paths).toEqual([]);
+
+    // Needs something to detect on, and content patterns must be valid regexes
+    expect(() =>
+      DeployChecklistConfigSchema.parse({
+        skills: { custom: [{ ...skill, content: [] }] },
+      })
+    ).toThrow();
+    expect(() =>
+      DeployChecklistConfigSchema.parse({
+        skills: { custom: [{ ...skill, content: ["isEnabled("] }] },
+      })
+    ).toThrow();
+  });
+
   it("rejects invalid types", () => {
     expect(() =>
       DeployChecklistConfigSchema.parse({ version: "not a number" })
@@ -130,3 +237,184 @@ describe("DeployChecklistConfigSchema", () => {
   });
 });
 
+describe("loadConfig — extends", () => {
+  it("deep-merges the extended config with local overrides", async () => {
+    const context = createMockContext({
+      "acme/.github:deploy-checklist.yml": ORG_CONFIG,
+      "acme/api:.github/deploy-checklist.yml": `
+extends: "acme/.github:deploy-checklist.yml"
+settings:
+  target_branches: [main, production]
+rules:
+  - id: payments
+    description: Payments sign-off (API)
+    trigger: { paths: ["api/payments/**"] }
+    checks: ["Payments team reviewed the API change"]
+context: This repo is the public API.
+`,
+    });
+
+    const { config, warning } = await loadConfig(context, "acme", "api", "sha");
+
+    expect(warning).toBeUndefined();
+    expect(config.settings.analyze_drafts).toBe(true);
+    expect(config.settings.target_branches).toEqual(["main", "production"]);
+    expect(config.rules.map((r) => r.id)).toEqual([
+      "payments",
+      "feature-flags",
+    ]);
+    expect(config.rules[0].trigger.paths).toEqual(["api/payments/**"]);
+    expect(config.context).toBe(
+      "Org-wide deploys go through Argo CD.\n\nThis repo is the public API."
+    );
+  });
+
+  it("drops inherited rules listed in disable_rules", async () => {
+    const context = createMockContext({
+      "acme/.github:deploy-checklist.yml": ORG_CONFIG,
+      "acme/api:.github/deploy-checklist.yml": `
+extends: "acme/.github"
+disable_rules: [feature-flags]
+`,
+    });
+
+    const { config } = await loadConfig(context, "acme", "api", "sha");
+
+    expect(config.rules.map((r) => r.id)).toEqual(["payments"]);
+  });
+
+  it("falls back to the org .github repo when the repo has no config", async () => {
+    const context = createMockContext({
+      "acme/.github:deploy-checklist.yml": ORG_CONFIG,
+    });
+
+    const { config } = await loadConfig(context, "acme", "web", "sha");
+
+    expect(config.rules).toHaveLength(2);
+    expect(context.octokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: "acme",
+      repo: ".github",
+      path: "deploy-checklist.yml",
+      ref: undefined,
+    });
+  });
+
+  it("validates the merged result and warns when it is invalid", async () => {
+    const context = createMockContext({
+      "acme/.github:deploy-checklist.yml": "settings:\n  max_diff_size: big\n",
+      "acme/api:.github/deploy-checklist.yml":
+        'extends: "acme/.github:deploy-checklist.yml"\n',
+    });
+
+    const { config, warning } = await loadConfig(context, "acme", "api", "sha");
+
+    expect(warning).toContain("Failed to load config file");
+    expect(config.settings.max_diff_size).toBe(100000);
+  });
+
+  it("warns when the extended config is missing or cyclic", async () => {
+    const missing = await loadConfig(
+      createMockContext({
+        "acme/api:.github/deploy-checklist.yml":
+          'extends: "acme/shared:nope.yml"\n',
+      }),
+      "acme",
+      "api",
+      "sha"
+    );
+    expect(missing.warning).toContain('"acme/shared:nope.yml" was not found');
+
+    const cyclic = await loadConfig(
+      createMockContext({
+        "acme/api:.github/deploy-checklist.yml": 'extends: "acme/a:a.yml"\n',
+        "acme/a:a.yml": 'extends: "acme/b:b.yml"\n',
+        "acme/b:b.yml": 'extends: "acme/a:a.yml"\n',
+      }),
+      "acme",
+      "api",
+      "sha"
+    );
+    expect(cyclic.warning).toContain("cycle");
+  });
+});
+
+describe("loadEffectiveConfig", () => {
+  const pr = { head: { sha: "head123" }, base: { ref: "main" } };
+  const BASE_CONFIG = "settings:\n  ignore_authors: [dependabot]\n";
+  const HEAD_CONFIG = "settings:\n  ignore_authors: [mallory]\n";
+
+  it("enforces the base branch config by default", async () => {
+    const context = createMockContext({
+      "acme/api@main:.github/deploy-checklist.yml": BASE_CONFIG,
+      "acme/api@head123:.github/deploy-checklist.yml": HEAD_CONFIG,
+    });
+
+    const { config } = await loadEffectiveConfig(context, "acme", "api", pr);
+
+    expect(config.settings.ignore_authors).toEqual(["dependabot"]);
+  });
+
+  it("uses the head config only when the base config opts in", async () => {
+    const context = createMockContext({
+      "acme/api@main:.github/deploy-checklist.yml":
+        "settings:\n  config_source: head\n",
+      "acme/api@head123:.github/deploy-checklist.yml": HEAD_CONFIG,
+    });
+
+    const { config } = await loadEffectiveConfig(context, "acme", "api", pr);
+
+    expect(config.settings.ignore_authors).toEqual(["mallory"]);
+  });
+});
+
+describe("loadConfigChange", () => {
+  it("diffs the head config against the enforced config", async () => {
+    const base = DeployChecklistConfigSchema.parse({});
+    const context = createMockContext({
+      "acme/api@head123:.github/deploy-checklist.yml":
+        "settings:\n  ignore_authors: [mallory]\n",
+    });
+
+    const change = await loadConfigChange(
+      context,
+      "acme",
+      "api",
+      base,
+      "head123"
+    );
+
+    expect(change).toEqual({
+      changes: ['Setting `ignore_authors`: `[]` → `["mallory"]`'],
+    });
+  });
+
+  it("returns null for edits with no effective change", async () => {
+    const base = DeployChecklistConfigSchema.parse({});
+    const context = createMockContext({
+      "acme/api@head123:.github/deploy-checklist.yml":
+        "# just a comment\nversion: 1\n",
+    });
+
+    expect(
+      await loadConfigChange(context, "acme", "api", base, "head123")
+    ).toBeNull();
+  });
+
+  it("reports a head config that fails to load", async () => {
+    const base = DeployChecklistConfigSchema.parse({});
+    const context = createMockContext({
+      "acme/api@head123:.github/deploy-checklist.yml":
+        "settings:\n  max_diff_size: big\n",
+    });
+
+    const change = await loadConfigChange(
+      context,
+      "acme",
+      "api",
+      base,
+      "head123"
+    );
+
+    expect(change?.headWarning).toContain("Failed to load config file");
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import { buildDeterministicResult } from "../../src/services/deterministic-analyzer.js";
+import { analyzeDiff } from "../../src/services/diff-analyzer.js";
+import { detectActiveSkills } from "../../src/skills/index.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    join(__dirname, "..", "fixtures", "diffs", name),
+    "utf-8"
+  );
+}
+
+const migrationDiff = readFixture("migration-added.diff");
+const envDiff = readFixture("env-var-referenced.diff");
+
+function createMockContext() {
+  return {
+    octokit: { rest: { repos: { getContent: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+const prMeta = {
+  title: "Add users table",
+  body: "",
+  baseBranch: "main",
+  headSha: "abc123",
+  author: "developer",
+  isDraft: false,
+  filesChanged: [],
+};
+const repoInfo = { owner: "owner", repo: "repo", ref: "abc123" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANALYSIS_RETRY_BASE_MS = "0";
+  process.env.ANALYSIS_CACHE = "off";
+});
+
+describe("buildDeterministicResult", () => {
+  it("emits one item per check of each active skill, citing matched files", () => {
+    const skills = detectActiveSkills(
+      ["migrations/20240115_add_users.sql"],
+      migrationDiff
+    );
+    const migration = skills.find((s) => s.id === "migration-review")!;
+
+    const result = buildDeterministicResult(migrationDiff, skills, [], "sum");
+
+    const items = result.items.filter((i) => i.rule_id === "migration-review");
+    expect(items.map((i) => i.check)).toEqual(migration.checks);
+    expect(items[0].reasoning).toBe(
+      "Matched files: migrations/20240115_add_users.sql"
+    );
+    expect(items[0].files).toEqual(["migrations/20240115_add_users.sql"]);
+    expect(result.summary).toBe("sum");
+  });
+
+  it("attributes content-only skills to the files whose hunks matched", () => {
+    const skills = detectActiveSkills(["src/db/connection.ts"], envDiff);
+    const result = buildDeterministicResult(envDiff, skills, [], "sum");
+
+    const envItem = result.items.find((i) => i.rule_id === "env-vars")!;
+    expect(envItem.files).toEqual(["src/db/connection.ts"]);
+  });
+
+  it("evaluates custom rule triggers locally", () => {
+    const rules = DeployChecklistConfigSchema.parse({
+      rules: [
+        {
+          id: "db-pool",
+          description: "DB pool config changed",
+          trigger: { content: ["new Pool\\("] },
+          checks: ["Check pool sizing"],
+        },
+        {
+          id: "docs",
+          description: "Docs changed",
+          trigger: { paths: ["docs/**"] },
+          checks: ["Proofread"],
+        },
+        {
+          id: "needs-changelog",
+          description: "Source changed without a changelog entry",
+          trigger: {
+            paths: ["src/**"],
+            missing_companion: ["CHANGELOG.md"],
+          },
+          checks: ["Add a changelog entry"],
+        },
+      ],
+    }).rules;
+
+    const result = buildDeterministicResult(envDiff, [], rules, "sum");
+
+    expect(result.items.map((i) => i.rule_id)).toEqual([
+      "db-pool",
+      "needs-changelog",
+    ]);
+    expect(result.items[1].reasoning).toContain(
+      "No expected companion file changed (CHANGELOG.md)"
+    );
+  });
+});
+
+describe("analyzeDiff — analysis_mode", () => {
+  function configFor(mode: string) {
+    return DeployChecklistConfigSchema.parse({
+      settings: { analysis_mode: mode },
+    });
+  }
+
+  it("never calls Claude in deterministic mode", async () => {
+    const result = await analyzeDiff(
+      createMockContext(),
+      migrationDiff,
+      configFor("deterministic"),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).not.toHaveBeenCalled();
+    expect(result!.items.some((i) => i.rule_id === "migration-review")).toBe(
+      true
+    );
+  });
+
+  it("falls back to the deterministic checklist when Claude fails in hybrid mode", async () => {
+    create.mockRejectedValue(new Error("overloaded"));
+    const context = createMockContext();
+
+    const result = await analyzeDiff(
+      context,
+      migrationDiff,
+      configFor("hybrid"),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalled();
+    expect(result!.items.length).toBeGreaterThan(0);
+    expect(result!.summary).toContain("LLM analysis was unavailable");
+    expect(context.log.warn).toHaveBeenCalled();
+  });
+
+  it("throws the classified failure when Claude fails in llm mode", async () => {
+    create.mockRejectedValue(new Error("overloaded"));
+
+    await expect(
+      analyzeDiff(
+        createMockContext(),
+        migrationDiff,
+        configFor("llm"),
+        prMeta,
+        repoInfo
+      )
+    ).rejects.toMatchObject({ failureClass: "overloaded" });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import {
+  analyzeDiff,
+  mergeAnalysisResults,
+} from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+import type { ChecklistItem } from "../../src/schemas/analysis-result.js";
+
+function fileDiff(filename: string): string {
+  return [
+    `diff --git a/${filename} b/${filename}`,
+    `--- a/${filename}`,
+    `+++ b/${filename}`,
+    "@@ -1,20 +1,20 @@",
+    ...Array.from({ length: 20 }, (_, i) => `+const value${i} = ${i};`),
+    "",
+  ].join("\n");
+}
+
+const files = ["api/users.ts", "web/page.tsx", "jobs/cron.ts"];
+const diff = files.map(fileDiff).join("");
+
+function configWith(settings: Record<string, unknown>) {
+  return DeployChecklistConfigSchema.parse({
+    settings: {
+      max_diff_size: fileDiff("api/users.ts").length + 10,
+      large_diff_strategy: "chunk",
+      ...settings,
+    },
+  });
+}
+
+const prMeta = {
+  title: "Big refactor",
+  body: "",
+  baseBranch: "main",
+  headSha: "abc123",
+  author: "developer",
+  isDraft: false,
+  filesChanged: files,
+};
+const repoInfo = { owner: "owner", repo: "repo", ref: "abc123" };
+
+function item(overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  return {
+    rule_id: "api-contract",
+    check: "Confirm clients handle the change",
+    description: "API change",
+    reasoning: "Route changed",
+    priority: "medium",
+    ...overrides,
+  };
+}
+
+function toolUse(input: unknown) {
+  return {
+    content: [
+      { type: "tool_use", id: "toolu_1", name: "submit_analysis", input },
+    ],
+  };
+}
+
+function createMockContext() {
+  return {
+    octokit: { rest: { repos: { getContent: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANALYSIS_RETRY_BASE_MS = "0";
+  process.env.ANALYSIS_CACHE = "off";
+});
+
+describe("mergeAnalysisResults", () => {
+  it("collapses duplicate checks into the highest-priority copy with all files", () => {
+    const merged = mergeAnalysisResults([
+      {
+        items: [item({ files: ["api/users.ts"] })],
+        summary: "Part one.",
+        uncovered_files: ["a.txt"],
+        open_concerns: [{ file: "a.txt", concern: "x" }],
+      },
+      {
+        items: [
+          item({
+            check: "confirm  clients handle the change",
+            priority: "high",
+            files: ["api/orders.ts"],
+          }),
+          item({ rule_id: "other", check: "Another check" }),
+        ],
+        summary: "Part two.",
+        uncovered_files: ["a.txt", "b.txt"],
+        open_concerns: [{ file: "a.txt", concern: "x" }],
+      },
+    ]);
+
+    expect(merged.items).toHaveLength(2);
+    expect(merged.items[0]).toMatchObject({
+      priority: "high",
+      files: ["api/users.ts", "api/orders.ts"],
+    });
+    expect(merged.summary).toBe("Part one. Part two.");
+    expect(merged.uncovered_files).toEqual(["a.txt", "b.txt"]);
+    expect(merged.open_concerns).toEqual([{ file: "a.txt", concern: "x" }]);
+  });
+});
+
+describe("analyzeDiff — large diffs", () => {
+  it("analyzes each chunk separately and merges the results", async () => {
+    create.mockImplementation(async () =>
+      toolUse({ items: [item()], summary: "Chunk summary." })
+    );
+
+    const result = await analyzeDiff(
+      createMockContext(),
+      diff,
+      configWith({}),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalledTimes(3);
+    const prompts = create.mock.calls.map(
+      (call) => call[0].messages[0].content as string
+    );
+    expect(prompts[0]).toContain("This is part 1 of 3");
+    expect(prompts[0]).toContain("api/users.ts");
+    expect(prompts[0]).not.toContain("+++ b/web/page.tsx");
+    expect(result.items).toHaveLength(1);
+    expect(result.summary).toBe("Chunk summary.");
+  });
+
+  it("sends one truncated pass with large_diff_strategy: truncate", async () => {
+    create.mockResolvedValue(toolUse({ items: [], summary: "One pass." }));
+
+    await analyzeDiff(
+      createMockContext(),
+      diff,
+      configWith({ large_diff_strategy: "truncate" }),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][0].messages[0].content).not.toContain(
+      "Partial Diff"
+    );
+  });
+
+  it("truncates by default", async () => {
+    create.mockResolvedValue(toolUse({ items: [], summary: "One pass." }));
+
+    await analyzeDiff(
+      createMockContext(),
+      diff,
+      DeployChecklistConfigSchema.parse({
+        settings: { max_diff_size: fileDiff("api/users.ts").length + 10 },
+      }),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("merges the chunks that succeeded and lists the ones that failed", async () => {
+    create.mockImplementation(async (request: any) => {
+      if (request.messages[0].content.includes("+++ b/web/page.tsx")) {
+        throw Object.assign(new Error("bad request"), { status: 400 });
+      }
+      return toolUse({ items: [item()], summary: "Chunk summary." });
+    });
+
+    const result = await analyzeDiff(
+      createMockContext(),
+      diff,
+      configWith({}),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(result.items).toHaveLength(1);
+    expect(result.omitted_context).toEqual([
+      "Part 2/3 could not be analyzed (invalid_request): `web/page.tsx`",
+    ]);
+  });
+
+  it("falls back to one truncated pass when every chunk fails", async () => {
+    create
+      .mockRejectedValueOnce(Object.assign(new Error("bad"), { status: 400 }))
+      .mockRejectedValueOnce(Object.assign(new Error("bad"), { status: 400 }))
+      .mockRejectedValueOnce(Object.assign(new Error("bad"), { status: 400 }))
+      .mockResolvedValue(toolUse({ items: [item()], summary: "One pass." }));
+
+    const result = await analyzeDiff(
+      createMockContext(),
+      diff,
+      configWith({}),
+      prMeta,
+      repoInfo
+    );
+
+    expect(create).toHaveBeenCalledTimes(4);
+    expect(create.mock.calls[3][0].messages[0].content).not.toContain(
+      "Partial Diff"
+    );
+    expect(result.summary).toBe("One pass.");
+  });
+
+  it("fails when the truncated fallback fails too", async () => {
+    create.mockRejectedValue(
+      Object.assign(new Error("denied"), { status: 401 })
+    );
+
+    await expect(
+      analyzeDiff(createMockContext(), diff, configWith({}), prMeta, repoInfo)
+    ).rejects.toMatchObject({ failureClass: "auth" });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import {
+  analyzeIncrement,
+  fetchCompareDiff,
+} from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const delta = [
+  "diff --git a/migrations/002_add_index.sql b/migrations/002_add_index.sql",
+  "--- /dev/null",
+  "+++ b/migrations/002_add_index.sql",
+  "@@ -0,0 +1 @@",
+  "+CREATE INDEX idx_users_email ON users(email);",
+].join("\n");
+
+const config = DeployChecklistConfigSchema.parse({});
+const repoInfo = { owner: "owner", repo: "repo", pullNumber: 7 };
+const prMeta = {
+  title: "Add users",
+  body: "",
+  baseBranch: "main",
+  headSha: "def4567890",
+  author: "developer",
+  isDraft: false,
+  filesChanged: ["migrations/001_users.sql", "migrations/002_add_index.sql"],
+};
+const existingItems = [
+  {
+    id: "a1b2c3d4e5f6",
+    checked: true,
+    item: {
+      rule_id: "migration-review",
+      check: "Verify rollback exists",
+      description: "Rollback for 001_users.sql",
+      reasoning: "New migration",
+      priority: "high" as const,
+      files: ["migrations/001_users.sql"],
+    },
+  },
+];
+
+function createMockContext() {
+  return {
+    octokit: { rest: { repos: { compareCommits: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANALYSIS_RETRY_BASE_MS = "0";
+});
+
+describe("analyzeIncrement", () => {
+  it("sends the existing checklist and only the new commits' diff", async () => {
+    create.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "t1",
+          name: "submit_checklist_update",
+          input: { items: [], retired_item_ids: [], summary: "Same risk." },
+        },
+      ],
+    });
+
+    const update = await analyzeIncrement(
+      createMockContext(),
+      delta,
+      config,
+      prMeta,
+      "abc1234567",
+      existingItems,
+      repoInfo
+    );
+
+    expect(update.summary).toBe("Same risk.");
+    const params = create.mock.calls[0][0];
+    expect(params.tool_choice).toEqual({
+      type: "tool",
+      name: "submit_checklist_update",
+    });
+    const prompt = params.messages[0].content as string;
+    expect(prompt).toContain("## Existing Checklist");
+    expect(prompt).toContain("- id: a1b2c3d4e5f6 [checked] (migration-review)");
+    expect(prompt).toContain("## New Commits Diff (abc1234..def4567)");
+    expect(prompt).toContain("CREATE INDEX idx_users_email");
+    expect(prompt).toContain("### Skill: migration-review");
+  });
+
+  it("drops retired ids that are not on the checklist", async () => {
+    create.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "t1",
+          name: "submit_checklist_update",
+          input: {
+            items: [],
+            retired_item_ids: ["a1b2c3d4e5f6", "made-up"],
+            summary: "",
+          },
+        },
+      ],
+    });
+
+    const update = await analyzeIncrement(
+      createMockContext(),
+      delta,
+      config,
+      prMeta,
+      "abc1234567",
+      existingItems,
+      repoInfo
+    );
+
+    expect(update.retired_item_ids).toEqual(["a1b2c3d4e5f6"]);
+  });
+
+  it("fits the prompt into max_prompt_tokens and reports what was left out", async () => {
+    create.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "t1",
+          name: "submit_checklist_update",
+          input: { items: [], retired_item_ids: [], summary: "" },
+        },
+      ],
+    });
+    const bigDelta = [
+      delta,
+      ...Array.from({ length: 20 }, (_, i) =>
+        [
+          `diff --git a/src/file${i}.ts b/src/file${i}.ts`,
+          `--- a/src/file${i}.ts`,
+          `+++ b/src/file${i}.ts`,
+          "@@ -1 +1 @@",
+          `+${"x".repeat(2000)}`,
+        ].join("\n")
+      ),
+    ].join("\n");
+    const tight = DeployChecklistConfigSchema.parse({
+      settings: { max_prompt_tokens: 2000 },
+    });
+
+    const update = await analyzeIncrement(
+      createMockContext(),
+      bigDelta,
+      tight,
+      prMeta,
+      "abc1234567",
+      existingItems,
+      repoInfo
+    );
+
+    const prompt = create.mock.calls[0][0].messages[0].content as string;
+    expect(prompt.length).toBeLessThan(bigDelta.length / 2);
+    expect(prompt).toContain("- id: a1b2c3d4e5f6 [checked] (migration-review)");
+    expect(update.omitted_context).toContainEqual(
+      expect.stringMatching(
+        /^New commits: \d+ file\(s\) in the diff reduced to filenames/
+      )
+    );
+  });
+
+  it("throws a classified AnalysisError on failure", async () => {
+    create.mockRejectedValue(Object.assign(new Error("no"), { status: 401 }));
+
+    await expect(
+      analyzeIncrement(
+        createMockContext(),
+        delta,
+        config,
+        prMeta,
+        "abc1234567",
+        existingItems,
+        repoInfo
+      )
+    ).rejects.toMatchObject({ failureClass: "auth" });
+  });
+});
+
+describe("fetchCompareDiff", () => {
+  it("returns the compare diff when head is ahead of the old SHA", async () => {
+    const context = createMockContext();
+    context.octokit.rest.repos.compareCommits
+      .mockResolvedValueOnce({ data: { status: "ahead" } })
+      .mockResolvedValueOnce({ data: delta });
+
+    const diff = await fetchCompareDiff(context, "o", "r", "abc", "def");
+
+    expect(diff).toBe(delta);
+    expect(context.octokit.rest.repos.compareCommits).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mediaType: { format: "diff" } })
+    );
+  });
+
+  it("returns null after a force-push", async () => {
+    const context = createMockContext();
+    context.octokit.rest.repos.compareCommits.mockResolvedValue({
+      data: { status: "diverged" },
+    });
+
+    expect(await fetchCompareDiff(context, "o", "r", "abc", "def")).toBeNull();
+    expect(context.octokit.rest.repos.compareCommits).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns null when the old SHA no longer exists", async () => {
+    const context = createMockContext();
+    context.octokit.rest.repos.compareCommits.mockRejectedValue(
+      Object.assign(new Error("Not Found"), { status: 404 })
+    );
+
+    expect(await fetchCompareDiff(context, "o", "r", "abc", "def")).toBeNull();
+  });
+});
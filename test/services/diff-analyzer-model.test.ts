@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import { analyzeDiff, resolveModel } from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const escalation = {
+  small_diff: { max_size: 1000, model: "small-model" },
+  high_risk: { model: "large-model" },
+};
+
+function settings(overrides: Record<string, unknown> = {}) {
+  return DeployChecklistConfigSchema.parse({ settings: overrides }).settings;
+}
+
+describe("resolveModel", () => {
+  it("uses the provider default when nothing is configured", () => {
+    expect(resolveModel(settings(), "default-model", 50, [])).toEqual({
+      model: "default-model",
+      reason: "provider default",
+    });
+  });
+
+  it("prefers settings.model over the provider default", () => {
+    const { model } = resolveModel(
+      settings({ model: "repo-model" }),
+      "default-model",
+      50000,
+      []
+    );
+
+    expect(model).toBe("repo-model");
+  });
+
+  it("uses the small-diff model up to max_size", () => {
+    const s = settings({ model: "repo-model", model_escalation: escalation });
+
+    expect(resolveModel(s, "d", 1000, []).model).toBe("small-model");
+    expect(resolveModel(s, "d", 1001, []).model).toBe("repo-model");
+  });
+
+  it("escalates on the default high-risk skills, even for small diffs", () => {
+    const s = settings({ model_escalation: escalation });
+
+    const choice = resolveModel(s, "d", 10, ["docker", "authentication"]);
+
+    expect(choice.model).toBe("large-model");
+    expect(choice.reason).toContain("authentication");
+    expect(resolveModel(s, "d", 10, ["migration-entity"]).model).toBe(
+      "large-model"
+    );
+  });
+
+  it("honors a custom high-risk skill list", () => {
+    const s = settings({
+      model_escalation: {
+        high_risk: { skills: ["docker"], model: "large-model" },
+      },
+    });
+
+    expect(resolveModel(s, "d", 10, ["docker"]).model).toBe("large-model");
+    expect(resolveModel(s, "d", 10, ["authentication"]).model).toBe("d");
+  });
+});
+
+describe("analyzeDiff — model settings", () => {
+  const diff = [
+    "diff --git a/src/auth/login.ts b/src/auth/login.ts",
+    "--- a/src/auth/login.ts",
+    "+++ b/src/auth/login.ts",
+    "@@ -1 +1 @@",
+    "-old",
+    "+new",
+  ].join("\n");
+  const prMeta = {
+    title: "Tweak login",
+    body: "",
+    baseBranch: "main",
+    headSha: "abc123",
+    author: "developer",
+    isDraft: false,
+    filesChanged: ["src/auth/login.ts"],
+  };
+  const context = {
+    octokit: { rest: { repos: { getContent: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+
+  beforeEach(() => {
+    create.mockReset();
+    process.env.ANALYSIS_RETRY_BASE_MS = "0";
+    process.env.ANALYSIS_CACHE = "off";
+    create.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "submit_analysis",
+          input: { items: [], summary: "ok" },
+        },
+      ],
+    });
+  });
+
+  it("sends the resolved model, max_output_tokens and temperature", async () => {
+    const config = DeployChecklistConfigSchema.parse({
+      settings: {
+        max_output_tokens: 12000,
+        temperature: 0,
+        model_escalation: escalation,
+      },
+    });
+
+    await analyzeDiff(context as any, diff, config, prMeta, {
+      owner: "owner",
+      repo: "repo",
+      ref: "abc123",
+    });
+
+    expect(create.mock.calls[0][0]).toMatchObject({
+      model: "large-model",
+      max_tokens: 12000,
+      temperature: 0,
+    });
+  });
+
+  it("defaults to 4000 output tokens and no temperature", async () => {
+    await analyzeDiff(
+      context as any,
+      diff,
+      DeployChecklistConfigSchema.parse({}),
+      prMeta,
+      { owner: "owner", repo: "repo", ref: "abc123" }
+    );
+
+    expect(create.mock.calls[0][0].max_tokens).toBe(4000);
+    expect(create.mock.calls[0][0]).not.toHaveProperty("temperature");
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import { analyzeDiff } from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+import { renderMetrics, resetMetrics } from "../../src/utils/metrics.js";
+
+const diff = [
+  "diff --git a/src/app.ts b/src/app.ts",
+  "--- a/src/app.ts",
+  "+++ b/src/app.ts",
+  "@@ -1 +1 @@",
+  "-old",
+  "+new",
+].join("\n");
+
+const config = DeployChecklistConfigSchema.parse({});
+const prMeta = {
+  title: "Tweak app",
+  body: "",
+  baseBranch: "main",
+  headSha: "abc123",
+  author: "developer",
+  isDraft: false,
+  filesChanged: ["src/app.ts"],
+};
+const repoInfo = { owner: "owner", repo: "repo", ref: "abc123" };
+
+const validResult = {
+  items: [],
+  summary: "No deploy risks.",
+  uncovered_files: [],
+  open_concerns: [],
+};
+
+// An item without a priority fails AnalysisResultSchema
+const invalidResult = {
+  items: [{ rule_id: "r", check: "c", description: "d", reasoning: "x" }],
+};
+
+function toolUse(input: unknown) {
+  return {
+    content: [
+      { type: "tool_use", id: "toolu_1", name: "submit_analysis", input },
+    ],
+  };
+}
+
+function apiError(status: number) {
+  return Object.assign(new Error(`status ${status}`), { status });
+}
+
+function createMockContext() {
+  return {
+    octokit: { rest: { repos: { getContent: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANALYSIS_RETRY_BASE_MS = "0";
+  process.env.ANALYSIS_CACHE = "off";
+});
+
+describe("analyzeDiff — retries", () => {
+  it("retries rate-limited calls and logs each retry", async () => {
+    const context = createMockContext();
+    create
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce(toolUse(validResult));
+
+    const result = await analyzeDiff(context, diff, config, prMeta, repoInfo);
+
+    expect(result.summary).toBe("No deploy risks.");
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(context.log.warn).toHaveBeenCalledWith(
+      expect.stringContaining("rate_limited, attempt 1/4")
+    );
+  });
+
+  it("counts retries, call latency and the analysis outcome", async () => {
+    resetMetrics();
+    create
+      .mockRejectedValueOnce(apiError(529))
+      .mockResolvedValueOnce(toolUse(validResult));
+
+    await analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo);
+    const metrics = renderMetrics();
+
+    expect(metrics).toContain(
+      'deploy_checklist_llm_retries_total{provider="anthropic",failure_class="overloaded"} 1'
+    );
+    expect(metrics).toContain(
+      'deploy_checklist_llm_request_duration_seconds_count{provider="anthropic"} 2'
+    );
+    expect(metrics).toContain(
+      'deploy_checklist_analyses_total{kind="full",outcome="succeeded"} 1'
+    );
+    expect(metrics).toContain(
+      `deploy_checklist_diff_size_chars_sum{kind="full"} ${diff.length}`
+    );
+  });
+
+  it("gives up after the attempt limit with the failure class", async () => {
+    create.mockRejectedValue(apiError(503));
+
+    await expect(
+      analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo)
+    ).rejects.toMatchObject({ failureClass: "server_error", attempts: 4 });
+    expect(create).toHaveBeenCalledTimes(4);
+  });
+
+  it("fails immediately on auth errors", async () => {
+    create.mockRejectedValue(apiError(401));
+
+    await expect(
+      analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo)
+    ).rejects.toMatchObject({ failureClass: "auth", attempts: 1 });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("analyzeDiff — schema repair", () => {
+  it("sends validation errors back and accepts the corrected submission", async () => {
+    create
+      .mockResolvedValueOnce(toolUse(invalidResult))
+      .mockResolvedValueOnce(toolUse(validResult));
+
+    const result = await analyzeDiff(
+      createMockContext(),
+      diff,
+      config,
+      prMeta,
+      repoInfo
+    );
+
+    expect(result.summary).toBe("No deploy risks.");
+    const repairMessages = create.mock.calls[1][0].messages;
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[2].content[0]).toMatchObject({
+      type: "tool_result",
+      tool_use_id: "toolu_1",
+      is_error: true,
+    });
+    expect(repairMessages[2].content[0].content).toContain("items.0.priority");
+  });
+
+  it("fails as invalid_response when the repair is also invalid", async () => {
+    create.mockResolvedValue(toolUse(invalidResult));
+
+    await expect(
+      analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo)
+    ).rejects.toMatchObject({ failureClass: "invalid_response" });
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails as invalid_response when Claude returns no tool call", async () => {
+    create.mockResolvedValue({ content: [{ type: "text", text: "hi" }] });
+
+    await expect(
+      analyzeDiff(createMockContext(), diff, config, prMeta, repoInfo)
+    ).rejects.toMatchObject({ failureClass: "invalid_response" });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { chunkDiff } from "../../src/utils/diff-chunking.js";
+import { mapWithConcurrency } from "../../src/utils/concurrency.js";
+import type { Rule } from "../../src/schemas/config.js";
+
+function fileDiff(filename: string, lines = 10): string {
+  return [
+    `diff --git a/${filename} b/${filename}`,
+    `--- a/${filename}`,
+    `+++ b/${filename}`,
+    `@@ -1,${lines} +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_, i) => `+line ${i}`),
+    "",
+  ].join("\n");
+}
+
+const migrationRule: Rule = {
+  id: "migration-review",
+  description: "Migrations",
+  trigger: { paths: ["migrations/**"] },
+  checks: ["Verify rollback"],
+};
+
+describe("chunkDiff", () => {
+  it("keeps every file exactly once across chunks", () => {
+    const files = ["a/one.ts", "b/two.ts", "c/three.ts", "d/four.ts"];
+    const diff = files.map((f) => fileDiff(f)).join("");
+
+    const chunks = chunkDiff(diff, fileDiff("a/one.ts").length * 2, [], 8);
+
+    expect(chunks.flatMap((c) => c.files).sort()).toEqual([...files].sort());
+    expect(chunks.map((c) => c.diff).join("")).toHaveLength(diff.length);
+  });
+
+  it("groups files by triggering rule, then by top-level directory", () => {
+    const diff = [
+      fileDiff("src/api/users.ts"),
+      fileDiff("migrations/001.sql"),
+      fileDiff("docs/readme.md"),
+      fileDiff("migrations/002.sql"),
+    ].join("");
+    const size = fileDiff("migrations/001.sql").length * 2;
+
+    const chunks = chunkDiff(diff, size, [migrationRule], 8);
+
+    const migrations = chunks.find((c) =>
+      c.groups.includes("migration-review")
+    )!;
+    expect(migrations.files).toEqual([
+      "migrations/001.sql",
+      "migrations/002.sql",
+    ]);
+    expect(chunks.flatMap((c) => c.groups)).toEqual(
+      expect.arrayContaining(["src/", "docs/"])
+    );
+  });
+
+  it("does not split a group that fits into a batch of its own", () => {
+    const diff = [
+      fileDiff("src/a.ts"),
+      fileDiff("lib/a.ts"),
+      fileDiff("lib/b.ts"),
+    ].join("");
+    const size = fileDiff("lib/a.ts").length * 2 + 1;
+
+    const chunks = chunkDiff(diff, size, [], 8);
+
+    expect(chunks.map((c) => c.files)).toEqual([
+      ["src/a.ts"],
+      ["lib/a.ts", "lib/b.ts"],
+    ]);
+  });
+
+  it("grows batches instead of exceeding maxChunks", () => {
+    const diff = Array.from({ length: 20 }, (_, i) =>
+      fileDiff(`pkg${i}/index.ts`)
+    ).join("");
+
+    const chunks = chunkDiff(diff, fileDiff("pkg0/index.ts").length, [], 4);
+
+    expect(chunks.length).toBeLessThanOrEqual(5);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("preserves order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (ms, i) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        inFlight--;
+        return i;
+      }
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it("rejects with the first error and stops starting new work", async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async (n) => {
+        started.push(n);
+        if (n === 2) throw new Error("boom");
+        return n;
+      })
+    ).rejects.toThrow("boom");
+    expect(started).toEqual([1, 2]);
+  });
+});
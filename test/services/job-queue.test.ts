@@ -0,0 +1,440 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileJobStore,
+  JobQueue,
+  MemoryJobStore,
+  RedisJobStore,
+  type Job,
+  type JobQueueOptions,
+} from "../../src/services/job-queue.js";
+import RedisMock from "ioredis-mock";
+import { renderMetrics, resetMetrics } from "../../src/utils/metrics.js";
+
+const options: JobQueueOptions = {
+  concurrencyPerInstallation: 2,
+  maxAttempts: 3,
+  retryBaseMs: 0,
+};
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    key: "owner/repo#1",
+    type: "test",
+    installationId: 1,
+    data: {},
+    runAt: 0,
+    attempts: 0,
+    state: "queued",
+    ...overrides,
+  };
+}
+
+/** A handler that stays running until release() is called. */
+function blockingHandler() {
+  const releases: (() => void)[] = [];
+  const handler = vi.fn(
+    () => new Promise<void>((resolve) => releases.push(resolve))
+  );
+  return { handler, release: () => releases.forEach((r) => r()) };
+}
+
+describe("JobQueue", () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMetrics();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    await queue.idle();
+  });
+
+  it("runs a queued job once its delay has passed and removes it", async () => {
+    const store = new MemoryJobStore();
+    queue = new JobQueue(store, options, log);
+    const handler = vi.fn(async () => {});
+    queue.handle("test", handler);
+    await queue.start();
+
+    await queue.enqueue({
+      key: "owner/repo#1",
+      type: "test",
+      installationId: 1,
+      data: { n: 1 },
+      delayMs: 20,
+    });
+    expect(handler).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    await queue.idle();
+    expect(handler.mock.calls[0][0]).toMatchObject({ data: { n: 1 } });
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("coalesces jobs queued under the same key into the latest one", async () => {
+    queue = new JobQueue(new MemoryJobStore(), options, log);
+    const handler = vi.fn(async () => {});
+    queue.handle("test", handler);
+    await queue.start();
+
+    for (const n of [1, 2, 3]) {
+      await queue.enqueue({
+        key: "owner/repo#1",
+        type: "test",
+        installationId: 1,
+        data: { n },
+        delayMs: 20,
+      });
+    }
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    await queue.idle();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ data: { n: 3 } });
+    expect(renderMetrics()).toContain(
+      'deploy_checklist_debounce_cancellations_total{reason="superseded"} 2'
+    );
+  });
+
+  it("drops a cancelled job", async () => {
+    queue = new JobQueue(new MemoryJobStore(), options, log);
+    const handler = vi.fn(async () => {});
+    queue.handle("test", handler);
+    await queue.start();
+
+    await queue.enqueue({
+      key: "owner/repo#1",
+      type: "test",
+      installationId: 1,
+      data: {},
+      delayMs: 20,
+    });
+    expect(await queue.cancel("owner/repo#1")).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.has("owner/repo#1")).toBe(false);
+  });
+
+  it("retries a failing job and tells the handler about its last attempt", async () => {
+    queue = new JobQueue(new MemoryJobStore(), options, log);
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("GitHub 502"))
+      .mockRejectedValueOnce(new Error("GitHub 502"))
+      .mockResolvedValueOnce(undefined);
+    queue.handle("test", handler);
+    await queue.start();
+
+    await queue.enqueue({
+      key: "owner/repo#1",
+      type: "test",
+      installationId: 1,
+      data: {},
+    });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(3));
+    await queue.idle();
+    expect(handler.mock.calls.map((call) => call[1].final)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+    expect(renderMetrics()).toContain(
+      'deploy_checklist_jobs_total{type="test",outcome="retried"} 2'
+    );
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const store = new MemoryJobStore();
+    queue = new JobQueue(store, options, log);
+    const handler = vi.fn().mockRejectedValue(new Error("boom"));
+    queue.handle("test", handler);
+    await queue.start();
+
+    await queue.enqueue({
+      key: "owner/repo#1",
+      type: "test",
+      installationId: 1,
+      data: {},
+    });
+
+    await vi.waitFor(() => expect(log.error).toHaveBeenCalled());
+    await queue.idle();
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("limits concurrent jobs per installation", async () => {
+    queue = new JobQueue(
+      new MemoryJobStore(),
+      {
+        ...options,
+        concurrencyPerInstallation: 1,
+      },
+      log
+    );
+    const { handler, release } = blockingHandler();
+    queue.handle("test", handler);
+    await queue.start();
+
+    for (const [key, installationId] of [
+      ["a/a#1", 1],
+      ["a/a#2", 1],
+      ["b/b#1", 2],
+    ] as const) {
+      await queue.enqueue({ key, type: "test", installationId, data: {} });
+    }
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    const started = handler.mock.calls.map((call: any[]) => call[0].key);
+    expect(started).toEqual(["a/a#1", "b/b#1"]);
+
+    release();
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(3));
+    release();
+  });
+
+  it("never runs two jobs for the same key at once", async () => {
+    queue = new JobQueue(new MemoryJobStore(), options, log);
+    const { handler, release } = blockingHandler();
+    queue.handle("test", handler);
+    await queue.start();
+
+    const input = { key: "owner/repo#1", type: "test", installationId: 1 };
+    await queue.enqueue({ ...input, data: { n: 1 } });
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+
+    // Queued behind the running job, not coalesced into it
+    await queue.enqueue({ ...input, data: { n: 2 } });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    expect(handler.mock.calls[1][0]).toMatchObject({ data: { n: 2 } });
+    release();
+  });
+});
+
+describe("FileJobStore", () => {
+  let dir: string;
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "job-queue-"));
+  });
+
+  afterEach(async () => {
+    queue?.stop();
+    await queue?.idle();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resumes queued and interrupted jobs on boot", async () => {
+    const path = join(dir, "nested", "jobs.json");
+    const before = new FileJobStore(path);
+    await before.put(job({ id: "queued", key: "owner/repo#1" }));
+    await before.put(
+      job({
+        id: "interrupted",
+        key: "owner/repo#2",
+        state: "running",
+        attempts: 1,
+      })
+    );
+
+    queue = new JobQueue(new FileJobStore(path), options, log);
+    const handler = vi.fn(async () => {});
+    queue.handle("test", handler);
+    await queue.start();
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    await queue.idle();
+    const interrupted = handler.mock.calls
+      .map((call: any[]) => call[0])
+      .find((j: Job) => j.id === "interrupted");
+    expect(interrupted.attempts).toBe(2);
+    expect(await new FileJobStore(path).list()).toEqual([]);
+  });
+
+  it("refuses to start when the store can't be written", async () => {
+    // A regular file where the directory should be — mkdir fails as it would on a
+    // read-only or foreign-owned directory
+    await writeFile(join(dir, "data"), "");
+    queue = new JobQueue(
+      new FileJobStore(join(dir, "data", "jobs.json")),
+      options,
+      log
+    );
+
+    await expect(queue.start()).rejects.toThrow();
+  });
+
+  it("claims a job only once", async () => {
+    const store = new FileJobStore(join(dir, "jobs.json"));
+    await store.put(job());
+
+    expect(await store.claim("job-1")).toMatchObject({
+      state: "running",
+      attempts: 1,
+    });
+    expect(await store.claim("job-1")).toBeNull();
+  });
+});
+
+describe("RedisJobStore", () => {
+  let queue: JobQueue | undefined;
+  let clients: InstanceType<typeof RedisMock>[] = [];
+
+  // ioredis-mock instances share one keyspace, like replicas sharing a server
+  function replica() {
+    const client = new RedisMock();
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await replica().flushall();
+  });
+
+  afterEach(async () => {
+    queue?.stop();
+    await queue?.idle();
+    queue = undefined;
+    clients.forEach((client) => client.disconnect());
+    clients = [];
+  });
+
+  it("round-trips jobs and deletes them", async () => {
+    const store = new RedisJobStore(replica());
+    await store.put(job({ data: { n: 1 } }));
+
+    expect(await store.list()).toEqual([job({ data: { n: 1 } })]);
+    await store.delete("job-1");
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("queues a new job in place of the one queued under the same key", async () => {
+    const store = new RedisJobStore(replica());
+    await store.put(job({ data: { n: 1 } }));
+
+    expect(
+      await new RedisJobStore(replica()).enqueue(
+        job({ id: "job-2", data: { n: 2 } })
+      )
+    ).toBe(true);
+    expect(await store.list()).toEqual([job({ data: { n: 2 } })]);
+  });
+
+  it("never resets a job another replica claims while it is being replaced", async () => {
+    const replicaA = new RedisJobStore(replica());
+    const replicaB = new RedisJobStore(replica());
+    await replicaA.put(job({ data: { n: 1 } }));
+    queue = new JobQueue(replicaA, options, log);
+
+    // Replica B claims the queued job after A decided to replace it, before A writes
+    const enqueue = replicaA.enqueue.bind(replicaA);
+    replicaA.enqueue = async (next) => {
+      expect(await replicaA.list()).toMatchObject([{ state: "queued" }]);
+      await replicaB.claim("job-1");
+      return enqueue(next);
+    };
+    await queue.enqueue({
+      key: "owner/repo#1",
+      type: "test",
+      installationId: 1,
+      data: { n: 2 },
+    });
+
+    const jobs = await replicaB.list();
+    expect(jobs).toHaveLength(2);
+    expect(jobs.find((j) => j.id === "job-1")).toMatchObject({
+      state: "running",
+      attempts: 1,
+      data: { n: 1 },
+    });
+    expect(jobs.find((j) => j.id !== "job-1")).toMatchObject({
+      state: "queued",
+      attempts: 0,
+      data: { n: 2 },
+    });
+  });
+
+  it("lets only one replica claim a job", async () => {
+    const replicaA = new RedisJobStore(replica());
+    const replicaB = new RedisJobStore(replica());
+    await replicaA.put(job());
+
+    const [a, b] = await Promise.all([
+      replicaA.claim("job-1"),
+      replicaB.claim("job-1"),
+    ]);
+    expect([a, b].filter(Boolean)).toHaveLength(1);
+    expect(a ?? b).toMatchObject({ state: "running", attempts: 1 });
+    expect((a ?? b)?.claimedAt).toEqual(expect.any(Number));
+  });
+
+  it("leaves another replica's running job alone until its lease expires", async () => {
+    const store = new RedisJobStore(replica());
+    await store.put(
+      job({
+        id: "fresh",
+        key: "owner/repo#1",
+        state: "running",
+        attempts: 1,
+        claimedAt: Date.now(),
+      })
+    );
+    await store.put(
+      job({
+        id: "expired",
+        key: "owner/repo#2",
+        state: "running",
+        attempts: 1,
+        claimedAt: Date.now() - 60000,
+      })
+    );
+
+    queue = new JobQueue(
+      new RedisJobStore(replica()),
+      { ...options, leaseMs: 30000 },
+      log
+    );
+    const handler = vi.fn(async () => {});
+    queue.handle("test", handler);
+    await queue.start();
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    await queue.idle();
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      id: "expired",
+      attempts: 2,
+    });
+    expect(await store.list()).toMatchObject([{ id: "fresh" }]);
+  });
+
+  it("picks up jobs another replica queued", async () => {
+    const handler = vi.fn(async () => {});
+    queue = new JobQueue(
+      new RedisJobStore(replica()),
+      { ...options, pollMs: 10 },
+      log
+    );
+    queue.handle("test", handler);
+    await queue.start();
+
+    await new RedisJobStore(replica()).put(job());
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+  });
+});
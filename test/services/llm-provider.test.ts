@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  FakeLlmProvider,
+  OpenAICompatibleProvider,
+  LlmHttpError,
+  createLlmProvider,
+  resolveLlmProviderName,
+  type ToolCallRequest,
+} from "../../src/services/llm-provider.js";
+import { classifyError } from "../../src/services/analysis-errors.js";
+import { analyzeDiff } from "../../src/services/diff-analyzer.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const tool = {
+  name: "submit_analysis",
+  description: "Submit the analysis.",
+  input_schema: {
+    type: "object" as const,
+    properties: { items: { type: "array" } },
+    required: ["items"],
+  },
+};
+
+function request(overrides: Partial<ToolCallRequest> = {}): ToolCallRequest {
+  return {
+    model: "test-model",
+    system: "You are a test.",
+    turns: [{ role: "user", content: "Analyze this." }],
+    tool,
+    maxTokens: 100,
+    ...overrides,
+  };
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function toolCallResponse(args: string) {
+  return jsonResponse(200, {
+    choices: [
+      {
+        message: {
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "submit_analysis", arguments: args },
+            },
+          ],
+        },
+      },
+    ],
+  });
+}
+
+describe("FakeLlmProvider", () => {
+  it("answers the analyzer's tools with valid defaults", async () => {
+    const provider = new FakeLlmProvider();
+
+    const { call, usage } = await provider.callTool(request());
+
+    expect(call).toMatchObject({
+      input: { items: [], summary: "Fake provider — no analysis performed." },
+    });
+    expect(usage.input_tokens).toBe(0);
+  });
+
+  it("uses canned responses and records every request", async () => {
+    const provider = new FakeLlmProvider({
+      submit_analysis: (req: ToolCallRequest) => ({
+        items: [],
+        summary: req.model,
+      }),
+    });
+
+    const { call } = await provider.callTool(request());
+
+    expect(call!.input).toEqual({ items: [], summary: "test-model" });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("returns null for a tool it has no answer for", async () => {
+    const provider = new FakeLlmProvider();
+
+    const { call } = await provider.callTool(
+      request({ tool: { ...tool, name: "unknown_tool" } })
+    );
+
+    expect(call).toBeNull();
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("forces a function call and parses its arguments", async () => {
+    fetchMock.mockResolvedValue(toolCallResponse('{"items":[]}'));
+    const provider = new OpenAICompatibleProvider(
+      "https://llm.internal/v1/",
+      "local-model",
+      "secret"
+    );
+
+    const { call } = await provider.callTool(request());
+
+    expect(call).toEqual({ id: "call_1", input: { items: [] } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://llm.internal/v1/chat/completions");
+    expect(init.headers.authorization).toBe("Bearer secret");
+    const body = JSON.parse(init.body);
+    expect(body.messages[0]).toEqual({
+      role: "system",
+      content: "You are a test.",
+    });
+    expect(body.tools[0].function).toMatchObject({
+      name: "submit_analysis",
+      parameters: tool.input_schema,
+    });
+    expect(body.tool_choice).toEqual({
+      type: "function",
+      function: { name: "submit_analysis" },
+    });
+  });
+
+  it("maps repair turns to an assistant tool call and a tool message", async () => {
+    fetchMock.mockResolvedValue(toolCallResponse('{"items":[]}'));
+    const provider = new OpenAICompatibleProvider(
+      "https://llm.internal/v1",
+      "m"
+    );
+
+    await provider.callTool(
+      request({
+        turns: [
+          { role: "user", content: "Analyze this." },
+          {
+            role: "tool_call",
+            call: { id: "call_1", input: {} },
+            toolName: "submit_analysis",
+          },
+          { role: "tool_error", callId: "call_1", content: "items: required" },
+        ],
+      })
+    );
+
+    const { messages } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(messages[2].tool_calls[0]).toMatchObject({
+      id: "call_1",
+      function: { name: "submit_analysis", arguments: "{}" },
+    });
+    expect(messages[3]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "items: required",
+    });
+    expect(fetchMock.mock.calls[0][1].headers.authorization).toBeUndefined();
+  });
+
+  it("reports usage with cached prompt tokens split out", async () => {
+    const response = await toolCallResponse('{"items":[]}').json();
+    fetchMock.mockResolvedValue(
+      jsonResponse(200, {
+        ...response,
+        usage: {
+          prompt_tokens: 1000,
+          completion_tokens: 200,
+          prompt_tokens_details: { cached_tokens: 400 },
+        },
+      })
+    );
+    const provider = new OpenAICompatibleProvider(
+      "https://llm.internal/v1",
+      "m"
+    );
+
+    const { usage } = await provider.callTool(request());
+
+    expect(usage).toEqual({
+      input_tokens: 600,
+      output_tokens: 200,
+      cache_read_tokens: 400,
+      cache_write_tokens: 0,
+    });
+  });
+
+  it("passes unparseable arguments through for schema validation to reject", async () => {
+    fetchMock.mockResolvedValue(toolCallResponse("not json"));
+    const provider = new OpenAICompatibleProvider(
+      "https://llm.internal/v1",
+      "m"
+    );
+
+    const { call } = await provider.callTool(request());
+
+    expect(call!.input).toBe("not json");
+  });
+
+  it("throws an LlmHttpError that classifies by status", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(429, { error: "slow down" }));
+    const provider = new OpenAICompatibleProvider(
+      "https://llm.internal/v1",
+      "m"
+    );
+
+    const error = await provider.callTool(request()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LlmHttpError);
+    expect(error.status).toBe(429);
+    expect(classifyError(error)).toBe("rate_limited");
+  });
+});
+
+describe("provider selection", () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("prefers the repo setting, then LLM_PROVIDER, then anthropic", () => {
+    process.env.LLM_PROVIDER = "fake";
+    expect(resolveLlmProviderName("openai")).toBe("openai");
+    expect(resolveLlmProviderName(undefined)).toBe("fake");
+
+    process.env.LLM_PROVIDER = "bogus";
+    expect(resolveLlmProviderName(undefined)).toBe("anthropic");
+  });
+
+  it("requires an endpoint and model for the openai provider", () => {
+    delete process.env.OPENAI_BASE_URL;
+    process.env.OPENAI_MODEL = "m";
+
+    expect(() => createLlmProvider("openai")).toThrow("OPENAI_BASE_URL");
+  });
+
+  it("runs analyzeDiff end to end on the fake provider", async () => {
+    process.env.LLM_PROVIDER = "fake";
+    process.env.ANALYSIS_CACHE = "off";
+    const diff = [
+      "diff --git a/src/app.ts b/src/app.ts",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -1 +1 @@",
+      "-old",
+      "+new",
+    ].join("\n");
+    const context = {
+      octokit: { rest: { repos: { getContent: vi.fn() } } },
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    };
+
+    const result = await analyzeDiff(
+      context as any,
+      diff,
+      DeployChecklistConfigSchema.parse({}),
+      {
+        title: "Tweak app",
+        body: "",
+        baseBranch: "main",
+        headSha: "abc123",
+        author: "developer",
+        isDraft: false,
+        filesChanged: ["src/app.ts"],
+      },
+      { owner: "owner", repo: "repo", ref: "abc123" }
+    );
+
+    expect(result.summary).toBe("Fake provider — no analysis performed.");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  planPrompt,
+  type PromptInputs,
+} from "../../src/services/prompt-budget.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+import { resolveSkills } from "../../src/skills/index.js";
+
+function fileDiff(filename: string, lines: number): string {
+  return [
+    `diff --git a/${filename} b/${filename}`,
+    `--- a/${filename}`,
+    `+++ b/${filename}`,
+    `@@ -1,${lines} +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_, i) => `+const value${i} = ${i};`),
+    "",
+  ].join("\n");
+}
+
+const config = DeployChecklistConfigSchema.parse({
+  rules: [
+    {
+      id: "feature-flags",
+      description: "Feature flag changes",
+      trigger: { paths: ["flags/**"] },
+      checks: ["Confirm flag defaults"],
+    },
+  ],
+  context: "We deploy with Helm.",
+});
+
+function inputs(overrides: Partial<PromptInputs> = {}): PromptInputs {
+  return {
+    config,
+    prMeta: {
+      title: "Change",
+      body: "",
+      baseBranch: "main",
+      headSha: "abc123",
+      author: "developer",
+      isDraft: false,
+      filesChanged: ["src/app.ts"],
+    },
+    diff: fileDiff("src/app.ts", 10),
+    activeSkills: resolveSkills(config).slice(0, 2),
+    uncoveredFiles: ["src/app.ts"],
+    fileContents: new Map([["src/model.ts", "export class Model {}"]]),
+    truncationRules: [],
+    ...overrides,
+  };
+}
+
+describe("estimateTokens", () => {
+  it("estimates about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("planPrompt", () => {
+  it("keeps every section when the budget is ample", () => {
+    const plan = planPrompt(inputs(), 100000, 500, 100000);
+
+    expect(plan.omitted).toEqual([]);
+    expect(plan.userPrompt).toContain(
+      `### Skill: ${resolveSkills(config)[0].id}`
+    );
+    expect(plan.userPrompt).toContain("### Rule: feature-flags");
+    expect(plan.userPrompt).toContain("We deploy with Helm.");
+    expect(plan.userPrompt).toContain("### src/model.ts");
+    expect(plan.estimatedTokens).toBe(500 + estimateTokens(plan.userPrompt));
+  });
+
+  it("drops full file contents before truncating the diff", () => {
+    const large = inputs({
+      fileContents: new Map([["src/model.ts", "x".repeat(40000)]]),
+    });
+    const plan = planPrompt(large, 8000, 0, 100000);
+
+    expect(plan.userPrompt).toContain("+const value9 = 9;");
+    expect(plan.userPrompt).not.toContain("### src/model.ts");
+    expect(plan.omitted).toEqual([
+      "Full file contents left out: `src/model.ts`",
+    ]);
+  });
+
+  it("reduces untriggered diff files to filenames and reports them", () => {
+    const diff =
+      fileDiff("flags/checkout.ts", 10) + fileDiff("src/big.ts", 3000);
+    const plan = planPrompt(
+      inputs({ diff, truncationRules: config.rules }),
+      6000,
+      0,
+      100000
+    );
+
+    expect(plan.userPrompt).toContain("flags/checkout.ts");
+    expect(plan.omitted).toContainEqual(
+      "1 file(s) in the diff reduced to filenames: `src/big.ts`"
+    );
+    expect(plan.estimatedTokens).toBeLessThanOrEqual(6000);
+  });
+
+  it("caps the diff at max_diff_size even when tokens remain", () => {
+    const diff = fileDiff("src/a.ts", 200) + fileDiff("src/b.ts", 200);
+    const plan = planPrompt(inputs({ diff }), 100000, 0, 6000);
+
+    expect(plan.omitted[0]).toContain("reduced to filenames");
+  });
+
+  it("drops skills and rules that no longer fit, naming them", () => {
+    // Just enough for PR info and instructions — nothing else fits
+    const bare = planPrompt(
+      inputs({
+        config: { ...config, rules: [], context: undefined },
+        activeSkills: [],
+        diff: "",
+        fileContents: new Map(),
+        uncoveredFiles: [],
+      }),
+      100000,
+      0,
+      100000
+    );
+    const plan = planPrompt(inputs(), bare.estimatedTokens + 5, 0, 100000);
+
+    expect(plan.omitted).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("Skill guidance left out:"),
+        "Custom rules left out: `feature-flags`",
+      ])
+    );
+    expect(plan.userPrompt).not.toContain("### Rule: feature-flags");
+  });
+});
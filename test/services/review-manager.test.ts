@@ -4,7 +4,10 @@ import {
   approvePR,
   dismissStaleReviews,
   postErrorComment,
+  type GateTarget,
 } from "../../src/services/review-manager.js";
+import { AnalysisError } from "../../src/services/analysis-errors.js";
+import { renderMetrics, resetMetrics } from "../../src/utils/metrics.js";
 
 function createMockContext() {
   return {
@@ -23,6 +26,12 @@ function createMockContext() {
         issues: {
           createComment: vi.fn().mockResolvedValue({}),
         },
+        checks: {
+          create: vi.fn().mockResolvedValue({}),
+        },
+        repos: {
+          createCommitStatus: vi.fn().mockResolvedValue({}),
+        },
       },
     },
     log: {
@@ -48,6 +57,21 @@ describe("blockPR", () => {
     });
   });
 
+  it("counts the decision by gate mode", async () => {
+    resetMetrics();
+
+    await blockPR(createMockContext(), "owner", "repo", 1, "Blocked");
+    await approvePR(createMockContext(), "owner", "repo", 1);
+
+    const metrics = renderMetrics();
+    expect(metrics).toContain(
+      'deploy_checklist_gate_decisions_total{decision="blocked",mode="review"} 1'
+    );
+    expect(metrics).toContain(
+      'deploy_checklist_gate_decisions_total{decision="approved",mode="review"} 1'
+    );
+  });
+
   it("dismisses stale reviews before blocking", async () => {
     const context = createMockContext();
 
@@ -102,6 +126,122 @@ describe("approvePR", () => {
   });
 });
 
+describe("gate modes", () => {
+  const items = [
+    {
+      checked: false,
+      item: {
+        rule_id: "migration-review",
+        check: "Verify rollback exists",
+        description: "Verify migration rollback",
+        reasoning: "New migration file detected.",
+        priority: "high" as const,
+        files: ["migrations/001_add_users.sql"],
+      },
+    },
+    {
+      checked: true,
+      item: {
+        rule_id: "env-vars",
+        check: "Confirm env vars set",
+        description: "Add DATABASE_URL to production",
+        reasoning: "New env var referenced.",
+        priority: "medium" as const,
+        files: ["src/db.ts"],
+      },
+    },
+  ];
+
+  function gate(mode: GateTarget["mode"]): GateTarget {
+    return { mode, headSha: "abc123", items };
+  }
+
+  it("creates an action_required Check Run without a review in check_run mode", async () => {
+    const context = createMockContext();
+
+    await blockPR(context, "owner", "repo", 1, "Blocked.", gate("check_run"));
+
+    expect(context.octokit.rest.pulls.createReview).not.toHaveBeenCalled();
+    const checkRun = context.octokit.rest.checks.create.mock.calls[0][0];
+    expect(checkRun).toMatchObject({
+      name: "Deploy Checklist",
+      head_sha: "abc123",
+      status: "completed",
+      conclusion: "action_required",
+    });
+    expect(checkRun.output.summary).toContain(
+      "**1 of 2** checklist items checked"
+    );
+    expect(checkRun.output.summary).toContain(
+      "1. [ ] **Verify rollback exists**"
+    );
+  });
+
+  it("numbers Check Run items in the comment's priority order", async () => {
+    const context = createMockContext();
+
+    await blockPR(context, "owner", "repo", 1, "Blocked.", {
+      mode: "check_run",
+      headSha: "abc123",
+      items: [...items].reverse(),
+    });
+
+    const { summary } = context.octokit.rest.checks.create.mock.calls[0][0].output;
+    expect(summary).toContain("1. [ ] **Verify rollback exists** (high)");
+    expect(summary).toContain("2. [x] **Confirm env vars set** (medium)");
+  });
+
+  it("annotates only unchecked items on their files", async () => {
+    const context = createMockContext();
+
+    await blockPR(context, "owner", "repo", 1, "Blocked.", gate("check_run"));
+
+    const { annotations } =
+      context.octokit.rest.checks.create.mock.calls[0][0].output;
+    expect(annotations).toHaveLength(1);
+    expect(annotations[0]).toMatchObject({
+      path: "migrations/001_add_users.sql",
+      annotation_level: "warning",
+      title: "Verify rollback exists (migration-review)",
+    });
+  });
+
+  it("creates a success Check Run on approve", async () => {
+    const context = createMockContext();
+
+    await approvePR(context, "owner", "repo", 1, undefined, gate("check_run"));
+
+    expect(context.octokit.rest.checks.create).toHaveBeenCalledWith(
+      expect.objectContaining({ conclusion: "success" })
+    );
+  });
+
+  it("posts both a review and a Check Run in both mode", async () => {
+    const context = createMockContext();
+
+    await blockPR(context, "owner", "repo", 1, "Blocked.", gate("both"));
+
+    expect(context.octokit.rest.pulls.createReview).toHaveBeenCalled();
+    expect(context.octokit.rest.checks.create).toHaveBeenCalled();
+  });
+
+  it("sets a commit status in status mode", async () => {
+    const context = createMockContext();
+
+    await blockPR(context, "owner", "repo", 1, "Blocked.", gate("status"));
+    await approvePR(context, "owner", "repo", 1, undefined, gate("status"));
+
+    expect(context.octokit.rest.pulls.createReview).not.toHaveBeenCalled();
+    const statuses = context.octokit.rest.repos.createCommitStatus.mock.calls;
+    expect(statuses[0][0]).toMatchObject({
+      sha: "abc123",
+      state: "pending",
+      context: "Deploy Checklist",
+    });
+    expect(statuses[1][0].state).toBe("success");
+  });
+});
+
 describe("dismissStaleReviews", () => {
   it("only dismisses bot reviews, not human reviews", async () => {
     const context = createMockContext();
@@ -164,6 +304,26 @@ describe("postErrorComment", () => {
     expect(body).toContain("blocked");
   });
 
+  it("names the failure class when given an AnalysisError", async () => {
+    const context = createMockContext();
+
+    await postErrorComment(
+      context,
+      "owner",
+      "repo",
+      1,
+      "Analysis failed after 4 attempt(s).",
+      new AnalysisError("429", "rate_limited", 4)
+    );
+
+    const body =
+      context.octokit.rest.issues.createComment.mock.calls[0][0].body;
+    expect(body).toContain("after 4 attempt(s)");
+    expect(body).toContain(
+      "**Cause:** The LLM API rate limit was hit (`rate_limited`)."
+    );
+  });
+
   it("handles comment creation failure gracefully", async () => {
     const context = createMockContext();
     context.octokit.rest.issues.createComment.mockRejectedValue(
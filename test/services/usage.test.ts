@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import RedisMock from "ioredis-mock";
+
+const create = vi.fn();
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+import {
+  FileUsageLedger,
+  RedisUsageLedger,
+  budgetStatus,
+  currentMonth,
+  getUsageLedger,
+  priceFor,
+  recordUsage,
+  summarizeUsage,
+} from "../../src/services/usage.js";
+import { analyzeDiff } from "../../src/services/diff-analyzer.js";
+import { renderMetrics, resetMetrics } from "../../src/utils/metrics.js";
+import { DeployChecklistConfigSchema } from "../../src/schemas/config.js";
+
+const tokens = {
+  input_tokens: 1_000_000,
+  output_tokens: 100_000,
+  cache_read_tokens: 0,
+  cache_write_tokens: 0,
+};
+
+function createMockContext() {
+  return {
+    octokit: { rest: { repos: { getContent: vi.fn() } } },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+}
+
+// Each test gets its own repo name — the memory ledger is process-wide
+let repoCounter = 0;
+function freshRepo(): string {
+  return `repo-${++repoCounter}`;
+}
+
+describe("pricing", () => {
+  afterEach(() => {
+    delete process.env.LLM_PRICING;
+  });
+
+  it("prices dated snapshots by their family prefix", () => {
+    expect(priceFor("claude-sonnet-4-5-20250929")).toEqual({
+      input: 3,
+      output: 15,
+    });
+    expect(priceFor("claude-opus-4-5-20251101")!.input).toBe(5);
+    expect(priceFor("claude-opus-4-1-20250805")!.input).toBe(15);
+  });
+
+  it("returns null for unknown models unless LLM_PRICING covers them", () => {
+    expect(priceFor("llama-3-70b")).toBeNull();
+
+    process.env.LLM_PRICING = JSON.stringify({
+      "llama-3": { input: 0.5, output: 1 },
+    });
+    expect(priceFor("llama-3-70b")).toEqual({ input: 0.5, output: 1 });
+  });
+
+  it("estimates cost from input, output and cache tokens", () => {
+    const usage = summarizeUsage("anthropic", "claude-sonnet-4-5", 2, {
+      ...tokens,
+      cache_read_tokens: 1_000_000,
+      cache_write_tokens: 1_000_000,
+    });
+
+    // 3 input + 1.5 output + 0.3 cache read + 3.75 cache write
+    expect(usage.cost_usd).toBeCloseTo(8.55);
+    expect(usage.calls).toBe(2);
+  });
+
+  it("leaves cost null for unpriced models", () => {
+    expect(summarizeUsage("openai", "local", 1, tokens).cost_usd).toBeNull();
+  });
+});
+
+describe("recordUsage", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it("increments Prometheus counters and the monthly ledger", async () => {
+    const repo = freshRepo();
+    const usage = summarizeUsage("anthropic", "claude-sonnet-4-5", 1, tokens);
+
+    await recordUsage(
+      createMockContext() as any,
+      { owner: "acme", repo, pullNumber: 7 },
+      usage
+    );
+
+    const metrics = renderMetrics();
+    expect(metrics).toContain(
+      "# TYPE deploy_checklist_llm_tokens_total counter"
+    );
+    expect(metrics).toContain(
+      `deploy_checklist_llm_tokens_total{owner="acme",repo="${repo}",provider="anthropic",model="claude-sonnet-4-5",kind="input"} 1000000`
+    );
+    expect(metrics).toContain(
+      `deploy_checklist_llm_cost_usd_total{owner="acme",repo="${repo}",provider="anthropic",model="claude-sonnet-4-5"} 4.5`
+    );
+    expect(await getUsageLedger().spent(`acme/${repo}`, currentMonth())).toBe(
+      4.5
+    );
+  });
+});
+
+describe("FileUsageLedger", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "usage-ledger-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists monthly totals across instances", async () => {
+    const path = join(dir, "nested", "ledger.json");
+    await new FileUsageLedger(path).add("acme/api", "2025-03", 1.25);
+    await new FileUsageLedger(path).add("acme/api", "2025-03", 0.5);
+
+    const ledger = new FileUsageLedger(path);
+    expect(await ledger.spent("acme/api", "2025-03")).toBe(1.75);
+    expect(await ledger.spent("acme/api", "2025-04")).toBe(0);
+  });
+
+  it("keeps every record from concurrent adds", async () => {
+    const path = join(dir, "ledger.json");
+    const ledger = new FileUsageLedger(path);
+
+    await Promise.all(
+      Array.from({ length: 10 }, () => ledger.add("acme/api", "2025-03", 0.5))
+    );
+
+    expect(await ledger.spent("acme/api", "2025-03")).toBe(5);
+    expect(await new FileUsageLedger(path).spent("acme/api", "2025-03")).toBe(5);
+  });
+});
+
+describe("RedisUsageLedger", () => {
+  it("shares monthly totals across replicas", async () => {
+    // ioredis-mock instances share one keyspace, like replicas sharing a server
+    const clients = [new RedisMock(), new RedisMock()];
+    await clients[0].flushall();
+    const [replicaA, replicaB] = clients.map((c) => new RedisUsageLedger(c));
+
+    await Promise.all([
+      replicaA.add("acme/api", "2025-03", 1.25),
+      replicaB.add("acme/api", "2025-03", 0.5),
+    ]);
+
+    expect(await replicaA.spent("acme/api", "2025-03")).toBe(1.75);
+    expect(await replicaB.spent("acme/api", "2025-04")).toBe(0);
+    clients.forEach((c) => c.disconnect());
+  });
+});
+
+describe("budgets", () => {
+  const diff = [
+    "diff --git a/src/app.ts b/src/app.ts",
+    "--- a/src/app.ts",
+    "+++ b/src/app.ts",
+    "@@ -1 +1 @@",
+    "-old",
+    "+new",
+  ].join("\n");
+  const prMeta = {
+    title: "Tweak app",
+    body: "",
+    baseBranch: "main",
+    headSha: "abc123",
+    author: "developer",
+    isDraft: false,
+    filesChanged: ["src/app.ts"],
+  };
+
+  beforeEach(() => {
+    create.mockReset();
+    process.env.ANALYSIS_RETRY_BASE_MS = "0";
+    process.env.ANALYSIS_CACHE = "off";
+    create.mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "submit_analysis",
+          input: { items: [], summary: "ok" },
+        },
+      ],
+      usage: { input_tokens: 2000, output_tokens: 300 },
+    });
+  });
+
+  async function spend(repo: string, usd: number) {
+    await getUsageLedger().add(`acme/${repo}`, currentMonth(), usd);
+  }
+
+  function analyze(repo: string, budget?: Record<string, unknown>) {
+    const config = DeployChecklistConfigSchema.parse({
+      settings: { model: "claude-sonnet-4-5", ...(budget ? { budget } : {}) },
+    });
+    return analyzeDiff(createMockContext() as any, diff, config, prMeta, {
+      owner: "acme",
+      repo,
+      ref: "abc123",
+      pullNumber: 7,
+    });
+  }
+
+  it("attaches the analysis's usage and cost to the result", async () => {
+    const result = await analyze(freshRepo());
+
+    expect(result.usage).toMatchObject({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      calls: 1,
+      input_tokens: 2000,
+      output_tokens: 300,
+    });
+    expect(result.usage!.cost_usd).toBeCloseTo(0.0105);
+  });
+
+  it("reports spend against the monthly limit", async () => {
+    const repo = freshRepo();
+    await spend(repo, 3);
+    const config = DeployChecklistConfigSchema.parse({
+      settings: { budget: { monthly_usd: 5 } },
+    });
+
+    expect(await budgetStatus(config, "acme", repo)).toEqual({
+      exceeded: false,
+      spentUsd: 3,
+      limitUsd: 5,
+    });
+  });
+
+  it("falls back to deterministic analysis once the budget is spent", async () => {
+    const repo = freshRepo();
+    await spend(repo, 5);
+
+    const result = await analyze(repo, { monthly_usd: 5 });
+
+    expect(create).not.toHaveBeenCalled();
+    expect(result.summary).toContain("monthly LLM budget is spent");
+  });
+
+  it("switches to the fallback model once the budget is spent", async () => {
+    const repo = freshRepo();
+    await spend(repo, 5);
+
+    await analyze(repo, {
+      monthly_usd: 5,
+      fallback_model: "claude-haiku-4-5",
+    });
+
+    expect(create.mock.calls[0][0].model).toBe("claude-haiku-4-5");
+  });
+
+  it("uses the configured model while under budget", async () => {
+    const repo = freshRepo();
+    await spend(repo, 4.99);
+
+    await analyze(repo, {
+      monthly_usd: 5,
+      fallback_model: "claude-haiku-4-5",
+    });
+
+    expect(create.mock.calls[0][0].model).toBe("claude-sonnet-4-5");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  compileSkill,
+  resolveSkills,
+  detectActiveSkills,
+  computeUncoveredFiles,
+  findSkill,
+} from "../../src/skills/index.js";
+import {
+  DeployChecklistConfigSchema,
+  CustomSkillSchema,
+} from "../../src/schemas/config.js";
+
+const featureFlags = CustomSkillSchema.parse({
+  id: "feature-flags",
+  name: "Feature Flag Hygiene",
+  paths: ["src/flags/**"],
+  content: ["(?i)isEnabled\\("],
+  companion_paths: ["config/flags.yml"],
+  system_context: "We use LaunchDarkly. New flags must default to off.",
+  checks: ["Verify the new flag defaults to off"],
+});
+
+describe("compileSkill", () => {
+  it("maps config fields onto the Skill interface", () => {
+    const skill = compileSkill(featureFlags);
+
+    expect(skill).toMatchObject({
+      id: "feature-flags",
+      name: "Feature Flag Hygiene",
+      paths: ["src/flags/**"],
+      companionPaths: ["config/flags.yml"],
+      systemContext: "We use LaunchDarkly. New flags must default to off.",
+      checks: ["Verify the new flag defaults to off"],
+      custom: true,
+    });
+  });
+
+  it("detects on path globs or content regexes", () => {
+    const skill = compileSkill(featureFlags);
+
+    expect(skill.detect(["src/flags/checkout.ts"], "")).toBe(true);
+    expect(skill.detect(["src/app.ts"], "+ if (ISENABLED('x'))")).toBe(true);
+    expect(skill.detect(["src/app.ts"], "+ const x = 1;")).toBe(false);
+  });
+});
+
+describe("resolveSkills", () => {
+  it("adds custom skills to the built-ins and lets them replace a built-in id", () => {
+    const config = DeployChecklistConfigSchema.parse({
+      skills: {
+        custom: [
+          featureFlags,
+          { ...featureFlags, id: "env-vars", name: "Vault env vars" },
+        ],
+      },
+    });
+
+    const skills = resolveSkills(config);
+
+    expect(skills.filter((s) => s.id === "env-vars")).toHaveLength(1);
+    expect(findSkill("env-vars", skills)?.name).toBe("Vault env vars");
+    expect(findSkill("feature-flags", skills)?.custom).toBe(true);
+    expect(findSkill("migration-review", skills)).toBeDefined();
+  });
+});
+
+describe("resolveSkills — disable and overrides", () => {
+  it("drops disabled skills before detection", () => {
+    const config = DeployChecklistConfigSchema.parse({
+      skills: { disable: ["docker"] },
+    });
+    const skills = resolveSkills(config);
+
+    expect(findSkill("docker", skills)).toBeUndefined();
+    expect(
+      detectActiveSkills(["Dockerfile"], "+ FROM node:20", skills).map(
+        (s) => s.id
+      )
+    ).not.toContain("docker");
+  });
+
+  it("replaces paths and companion paths and appends checks", () => {
+    const config = DeployChecklistConfigSchema.parse({
+      skills: {
+        overrides: {
+          "migration-entity": {
+            paths: ["app/domain/records/**"],
+            companion_paths: ["db/changesets/**"],
+            checks_append: ["Update the ERD in docs/erd.md"],
+          },
+        },
+      },
+    });
+    const skill = findSkill("migration-entity", resolveSkills(config))!;
+    const builtIn = findSkill("migration-entity")!;
+
+    expect(skill.paths).toEqual(["app/domain/records/**"]);
+    expect(skill.companionPaths).toEqual(["db/changesets/**"]);
+    expect(skill.checks).toEqual([
+      ...builtIn.checks,
+      "Update the ERD in docs/erd.md",
+    ]);
+    expect(skill.detect(["app/domain/records/user.ts"], "+ x")).toBe(true);
+    expect(skill.detect(["src/models/user.ts"], "+ x")).toBe(false);
+    expect(builtIn.paths).not.toEqual(skill.paths);
+  });
+
+  it("lets overridden paths activate content-only skills", () => {
+    const config = DeployChecklistConfigSchema.parse({
+      skills: { overrides: { "env-vars": { paths: ["deploy/*.env"] } } },
+    });
+    const skill = findSkill("env-vars", resolveSkills(config))!;
+
+    expect(skill.detect(["deploy/prod.env"], "+ FOO=bar")).toBe(true);
+  });
+});
+
+describe("custom skills in detection and coverage", () => {
+  const config = DeployChecklistConfigSchema.parse({
+    skills: { custom: [featureFlags] },
+  });
+
+  it("only activates custom skills that match the diff", () => {
+    const skills = resolveSkills(config);
+
+    expect(
+      detectActiveSkills(["README.md"], "+ docs", skills).map((s) => s.id)
+    ).not.toContain("feature-flags");
+    expect(
+      detectActiveSkills(["src/flags/a.ts"], "+ x", skills).map((s) => s.id)
+    ).toContain("feature-flags");
+  });
+
+  it("counts custom skill paths toward file coverage", () => {
+    const files = ["src/flags/a.ts", "config/flags.yml", "src/other.ts"];
+    const active = detectActiveSkills(files, "", resolveSkills(config));
+
+    expect(computeUncoveredFiles(files, active)).toEqual(["src/other.ts"]);
+  });
+});
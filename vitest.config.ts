@@ -5,6 +5,8 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["test/**/*.test.ts"],
+    // Budget tests share one in-process ledger instead of writing .cache/usage-ledger.json
+    env: { USAGE_LEDGER: "memory" },
     coverage: {
       provider: "v8",
       include: ["src/**/*.ts"],